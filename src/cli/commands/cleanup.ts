@@ -2,26 +2,47 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 import { WalletTracker } from '../../core/wallet-tracker.js';
-import { WalrusClient } from '../../utils/walrus-client.js';
-import { BlobCategory, BlobImportance } from '../../types/index.js';
 import { CLIValidator } from '../../utils/cli-validator.js';
-import { CostEstimator } from '../../utils/cost-estimator.js';
-import { DeletionExecutor } from '../../utils/deletion-executor.js';
-import { WalrusSystemQuery } from '../../utils/walrus-system-query.js';
+import { BatchCostEstimate, CostEstimator } from '../../utils/cost-estimator.js';
+import { DeletionExecutor, DeletionResult } from '../../utils/deletion-executor.js';
+import { BlobInventory } from '../../core/blob-inventory.js';
+import { ImportanceScorer, parseImportance } from '../../core/importance-scorer.js';
+import { CandidateFilter, CandidateCriteria, parseCategories, parseSize } from '../../core/candidate-filter.js';
+import { SuiClient } from '@mysten/sui.js/client';
+import { SignerBackend, parseSignerBackend } from '../../utils/signer.js';
+import { DeletionJournal } from '../../utils/deletion-journal.js';
+import { BlobBackup } from '../../core/blob-backup.js';
+import { WalrusClient } from '../../utils/walrus-client.js';
+import { formatLifetime } from '../../utils/system-state.js';
+import { WalrusConfig } from '../../types/index.js';
+import { loadWallet } from '../wallet-loader.js';
+
+interface ResumeOptions {
+  config: WalrusConfig;
+  rpcUrl: string;
+  signer: SignerBackend;
+  dryRun?: boolean;
+  force?: boolean;
+}
 
 export function cleanupCommand(program: Command) {
   program
     .command('cleanup')
     .description('Interactive cleanup of wallet blobs with safety checks')
-    .argument('<address>', 'Wallet address to clean up')
+    .argument('[address]', 'Wallet address to clean up')
     .option('-f, --force', 'Skip confirmation prompts')
     .option('-d, --dry-run', 'Show what would be deleted without actually deleting')
     .option('--category <categories...>', 'Only consider specific categories for deletion')
     .option('--exclude-category <categories...>', 'Exclude specific categories from deletion')
-    .option('--max-importance <importance>', 'Maximum importance level to delete', 'LOW')
-    .option('--min-size <bytes>', 'Minimum blob size to consider for deletion')
-    .option('--max-size <bytes>', 'Maximum blob size to consider for deletion')
-    .action(async (address: string, options, command) => {
+    .option('--max-importance <importance>', 'Maximum importance level to delete (critical, important, normal, low, disposable)', 'LOW')
+    .option('--min-size <bytes>', 'Minimum blob size to consider for deletion (e.g. 1024 or 1MB)')
+    .option('--max-size <bytes>', 'Maximum blob size to consider for deletion (e.g. 1024 or 10MB)')
+    .option('--fresh', 'Query the network instead of the local inventory')
+    .option('--signer <backend>', 'How to sign transactions (auto, keystore, cli)', 'auto')
+    .option('--backup-dir <dir>', 'Download every blob and write a restore manifest before deleting')
+    .option('--journal <file>', 'Where to write the deletion journal (default: ~/.walscan/journals/)')
+    .option('--resume <journal>', 'Reconcile an interrupted cleanup journal with the chain and finish it')
+    .action(async (address: string | undefined, options, command) => {
       const parentOptions = command.parent?.opts();
       const config = parentOptions?.config;
       
@@ -30,27 +51,68 @@ export function cleanupCommand(program: Command) {
         process.exit(1);
       }
 
+      if (options.resume) {
+        const inventory = new BlobInventory();
+        try {
+          await resumeCleanup(options.resume, {
+            config,
+            rpcUrl: parentOptions.rpcUrl || config.rpcUrls[0],
+            signer: parseSignerBackend(options.signer),
+            dryRun: options.dryRun,
+            force: options.force
+          }, inventory);
+        } catch (error) {
+          console.error(chalk.red(`Error resuming cleanup: ${error}`));
+          process.exit(1);
+        } finally {
+          await inventory.close();
+        }
+        return;
+      }
+
+      if (!address) {
+        console.error(chalk.red('A wallet address is required unless --resume is given'));
+        process.exit(1);
+      }
+
+      const inventory = new BlobInventory();
+
       try {
+        const criteria: CandidateCriteria = {
+          excludeSiteResources: true,
+          categories: options.category ? parseCategories(options.category) : undefined,
+          excludeCategories: options.excludeCategory ? parseCategories(options.excludeCategory) : undefined,
+          minSize: options.minSize !== undefined ? parseSize(options.minSize) : undefined,
+          maxSize: options.maxSize !== undefined ? parseSize(options.maxSize) : undefined,
+          maxImportance: parseImportance(options.maxImportance)
+        };
+
         console.log(chalk.blue.bold('🧹 Walrus Blob Cleanup Tool\n'));
         
         // Step 1: Validate Environment
         console.log(chalk.blue('🔍 Validating environment...'));
         const validator = new CLIValidator();
-        const validation = await validator.validateEnvironment();
+        const validation = await validator.validateEnvironment({
+          signer: parseSignerBackend(options.signer),
+          rpcUrl: parentOptions?.rpcUrl || config.rpcUrls[0]
+        });
         
         if (validation.errors.length > 0) {
           validator.displayValidationErrors(validation);
           process.exit(1);
         }
         
+        validator.displayValidationWarnings(validation);
         console.log(chalk.green('✓ Environment validation passed'));
-        console.log(chalk.gray(`  Active wallet: ${validation.activeAddress}`));
+        console.log(chalk.gray(`  Active wallet: ${validation.activeAddress} (${validation.signer?.backend} signer)`));
         console.log(chalk.gray(`  SUI balance: ${validation.suiBalance?.toFixed(4)} SUI\n`));
         
         const walletTracker = new WalletTracker(parentOptions?.rpcUrl || config.rpcUrls[0], parentOptions?.aggregatorUrl || parentOptions?.aggregator);
-        const walrusClient = new WalrusClient(parentOptions?.aggregatorUrl || parentOptions?.aggregator, parentOptions?.rpcUrl || config.rpcUrls[0]);
-        const costEstimator = new CostEstimator();
-        const deletionExecutor = new DeletionExecutor();
+        const deletionExecutor = new DeletionExecutor({
+          suiRpcUrl: parentOptions?.rpcUrl || config.rpcUrls[0],
+          systemObjectId: config.systemObject,
+          signer: validation.signer
+        });
         
         // Validate wallet address
         const isValid = await walletTracker.validateWalletAddress(address);
@@ -61,7 +123,12 @@ export function cleanupCommand(program: Command) {
 
         // Step 2: Scan wallet for blobs and analyze for orphans
         console.log(chalk.blue('🔍 Scanning wallet for deletable blobs...'));
-        const blobs = await walrusClient.listBlobsForWallet(address);
+        const { blobs, siteMemberships, sitePaths, systemState } = await loadWallet(address, inventory, {
+          config,
+          rpcUrl: parentOptions?.rpcUrl || config.rpcUrls[0],
+          aggregatorUrl: parentOptions?.aggregatorUrl || parentOptions?.aggregator,
+          fresh: options.fresh
+        });
         
         if (blobs.length === 0) {
           console.log(chalk.yellow('No blobs found in this wallet.'));
@@ -72,38 +139,59 @@ export function cleanupCommand(program: Command) {
         
         // Analyze for orphan blobs (not referenced by websites)
         console.log(chalk.blue('Analyzing for orphan blobs (not referenced by websites)...'));
-        const systemQuery = new WalrusSystemQuery(parentOptions?.rpcUrl || config.rpcUrls[0], config.network);
-        const walrusSites = await systemQuery.queryWalrusSites(address);
         
-        // Get site blob IDs to protect them
-        const siteBlobIds = new Set<string>();
-        for (const site of walrusSites) {
-          // Get dynamic fields for each site to find referenced blobs
-          try {
-            const siteBlobs = await systemQuery.getSiteBlobIds(site.suiObjectId || '');
-            siteBlobs.forEach(blobId => siteBlobIds.add(blobId));
-          } catch (error) {
-            console.warn(chalk.yellow(`Could not analyze site ${site.suiObjectId}: ${error}`));
-          }
+        // Map site blob IDs to their site so they are protected
+        const siteResources = new Map<string, string>();
+        for (const [blobId, siteIds] of siteMemberships) {
+          siteResources.set(blobId, siteIds[0]);
         }
         
-        // Filter for orphan blobs (not referenced by any site)
-        const orphanBlobs = blobs.filter(blob => !siteBlobIds.has(blob.blobId));
-        const protectedBlobs = blobs.filter(blob => siteBlobIds.has(blob.blobId));
+        // Run every blob through the shared candidate pipeline
+        const candidateFilter = new CandidateFilter(new ImportanceScorer(walletTracker));
+        const decisions = candidateFilter.evaluate(blobs, criteria, { siteResources, currentEpoch: systemState?.epoch });
+        const decisionsByBlob = new Map(decisions.map(decision => [decision.blob.blobId, decision]));
+        
+        const protectedBlobs = blobs.filter(blob => siteResources.has(blob.blobId));
+        const orphanCount = blobs.length - protectedBlobs.length;
         
-        console.log(chalk.green(`✓ Identified ${chalk.cyan(orphanBlobs.length.toString())} orphan blobs eligible for deletion`));
+        console.log(chalk.green(`✓ Identified ${chalk.cyan(orphanCount.toString())} orphan blobs eligible for deletion`));
         if (protectedBlobs.length > 0) {
           console.log(chalk.yellow(`⚠ ${protectedBlobs.length} blobs are protected (part of active websites)`));
         }
         
-        if (orphanBlobs.length === 0) {
+        if (orphanCount === 0) {
           console.log(chalk.green('\n🎉 No orphan blobs found! Your wallet is already clean.'));
           return;
         }
 
+        const candidateBlobs = decisions.filter(decision => decision.included).map(decision => decision.blob);
+        const filteredOut = orphanCount - candidateBlobs.length;
+        if (filteredOut > 0) {
+          console.log(chalk.yellow(`⚠ ${filteredOut} orphan blobs excluded by category, size or importance filters`));
+        }
+
+        if (options.dryRun) {
+          console.log(chalk.blue.bold('\n🔬 Filter decisions:'));
+          decisions.forEach(decision => {
+            const marker = decision.included ? chalk.green('✓ include') : chalk.gray('✗ exclude');
+            console.log(`${marker} ${chalk.cyan(decision.blob.blobId)} [${decision.category}, ${decision.assessment.importance}]`);
+            console.log(chalk.gray(`   ${decision.reasons.join('; ')}`));
+          });
+        }
+
+        if (candidateBlobs.length === 0) {
+          console.log(chalk.green('\n🎉 No orphan blobs match the selected filters.'));
+          return;
+        }
+
         // Step 3: Calculate deletion costs and refunds
         console.log(chalk.blue('\n💰 Calculating deletion costs and refunds...'));
-        const costEstimates = await costEstimator.estimateDeletionCosts(orphanBlobs);
+        const costEstimator = new CostEstimator(
+          parentOptions?.rpcUrl || config.rpcUrls[0],
+          systemState,
+          validation.activeAddress ? { sender: validation.activeAddress, systemObjectId: config.systemObject } : undefined
+        );
+        const costEstimates = await costEstimator.estimateDeletionCosts(candidateBlobs);
         const deletableBlobs = costEstimates.filter(estimate => estimate.deletable);
         const nonDeletableBlobs = costEstimates.filter(estimate => !estimate.deletable);
         
@@ -118,16 +206,18 @@ export function cleanupCommand(program: Command) {
           return;
         }
         
-        const batchEstimate = await costEstimator.estimateBatchCosts(deletableBlobs);
+        const batchEstimate = await costEstimator.estimateBatchCosts(deletableBlobs, deletionExecutor.maxBatchSize);
         
         // Display cost analysis
         console.log(chalk.green.bold('\n💰 Deletion Cost Analysis:'));
-        console.log(`Total Storage to Reclaim: ${chalk.cyan(batchEstimate.totalStorageRebate.toFixed(4))} SUI`);
-        console.log(`Storage Rebate (99%): ${chalk.green((batchEstimate.totalStorageRebate * 0.99).toFixed(4))} SUI`);
-        console.log(`Estimated Gas Costs: ${chalk.red(batchEstimate.totalEstimatedGas.toFixed(4))} SUI`);
+        console.log(`Sui Storage Rebate: ${chalk.green(batchEstimate.totalStorageRebate.toFixed(4))} SUI`);
+        console.log(`Estimated Gas Costs: ${chalk.red(batchEstimate.totalEstimatedGas.toFixed(4))} SUI ${chalk.gray(`(${describeGasSource(batchEstimate.source)})`)}`);
         const netRefund = batchEstimate.totalNetRefund;
         const netRefundColor = netRefund > 0 ? chalk.green.bold : chalk.red.bold;
-        console.log(`Net Refund: ${netRefundColor((netRefund > 0 ? '+' : '') + netRefund.toFixed(4))} SUI`);
+        console.log(`Net SUI Refund: ${netRefundColor((netRefund > 0 ? '+' : '') + netRefund.toFixed(4))} SUI`);
+        if (systemState) {
+          console.log(`Walrus Storage Reclaimed: ${chalk.cyan(batchEstimate.totalReclaimedStorageValue.toFixed(4))} WAL ${chalk.gray('(remaining epochs returned as reusable Storage resources, not refunded)')}`);
+        }
         
         if (nonDeletableBlobs.length > 0) {
           console.log(chalk.yellow(`\n⚠ ${nonDeletableBlobs.length} blobs cannot be deleted (not created with --deletable flag)`));
@@ -138,12 +228,24 @@ export function cleanupCommand(program: Command) {
           console.log(chalk.blue.bold('\n🔬 DRY RUN MODE - No blobs will be deleted'));
           console.log('\nBlobs that would be deleted:');
           deletableBlobs.forEach((estimate, index) => {
+            const decision = decisionsByBlob.get(estimate.blobId);
             console.log(`${index + 1}. ${chalk.cyan(estimate.blobId)} (${estimate.netRefund > 0 ? '+' : ''}${estimate.netRefund.toFixed(4)} SUI net)`);
+            if (decision?.blob.endEpoch !== undefined && systemState) {
+              console.log(chalk.gray(`   Lifetime: ${formatLifetime(decision.blob.endEpoch, systemState)}`));
+            }
+            if (decision) {
+              console.log(chalk.gray(`   Included: ${decision.reasons.join('; ')}`));
+            }
           });
           
           console.log(`\nBatch processing plan:`);
           batchEstimate.batches.forEach(batch => {
             console.log(`  Batch ${batch.batchNumber}: ${batch.blobCount} blobs → ${batch.netRefund > 0 ? '+' : ''}${batch.netRefund.toFixed(4)} SUI net`);
+            if (batch.source === 'dry-run') {
+              console.log(chalk.gray(`    computation ${batch.computationCost.toFixed(6)}, storage ${batch.storageCost.toFixed(6)}, rebate ${batch.storageRebate.toFixed(6)} SUI`));
+            } else if (batch.dryRunError) {
+              console.log(chalk.gray(`    estimated; dry run failed: ${batch.dryRunError}`));
+            }
           });
           return;
         }
@@ -161,7 +263,18 @@ export function cleanupCommand(program: Command) {
           deletableBlobs.forEach((estimate, index) => {
             const netColor = estimate.netRefund > 0 ? chalk.green : chalk.red;
             console.log(`${index + 1}. ${chalk.cyan(estimate.blobId)}`);
-            console.log(`   Storage Rebate: ${chalk.green(estimate.storageRebate.toFixed(4))} SUI`);
+            const blob = decisionsByBlob.get(estimate.blobId)?.blob;
+            console.log(`   Importance: ${decisionsByBlob.get(estimate.blobId)?.assessment.importance || 'unknown'}`);
+            if (blob?.endEpoch !== undefined && systemState) {
+              console.log(`   Lifetime: ${formatLifetime(blob.endEpoch, systemState)}`);
+            }
+            console.log(`   Sui Storage Rebate: ${chalk.green(estimate.storageRebate.toFixed(4))} SUI (of ${estimate.storageDeposit.toFixed(4)} SUI deposit)`);
+            if (estimate.encodedSize !== undefined) {
+              console.log(`   Encoded Size: ${formatBytes(estimate.encodedSize)} (${estimate.storageUnits} storage units)`);
+            }
+            if (estimate.reclaimedStorageValue !== undefined) {
+              console.log(`   Walrus Storage Value: ${chalk.cyan(estimate.reclaimedStorageValue.toFixed(4))} WAL over ${estimate.remainingEpochs} epochs`);
+            }
             console.log(`   Gas Cost: ${chalk.red(estimate.estimatedGasCost.toFixed(4))} SUI`);
             console.log(`   Net Refund: ${netColor((estimate.netRefund > 0 ? '+' : '') + estimate.netRefund.toFixed(4))} SUI`);
           });
@@ -206,7 +319,7 @@ export function cleanupCommand(program: Command) {
         }
 
         // Recalculate batch estimate for selected blobs
-        const finalBatchEstimate = await costEstimator.estimateBatchCosts(blobsToProcess);
+        const finalBatchEstimate = await costEstimator.estimateBatchCosts(blobsToProcess, deletionExecutor.maxBatchSize);
         
         // Step 6: Final confirmation
         console.log(chalk.blue.bold('\n📋 Deletion Summary:'));
@@ -218,7 +331,12 @@ export function cleanupCommand(program: Command) {
         console.log(`- Active wallet: ${chalk.cyan(validation.activeAddress?.slice(0, 10) + '...')}`);
         console.log(`- Current SUI balance: ${chalk.cyan(validation.suiBalance?.toFixed(4))} SUI`);
 
-        console.log(chalk.yellow.bold('\n⚠ This action cannot be undone. Deleted blobs are permanently removed.'));
+        if (options.backupDir) {
+          console.log(`- Backup: ${chalk.cyan(options.backupDir)} (restore with walscan restore)`);
+        } else {
+          console.log(chalk.yellow.bold('\n⚠ This action cannot be undone. Deleted blobs are permanently removed.'));
+          console.log(chalk.yellow('  Pass --backup-dir <dir> to keep a restorable copy.'));
+        }
 
         if (!options.force) {
           const { finalConfirmation } = await inquirer.prompt([{
@@ -234,14 +352,47 @@ export function cleanupCommand(program: Command) {
           }
         }
 
+        // Back up contents first; blobs that cannot be downloaded are not deleted
+        if (options.backupDir) {
+          console.log(chalk.blue(`\n💾 Backing up ${blobsToProcess.length} blobs to ${options.backupDir}...`));
+          const blobsById = new Map(blobs.map(blob => [blob.blobId, blob]));
+          const backup = new BlobBackup(new WalrusClient(parentOptions?.aggregatorUrl || parentOptions?.aggregator));
+          const backupResult = await backup.backup(
+            blobsToProcess.map(estimate => blobsById.get(estimate.blobId)!),
+            options.backupDir,
+            { network: config.network, address, sitePaths },
+            (done, total) => process.stdout.write(`\rDownloaded ${done}/${total}${done === total ? '\n' : ''}`)
+          );
+
+          console.log(chalk.green(`✓ Backed up ${backupResult.entries.length} blobs. Manifest: ${backupResult.manifestPath}`));
+          if (backupResult.failed.length > 0) {
+            console.log(chalk.yellow(`⚠ ${backupResult.failed.length} blobs could not be backed up and will not be deleted:`));
+            backupResult.failed.forEach(failure => {
+              console.log(chalk.yellow(`  • ${failure.blobId}: ${failure.error}`));
+            });
+            const backedUp = new Set(backupResult.entries.map(entry => entry.blobId));
+            blobsToProcess = blobsToProcess.filter(estimate => backedUp.has(estimate.blobId));
+          }
+
+          if (blobsToProcess.length === 0) {
+            console.log(chalk.yellow('Nothing left to delete.'));
+            return;
+          }
+        }
+
         // Step 7: Execute deletion with real-time tracking
         console.log(chalk.blue.bold('\n🚀 Starting deletion process...'));
+        const journal = DeletionJournal.create(address, config.network, options.journal);
+        deletionExecutor.useJournal(journal);
+        deletionExecutor.onBatch(batch => inventory.removeDeletedBlobs(config.network, address, batch.results));
+        console.log(chalk.gray(`Journal: ${journal.filePath} (resume with --resume if interrupted)`));
         
         let totalGasUsed = 0;
         let totalRefundReceived = 0;
         let totalDeleted = 0;
-        const allResults: any[] = [];
+        const allResults: DeletionResult[] = [];
         const transactionHashes: string[] = [];
+        const freedStorageIds: string[] = [];
 
         if (processingMethod === 'individual') {
           // Individual deletion with confirmation
@@ -256,11 +407,13 @@ export function cleanupCommand(program: Command) {
 
             if (confirmBlob) {
               console.log(chalk.blue(`Deleting blob ${i + 1}/${blobsToProcess.length}...`));
+              journal.recordIntended([estimate]);
               const batchResult = await deletionExecutor.deleteBlobBatch([estimate], 1, false);
               allResults.push(...batchResult.results);
               totalGasUsed += batchResult.totalGasUsed;
               totalRefundReceived += batchResult.totalRefundReceived;
               totalDeleted += batchResult.results.filter(r => r.success).length;
+              freedStorageIds.push(...(batchResult.freedStorageIds || []));
               
               batchResult.results.forEach(r => {
                 if (r.transactionHash) transactionHashes.push(r.transactionHash);
@@ -269,20 +422,22 @@ export function cleanupCommand(program: Command) {
           }
         } else {
           // Batch deletion
-          const batchSize = 10;
-          for (let i = 0; i < finalBatchEstimate.batches.length; i++) {
-            const batch = finalBatchEstimate.batches[i];
-            const batchBlobs = blobsToProcess.slice((i) * batchSize, (i + 1) * batchSize);
-            
-            const batchResult = await deletionExecutor.deleteBlobBatch(batchBlobs, batch.batchNumber);
+          journal.recordIntended(blobsToProcess);
+          const batchResults = await deletionExecutor.deleteInBatches(blobsToProcess);
+          for (const batchResult of batchResults) {
             allResults.push(...batchResult.results);
             totalGasUsed += batchResult.totalGasUsed;
             totalRefundReceived += batchResult.totalRefundReceived;
             totalDeleted += batchResult.results.filter(r => r.success).length;
+            freedStorageIds.push(...(batchResult.freedStorageIds || []));
             
-            batchResult.results.forEach(r => {
-              if (r.transactionHash) transactionHashes.push(r.transactionHash);
-            });
+            if (batchResult.batchTransactionHash) {
+              transactionHashes.push(batchResult.batchTransactionHash);
+            } else {
+              batchResult.results.forEach(r => {
+                if (r.transactionHash) transactionHashes.push(r.transactionHash);
+              });
+            }
           }
         }
 
@@ -297,10 +452,14 @@ export function cleanupCommand(program: Command) {
         
         const varianceColor = variance >= 0 ? chalk.green : chalk.red;
         console.log(`Variance: ${varianceColor((variance > 0 ? '+' : '') + variance.toFixed(4))} SUI ${variance >= 0 ? '(better than expected)' : '(higher cost than expected)'}`);
+        console.log(chalk.gray(`  Estimate ${describeGasSource(finalBatchEstimate.source)}`));
         
         console.log(`\nDeleted: ${chalk.green(totalDeleted.toString())}/${blobsToProcess.length} blobs`);
         console.log(`Gas Used: ${chalk.red(totalGasUsed.toFixed(4))} SUI`);
         console.log(`Storage Refunded: ${chalk.green(totalRefundReceived.toFixed(4))} SUI`);
+        if (freedStorageIds.length > 0) {
+          console.log(`Storage Resources Returned: ${chalk.cyan(freedStorageIds.length.toString())} ${chalk.gray('(reuse them with walscan storage list)')}`);
+        }
         
         if (transactionHashes.length > 0) {
           console.log('\nTransaction Hashes:');
@@ -320,10 +479,90 @@ export function cleanupCommand(program: Command) {
       } catch (error) {
         console.error(chalk.red(`Error during cleanup: ${error}`));
         process.exit(1);
+      } finally {
+        await inventory.close();
       }
     });
 }
 
+async function resumeCleanup(journalPath: string, options: ResumeOptions, inventory: BlobInventory): Promise<void> {
+  const { config, rpcUrl } = options;
+  const journal = DeletionJournal.open(journalPath);
+
+  if (journal.header.network !== config.network) {
+    throw new Error(`Journal was written on ${journal.header.network} but the active network is ${config.network}`);
+  }
+
+  console.log(chalk.blue.bold(`🧹 Resuming cleanup of ${journal.header.address}\n`));
+  console.log(chalk.blue('🔗 Reconciling journal with on-chain state...'));
+  const summary = await journal.reconcile(new SuiClient({ url: rpcUrl }));
+  console.log(`Confirmed deleted: ${chalk.green(summary.confirmed.toString())}`);
+  console.log(`Not yet deleted: ${chalk.yellow(summary.pending.toString())}`);
+  console.log(`Previously failed: ${chalk.red(summary.failed.toString())}`);
+
+  const pending = journal.getPending();
+  if (pending.length === 0) {
+    console.log(chalk.green('\n🎉 Every blob in the journal has been deleted.'));
+    return;
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.blue.bold('\n🔬 DRY RUN MODE - Blobs that would be deleted:'));
+    pending.forEach((estimate, index) => {
+      console.log(`${index + 1}. ${chalk.cyan(estimate.blobId)}`);
+    });
+    return;
+  }
+
+  console.log(chalk.blue('\n🔍 Validating environment...'));
+  const validator = new CLIValidator();
+  const validation = await validator.validateEnvironment({ signer: options.signer, rpcUrl });
+  if (validation.errors.length > 0) {
+    validator.displayValidationErrors(validation);
+    process.exit(1);
+  }
+  validator.displayValidationWarnings(validation);
+
+  if (!options.force) {
+    const { confirm } = await inquirer.prompt([{
+      type: 'confirm',
+      name: 'confirm',
+      message: `Delete the remaining ${pending.length} blobs?`,
+      default: false
+    }]);
+
+    if (!confirm) {
+      console.log(chalk.yellow('Cleanup cancelled.'));
+      return;
+    }
+  }
+
+  const deletionExecutor = new DeletionExecutor({ suiRpcUrl: rpcUrl, systemObjectId: config.systemObject, signer: validation.signer });
+  deletionExecutor.useJournal(journal);
+  deletionExecutor.onBatch(batch => inventory.removeDeletedBlobs(config.network, journal.header.address, batch.results));
+  const results = (await deletionExecutor.deleteInBatches(pending)).flatMap(batch => batch.results);
+  const failed = results.filter(result => !result.success);
+
+  console.log(chalk.green.bold('\n🎉 Resume complete'));
+  console.log(`Deleted: ${chalk.green((results.length - failed.length).toString())}/${pending.length} blobs`);
+
+  if (failed.length > 0) {
+    console.log(chalk.red(`\n❌ ${failed.length} deletions failed:`));
+    failed.forEach(failure => {
+      console.log(chalk.red(`  • ${failure.blobId}: ${failure.error}`));
+    });
+    process.exit(1);
+  }
+}
+
+function describeGasSource(source: BatchCostEstimate['source']): string {
+  switch (source) {
+    case 'dry-run': return 'from transaction dry-run';
+    case 'mixed': return 'dry-run where possible, otherwise estimated';
+    default: return 'estimated, dry-run unavailable';
+  }
+}
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   
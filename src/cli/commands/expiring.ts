@@ -0,0 +1,173 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { SuiClient } from '@mysten/sui.js/client';
+import { SiteResource } from '../../types/index.js';
+import { BlobInventory } from '../../core/blob-inventory.js';
+import { DEFAULT_EXPIRY_WINDOW, ExpiryGroup, ExpiryReport, ExpirySite, ExpiryWallet, buildExpiryReport } from '../../core/expiry-report.js';
+import { WalrusSystemQuery, isWalrusSiteType } from '../../utils/walrus-system-query.js';
+import { SuiNSResolver } from '../../utils/suins.js';
+import { loadSystemState, loadWallet } from '../wallet-loader.js';
+
+// Exit code when critical resources are inside the window or their expiry
+// is unknown; 1 is left for errors
+const EXIT_CRITICAL = 2;
+
+export function expiringCommand(program: Command) {
+  program
+    .command('expiring')
+    .description(`List resources expiring soon; exits with ${EXIT_CRITICAL} when site resources are affected`)
+    .argument('<targets...>', 'Wallet addresses and/or Walrus Site object IDs')
+    .option('-w, --within <epochs>', 'Report resources expiring within this many epochs', String(DEFAULT_EXPIRY_WINDOW))
+    .option('-o, --owner <addresses...>', 'Other wallets holding Blob objects of the sites')
+    .option('-j, --json', 'Output in JSON format')
+    .option('--fresh', 'Query the network instead of the local inventory')
+    .action(async (targets: string[], options, command) => {
+      const parentOptions = command.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      const inventory = new BlobInventory();
+      let report: ExpiryReport;
+
+      try {
+        const withinEpochs = parseInt(options.within, 10);
+        if (!Number.isInteger(withinEpochs) || withinEpochs < 0) {
+          throw new Error(`Invalid --within "${options.within}"`);
+        }
+
+        const rpcUrl = parentOptions?.rpcUrl || config.rpcUrls[0];
+        const systemState = await loadSystemState(rpcUrl, config, options.json);
+        if (!systemState) {
+          throw new Error('Cannot check expiry without the Walrus system state');
+        }
+
+        const suiClient = new SuiClient({ url: rpcUrl });
+        const systemQuery = new WalrusSystemQuery(rpcUrl, config.network);
+
+        // Site object IDs are reported for that site only; addresses for
+        // every site and blob they own
+        const addresses = new Set<string>();
+        const siteOwners = new Map<string, string>();
+        for (const target of targets) {
+          const object = await suiClient.getObject({ id: target, options: { showType: true, showOwner: true } }).catch(() => undefined);
+          if (object?.data?.type && isWalrusSiteType(object.data.type, config.network)) {
+            const owner = object.data.owner;
+            if (!owner || typeof owner !== 'object' || !('AddressOwner' in owner)) {
+              throw new Error(`Site ${target} is not owned by an address`);
+            }
+            siteOwners.set(target, owner.AddressOwner);
+          } else {
+            addresses.add(target);
+          }
+        }
+
+        const wallets: ExpiryWallet[] = [];
+        const siteIds = new Map<string, string>(siteOwners); // site object ID -> owner
+        const owners: string[] = options.owner || [];
+        for (const address of new Set([...addresses, ...siteOwners.values(), ...owners])) {
+          if (!options.json) {
+            console.log(chalk.blue(`Loading ${address}...`));
+          }
+          const { blobs, sites } = await loadWallet(address, inventory, {
+            config,
+            rpcUrl,
+            aggregatorUrl: parentOptions?.aggregatorUrl || parentOptions?.aggregator,
+            fresh: options.fresh,
+            quiet: options.json
+          });
+          wallets.push({ address, blobs, reportBlobs: addresses.has(address) });
+          if (addresses.has(address)) {
+            sites.forEach(site => site.suiObjectId && siteIds.set(site.suiObjectId, address));
+          }
+        }
+
+        const summaries = await systemQuery.getSiteSummaries([...siteIds.keys()]);
+        const resolver = new SuiNSResolver(suiClient, config);
+        const sites: ExpirySite[] = [];
+        for (const [siteObjectId, owner] of siteIds) {
+          const domains = await resolver.findDomainsForSite(siteObjectId).catch(() => []);
+          // A site that cannot be read is reported rather than passed as fine
+          let resources: SiteResource[] = [];
+          let error: string | undefined;
+          try {
+            resources = await systemQuery.getSiteResources(siteObjectId);
+          } catch (readError) {
+            error = readError instanceof Error ? readError.message : String(readError);
+          }
+          sites.push({
+            siteObjectId,
+            owner,
+            name: summaries.find(summary => summary.objectId === siteObjectId)?.name,
+            domain: domains[0]?.domain,
+            resources,
+            error
+          });
+        }
+
+        report = buildExpiryReport(sites, wallets, withinEpochs, systemState);
+      } catch (error) {
+        console.error(chalk.red(`Error checking expiry: ${error}`));
+        process.exit(1);
+      } finally {
+        await inventory.close();
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        displayReport(report);
+      }
+
+      if (report.criticalCount > 0 || report.unresolvedCount > 0) {
+        process.exit(EXIT_CRITICAL);
+      }
+    });
+}
+
+function groupTitle(group: ExpiryGroup): string {
+  if (!group.siteObjectId) {
+    return `📦 Blobs of ${group.owner} outside any site`;
+  }
+  const name = group.siteName ? `${group.siteName} ` : '';
+  const domain = group.domain ? chalk.cyan(`(${group.domain}) `) : '';
+  return `🌐 ${name}${domain}${chalk.gray(group.siteObjectId)}`;
+}
+
+function displayReport(report: ExpiryReport): void {
+  console.log(chalk.blue.bold(`\n⏳ Resources expiring within ${report.withinEpochs} epochs (current epoch ${report.currentEpoch}):`));
+
+  if (report.groups.length === 0) {
+    console.log(chalk.green('\n🎉 Nothing expires within the window.'));
+    return;
+  }
+
+  report.groups.forEach(group => {
+    console.log(`\n${chalk.bold(groupTitle(group))}`);
+    if (group.error) {
+      console.log(`  ${chalk.red('✗')} ${chalk.red(`resources could not be read: ${group.error}`)}`);
+    }
+    group.resources.forEach(resource => {
+      const marker = resource.critical ? chalk.red('✗') : chalk.yellow('•');
+      const label = resource.path ? `${resource.path} ${chalk.gray(resource.blobId)}` : chalk.cyan(resource.blobId);
+      const lifetime = resource.remainingEpochs <= 0 ? chalk.red(resource.lifetime) : chalk.yellow(resource.lifetime);
+      console.log(`  ${marker} ${label}: ${lifetime}`);
+    });
+    group.missing.forEach(blobId => {
+      console.log(`  ${chalk.red('✗')} ${chalk.gray(blobId)}: ${chalk.red('expiry unknown, the Blob object is not held by any loaded wallet')}`);
+    });
+  });
+
+  if (report.criticalCount > 0) {
+    console.log(chalk.red.bold(`\n❌ ${report.criticalCount} site resources expire within ${report.withinEpochs} epochs`));
+  }
+  if (report.unresolvedCount > 0) {
+    console.log(chalk.red.bold(`\n❌ The expiry of ${report.unresolvedCount} site resources or sites is unknown; pass the wallets holding them with --owner`));
+  }
+  if (report.criticalCount === 0 && report.unresolvedCount === 0) {
+    console.log(chalk.green('\n✓ No site resources expire within the window'));
+  }
+}
@@ -0,0 +1,251 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { SuiClient } from '@mysten/sui.js/client';
+import { BlobInventory } from '../../core/blob-inventory.js';
+import {
+  BlobExtender,
+  DEFAULT_EXTEND_WITHIN,
+  ExtensionGroup,
+  ExtensionPlan,
+  SiteBlobs,
+  assertWithinEpochsAhead,
+  loadPlan,
+  planExtensions,
+  recheckExtensions,
+  savePlan
+} from '../../core/blob-extender.js';
+import { SystemStateReader } from '../../utils/system-state.js';
+import { WalrusSystemQuery } from '../../utils/walrus-system-query.js';
+import { CLIValidator } from '../../utils/cli-validator.js';
+import { parseSignerBackend } from '../../utils/signer.js';
+import { loadWallet } from '../wallet-loader.js';
+
+export function extendCommand(program: Command) {
+  program
+    .command('extend')
+    .description('Extend the storage of blobs that are about to expire')
+    .argument('[address]', 'Wallet address (not needed with --plan)')
+    .option('-w, --within <epochs>', 'Extend blobs expiring within this many epochs', String(DEFAULT_EXTEND_WITHIN))
+    .option('-e, --epochs <epochs>', 'Number of epochs to extend each blob by')
+    .option('-s, --site <siteIds...>', 'Only extend blobs of these sites')
+    .option('--plan <file>', 'Run the extensions in a saved plan file')
+    .option('--save-plan <file>', 'Write the plan to a file instead of running it')
+    .option('--dry-run', 'Show the plan without extending anything')
+    .option('-y, --yes', 'Extend every group without prompting')
+    .option('--signer <backend>', 'How to sign transactions (auto, keystore, cli)', 'auto')
+    .option('--fresh', 'Query the network instead of the local inventory')
+    .action(async (address: string | undefined, options, command) => {
+      const parentOptions = command.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      const inventory = new BlobInventory();
+
+      try {
+        let plan: ExtensionPlan;
+        if (options.plan) {
+          plan = loadPlan(options.plan);
+          if (plan.network !== config.network) {
+            throw new Error(`Plan was made on ${plan.network}, not ${config.network}`);
+          }
+          console.log(chalk.gray(`Loaded plan from ${plan.createdAt} (epoch ${plan.currentEpoch})`));
+        } else {
+          if (!address) {
+            throw new Error('A wallet address is required unless --plan is given');
+          }
+          plan = await buildPlan(address, options, parentOptions, inventory);
+        }
+
+        displayPlan(plan);
+
+        if (plan.groups.length === 0) {
+          console.log(chalk.green(`\n🎉 No blobs expire within ${plan.withinEpochs} epochs.`));
+          return;
+        }
+
+        if (options.savePlan) {
+          savePlan(plan, options.savePlan);
+          console.log(chalk.green(`\n✓ Plan written to ${options.savePlan} (run it with walscan extend --plan ${options.savePlan})`));
+          return;
+        }
+
+        if (options.dryRun) {
+          console.log(chalk.blue.bold('\n🔬 DRY RUN MODE - No blobs will be extended'));
+          return;
+        }
+
+        let groups = plan.groups;
+        if (!options.yes) {
+          const { selected } = await inquirer.prompt([{
+            type: 'checkbox',
+            name: 'selected',
+            message: 'Select groups to extend:',
+            choices: groups.map(group => ({
+              name: `${groupLabel(group)}: ${group.blobs.length} blobs, ${group.totalCost.toFixed(4)} WAL`,
+              value: group,
+              checked: true
+            }))
+          }]);
+          groups = selected;
+        }
+
+        const selectedBlobs = groups.flatMap(group => group.blobs);
+        if (selectedBlobs.length === 0) {
+          console.log(chalk.yellow('No groups selected.'));
+          return;
+        }
+
+        // A saved plan may be stale or already run, so check every blob again
+        const rpcUrl = parentOptions?.rpcUrl || config.rpcUrls[0];
+        const state = await new SystemStateReader(rpcUrl, config).getState();
+        assertWithinEpochsAhead(plan.extendBy, state);
+        const { blobs, skipped } = await recheckExtensions(new SuiClient({ url: rpcUrl }), selectedBlobs, plan.address, state);
+        skipped.forEach(skip => console.log(chalk.yellow(`Skipping ${skip.blobId}: ${skip.reason}`)));
+        if (blobs.length === 0) {
+          console.log(chalk.green('\nNothing left to extend.'));
+          return;
+        }
+
+        const validator = new CLIValidator();
+        const validation = await validator.validateEnvironment({ signer: parseSignerBackend(options.signer), rpcUrl });
+        if (validation.errors.length > 0) {
+          validator.displayValidationErrors(validation);
+          process.exit(1);
+        }
+        validator.displayValidationWarnings(validation);
+
+        // Only the owner can extend an owned Blob object
+        if (validation.activeAddress !== plan.address) {
+          throw new Error(`Blobs are owned by ${plan.address} but the signer is ${validation.activeAddress}`);
+        }
+
+        const extender = new BlobExtender({ suiRpcUrl: rpcUrl, systemObjectId: config.systemObject, signer: validation.signer });
+        const totalCost = blobs.reduce((sum, blob) => sum + (blob.cost || 0), 0);
+        const walBalance = await extender.getWalBalance().catch(() => undefined);
+        if (walBalance !== undefined) {
+          console.log(`WAL balance: ${chalk.cyan(walBalance.toFixed(4))} WAL`);
+          if (walBalance < totalCost) {
+            throw new Error(`Extending costs ${totalCost.toFixed(4)} WAL but the wallet holds ${walBalance.toFixed(4)} WAL`);
+          }
+        }
+
+        if (!options.yes) {
+          const { confirm } = await inquirer.prompt([{
+            type: 'confirm',
+            name: 'confirm',
+            message: `Extend ${blobs.length} blobs by up to ${plan.extendBy} epochs for ~${totalCost.toFixed(4)} WAL?`,
+            default: false
+          }]);
+
+          if (!confirm) {
+            console.log(chalk.yellow('Extension cancelled.'));
+            return;
+          }
+        }
+
+        console.log(chalk.blue(`\nExtending ${blobs.length} blobs by up to ${plan.extendBy} epochs...`));
+        const results = await extender.extend(blobs, (batch) => {
+          batch.forEach(result => {
+            if (result.success) {
+              console.log(`${chalk.green('✓')} ${result.blobId}${result.transactionHash ? chalk.gray(` (${result.transactionHash})`) : ''}`);
+            } else {
+              console.log(`${chalk.red('✗')} ${result.blobId}: ${result.error}`);
+            }
+          });
+        });
+
+        const failed = results.filter(result => !result.success);
+        console.log(`\nExtended: ${chalk.green((results.length - failed.length).toString())}/${results.length} blobs`);
+        if (failed.length > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error extending blobs: ${error}`));
+        process.exit(1);
+      } finally {
+        await inventory.close();
+      }
+    });
+}
+
+async function buildPlan(
+  address: string,
+  options: any,
+  parentOptions: any,
+  inventory: BlobInventory
+): Promise<ExtensionPlan> {
+  const config = parentOptions.config;
+  const rpcUrl = parentOptions.rpcUrl || config.rpcUrls[0];
+
+  const withinEpochs = parseInt(options.within, 10);
+  const extendBy = parseInt(options.epochs, 10);
+  if (!Number.isInteger(withinEpochs) || withinEpochs <= 0) {
+    throw new Error(`Invalid --within "${options.within}"`);
+  }
+  if (!Number.isInteger(extendBy) || extendBy <= 0) {
+    throw new Error(options.epochs === undefined ? '--epochs is required' : `Invalid --epochs "${options.epochs}"`);
+  }
+
+  console.log(chalk.blue(`Finding blobs of ${address} that expire within ${withinEpochs} epochs...`));
+  const { blobs, sites, systemState } = await loadWallet(address, inventory, {
+    config,
+    rpcUrl,
+    aggregatorUrl: parentOptions.aggregatorUrl || parentOptions.aggregator,
+    fresh: options.fresh
+  });
+  if (!systemState) {
+    throw new Error('Cannot plan extensions without the Walrus system state');
+  }
+
+  const systemQuery = new WalrusSystemQuery(rpcUrl, config.network);
+  const siteIds = sites.map(site => site.suiObjectId || '').filter(Boolean);
+  const summaries = await systemQuery.getSiteSummaries(siteIds);
+  const siteBlobs: SiteBlobs[] = [];
+  for (const siteObjectId of siteIds) {
+    siteBlobs.push({
+      siteObjectId,
+      name: summaries.find(summary => summary.objectId === siteObjectId)?.name,
+      blobIds: await systemQuery.getSiteBlobIds(siteObjectId)
+    });
+  }
+
+  let candidates = blobs;
+  if (options.site) {
+    const wanted = new Set<string>(options.site);
+    const inSites = new Set(siteBlobs.filter(site => wanted.has(site.siteObjectId)).flatMap(site => site.blobIds));
+    candidates = blobs.filter(blob => inSites.has(blob.blobId));
+  }
+
+  return planExtensions(candidates, siteBlobs, { network: config.network, address, withinEpochs, extendBy, state: systemState });
+}
+
+function groupLabel(group: ExtensionGroup): string {
+  if (!group.siteObjectId) {
+    return 'Not part of a site';
+  }
+  return group.siteName ? `${group.siteName} (${group.siteObjectId.slice(0, 10)}...)` : group.siteObjectId;
+}
+
+function displayPlan(plan: ExtensionPlan): void {
+  console.log(chalk.blue.bold(`\n📋 Extension Plan (+${plan.extendBy} epochs, current epoch ${plan.currentEpoch}):`));
+
+  plan.groups.forEach(group => {
+    console.log(`\n${chalk.bold(groupLabel(group))} — ${group.blobs.length} blobs, ${chalk.cyan(group.totalCost.toFixed(4))} WAL`);
+    group.blobs.forEach(blob => {
+      const cost = blob.cost !== undefined ? `${blob.cost.toFixed(4)} WAL` : 'cost unknown';
+      console.log(`  ${chalk.cyan(blob.blobId)} epoch ${blob.endEpoch} → ${blob.newEndEpoch} (${cost})`);
+    });
+  });
+
+  const blobs = plan.groups.reduce((sum, group) => sum + group.blobs.length, 0);
+  const total = plan.groups.reduce((sum, group) => sum + group.totalCost, 0);
+  console.log(`\nTotal: ${chalk.cyan(blobs.toString())} blobs, ${chalk.cyan(total.toFixed(4))} WAL`);
+  if (plan.groups.some(group => group.blobs.some(blob => blob.cost === undefined))) {
+    console.log(chalk.yellow('⚠ Some blob sizes are unknown; the total excludes them'));
+  }
+}
@@ -0,0 +1,82 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { BlobInventory } from '../../core/blob-inventory.js';
+import { InventoryRefresher } from '../../core/inventory-refresher.js';
+
+export function indexCommand(program: Command) {
+  const index = program
+    .command('index')
+    .description('Manage the local blob inventory used by wallet-scan and cleanup');
+
+  index
+    .command('refresh')
+    .description('Refresh the local inventory for a wallet, fetching only objects whose version changed')
+    .argument('<address>', 'Wallet address to index')
+    .action(async (address: string, options, command) => {
+      const parentOptions = command.parent?.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      const inventory = new BlobInventory();
+
+      try {
+        console.log(chalk.blue(`Refreshing inventory for ${address} on ${config.network}...`));
+
+        const refresher = new InventoryRefresher(
+          inventory,
+          parentOptions?.rpcUrl || config.rpcUrls[0],
+          parentOptions?.aggregatorUrl || parentOptions?.aggregator,
+          config.network
+        );
+
+        const stats = await refresher.refresh(address, (progress) => {
+          process.stdout.write(`\rScanning owned objects: page ${progress.pagesFetched}, ${progress.objectsFetched} objects${progress.hasNextPage ? '' : '\n'}`);
+        });
+
+        console.log(chalk.green('\n✓ Inventory refreshed'));
+        console.log(`Objects scanned: ${chalk.cyan(stats.objectsScanned.toString())}`);
+        console.log(`Blobs added: ${chalk.green(stats.blobsAdded.toString())}`);
+        console.log(`Blobs updated: ${chalk.yellow(stats.blobsUpdated.toString())}`);
+        console.log(`Blobs unchanged: ${chalk.gray(stats.blobsUnchanged.toString())}`);
+        console.log(`Sites refreshed: ${chalk.yellow(stats.sitesRefreshed.toString())} (${stats.sitesUnchanged} unchanged)`);
+        console.log(`Objects removed: ${chalk.red(stats.objectsRemoved.toString())}`);
+      } catch (error) {
+        console.error(chalk.red(`Error refreshing inventory: ${error}`));
+        process.exit(1);
+      } finally {
+        await inventory.close();
+      }
+    });
+
+  index
+    .command('status')
+    .description('Show which wallets are in the local inventory')
+    .action(async () => {
+      const inventory = new BlobInventory();
+
+      try {
+        const refreshes = await inventory.listRefreshes();
+
+        if (refreshes.length === 0) {
+          console.log(chalk.yellow('The local inventory is empty. Run: walscan index refresh <address>'));
+          return;
+        }
+
+        console.log(chalk.blue('\nIndexed Wallets:'));
+        refreshes.forEach((refresh, i) => {
+          console.log(`${i + 1}. ${chalk.cyan(refresh.wallet)} (${refresh.network})`);
+          console.log(`   Blobs: ${refresh.blobCount}, Sites: ${refresh.siteCount}`);
+          console.log(`   Refreshed: ${chalk.gray(refresh.refreshedAt.toLocaleString())}`);
+        });
+      } catch (error) {
+        console.error(chalk.red(`Error reading inventory: ${error}`));
+        process.exit(1);
+      } finally {
+        await inventory.close();
+      }
+    });
+}
@@ -0,0 +1,254 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { WalletTracker } from '../../core/wallet-tracker.js';
+import { ImportanceScorer } from '../../core/importance-scorer.js';
+import { BlobInventory } from '../../core/blob-inventory.js';
+import { PolicyEngine, PolicyDecision, DEFAULT_POLICY_FILE, loadPolicy, validatePolicyFile } from '../../core/cleanup-policy.js';
+import { WalrusSystemQuery } from '../../utils/walrus-system-query.js';
+import { CLIValidator } from '../../utils/cli-validator.js';
+import { CostEstimator } from '../../utils/cost-estimator.js';
+import { DeletionExecutor } from '../../utils/deletion-executor.js';
+import { parseSignerBackend } from '../../utils/signer.js';
+import { DeletionJournal } from '../../utils/deletion-journal.js';
+import { WalrusSystemState } from '../../utils/system-state.js';
+import { WalletLoadOptions, loadWallet } from '../wallet-loader.js';
+
+interface PolicyPlanOptions extends WalletLoadOptions {
+  policyFile: string;
+}
+
+export function policyCommand(program: Command) {
+  const policy = program
+    .command('policy')
+    .description(`Declarative cleanup policies (${DEFAULT_POLICY_FILE})`);
+
+  policy
+    .command('validate')
+    .description('Check a policy file for errors')
+    .argument('[file]', 'Policy file', DEFAULT_POLICY_FILE)
+    .action(async (file: string) => {
+      const result = validatePolicyFile(file);
+
+      if (!result.policy) {
+        console.error(chalk.red.bold(`\n❌ ${file} is invalid:\n`));
+        result.errors.forEach((error, index) => {
+          console.error(chalk.red(`${index + 1}. ${error}`));
+        });
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`✓ ${file} is valid`));
+      console.log(`Default action: ${chalk.cyan(result.policy.defaultAction)}`);
+      console.log(`Rules (first match wins):`);
+      result.policy.rules.forEach((rule, index) => {
+        const action = rule.action === 'delete' ? chalk.red(rule.action) : chalk.green(rule.action);
+        console.log(`  ${index + 1}. ${chalk.bold(rule.name)} → ${action}`);
+        console.log(chalk.gray(`     ${JSON.stringify(rule.match)}`));
+      });
+    });
+
+  policy
+    .command('plan')
+    .description('Show which rule matches each blob in a wallet')
+    .argument('<address>', 'Wallet address')
+    .option('-p, --policy <file>', 'Policy file', DEFAULT_POLICY_FILE)
+    .option('-j, --json', 'Output in JSON format')
+    .option('--fresh', 'Query the network instead of the local inventory')
+    .action(async (address: string, options, command) => {
+      const parentOptions = command.parent?.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      const inventory = new BlobInventory();
+
+      try {
+        const { decisions } = await planPolicy(address, {
+          config,
+          rpcUrl: parentOptions.rpcUrl || config.rpcUrls[0],
+          aggregatorUrl: parentOptions.aggregatorUrl || parentOptions.aggregator,
+          policyFile: options.policy,
+          fresh: options.fresh,
+          quiet: options.json
+        }, inventory);
+
+        if (options.json) {
+          console.log(JSON.stringify(decisions.map(decision => ({
+            blobId: decision.blob.blobId,
+            suiObjectId: decision.blob.suiObjectId,
+            action: decision.action,
+            rule: decision.rule,
+            reasons: decision.reasons
+          })), null, 2));
+          return;
+        }
+
+        displayPlan(decisions);
+      } catch (error) {
+        console.error(chalk.red(`Error planning policy: ${error}`));
+        process.exit(1);
+      } finally {
+        await inventory.close();
+      }
+    });
+
+  policy
+    .command('apply')
+    .description('Delete every blob the policy marks for deletion')
+    .argument('<address>', 'Wallet address')
+    .option('-p, --policy <file>', 'Policy file', DEFAULT_POLICY_FILE)
+    .option('-y, --yes', 'Skip the confirmation prompt')
+    .option('--fresh', 'Query the network instead of the local inventory')
+    .option('--signer <backend>', 'How to sign transactions (auto, keystore, cli)', 'auto')
+    .action(async (address: string, options, command) => {
+      const parentOptions = command.parent?.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      const inventory = new BlobInventory();
+
+      try {
+        console.log(chalk.blue('🔍 Validating environment...'));
+        const validator = new CLIValidator();
+        const validation = await validator.validateEnvironment({
+          signer: parseSignerBackend(options.signer),
+          rpcUrl: parentOptions.rpcUrl || config.rpcUrls[0]
+        });
+
+        if (validation.errors.length > 0) {
+          validator.displayValidationErrors(validation);
+          process.exit(1);
+        }
+        validator.displayValidationWarnings(validation);
+
+        const { decisions, systemState } = await planPolicy(address, {
+          config,
+          rpcUrl: parentOptions.rpcUrl || config.rpcUrls[0],
+          aggregatorUrl: parentOptions.aggregatorUrl || parentOptions.aggregator,
+          policyFile: options.policy,
+          fresh: options.fresh
+        }, inventory);
+        displayPlan(decisions);
+
+        const toDelete = decisions.filter(decision => decision.action === 'delete').map(decision => decision.blob);
+        if (toDelete.length === 0) {
+          console.log(chalk.green('\n🎉 The policy does not mark any blobs for deletion.'));
+          return;
+        }
+
+        const deletionExecutor = new DeletionExecutor({
+          suiRpcUrl: parentOptions.rpcUrl || config.rpcUrls[0],
+          systemObjectId: config.systemObject,
+          signer: validation.signer
+        });
+
+        console.log(chalk.blue('\n💰 Calculating deletion costs and refunds...'));
+        const costEstimator = new CostEstimator(
+          parentOptions.rpcUrl || config.rpcUrls[0],
+          systemState,
+          validation.activeAddress ? { sender: validation.activeAddress, systemObjectId: config.systemObject } : undefined
+        );
+        const estimates = (await costEstimator.estimateDeletionCosts(toDelete)).filter(estimate => estimate.deletable);
+        const batchEstimate = await costEstimator.estimateBatchCosts(estimates, deletionExecutor.maxBatchSize);
+
+        console.log(`Blobs to delete: ${chalk.cyan(estimates.length.toString())}`);
+        console.log(`Expected net refund: ${batchEstimate.totalNetRefund > 0 ? '+' : ''}${chalk.green(batchEstimate.totalNetRefund.toFixed(4))} SUI ${chalk.gray(batchEstimate.source === 'dry-run' ? '(dry-run)' : '(estimated)')}`);
+        if (systemState) {
+          console.log(`Walrus storage reclaimed: ${chalk.cyan(batchEstimate.totalReclaimedStorageValue.toFixed(4))} WAL`);
+        }
+        console.log(chalk.yellow.bold('\n⚠ This action cannot be undone. Deleted blobs are permanently removed.'));
+
+        if (!options.yes) {
+          const { confirm } = await inquirer.prompt([{
+            type: 'confirm',
+            name: 'confirm',
+            message: `Apply policy and delete ${estimates.length} blobs?`,
+            default: false
+          }]);
+
+          if (!confirm) {
+            console.log(chalk.yellow('Policy apply cancelled.'));
+            return;
+          }
+        }
+
+        const journal = DeletionJournal.create(address, config.network);
+        journal.recordIntended(estimates);
+        deletionExecutor.useJournal(journal);
+        deletionExecutor.onBatch(batch => inventory.removeDeletedBlobs(config.network, address, batch.results));
+        console.log(chalk.gray(`Journal: ${journal.filePath} (finish with walscan cleanup --resume if interrupted)`));
+
+        const batchResults = await deletionExecutor.deleteInBatches(estimates);
+        const results = batchResults.flatMap(batch => batch.results);
+        const deleted = results.filter(result => result.success).length;
+        const netRefund = batchResults.reduce((sum, batch) => sum + batch.netRefund, 0);
+
+        console.log(chalk.green.bold('\n🎉 Policy applied'));
+        console.log(`Deleted: ${chalk.green(deleted.toString())}/${estimates.length} blobs`);
+        console.log(`Actual net refund: ${netRefund > 0 ? '+' : ''}${netRefund.toFixed(4)} SUI`);
+
+        const failed = results.filter(result => !result.success);
+        if (failed.length > 0) {
+          console.log(chalk.red(`\n❌ ${failed.length} deletions failed:`));
+          failed.forEach(failure => {
+            console.log(chalk.red(`  • ${failure.blobId}: ${failure.error}`));
+          });
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error applying policy: ${error}`));
+        process.exit(1);
+      } finally {
+        await inventory.close();
+      }
+    });
+}
+
+async function planPolicy(
+  address: string,
+  options: PolicyPlanOptions,
+  inventory: BlobInventory
+): Promise<{ decisions: PolicyDecision[]; systemState?: WalrusSystemState }> {
+  const policy = loadPolicy(options.policyFile);
+
+  if (!options.quiet) {
+    console.log(chalk.blue(`Evaluating ${options.policyFile} against ${address}...`));
+  }
+  const { blobs, sites, siteMemberships, systemState } = await loadWallet(address, inventory, options);
+
+  const systemQuery = new WalrusSystemQuery(options.rpcUrl, options.config.network as 'mainnet' | 'testnet');
+  const siteSummaries = await systemQuery.getSiteSummaries(
+    sites.map(site => site.suiObjectId || '').filter(Boolean)
+  );
+
+  const siteResources = new Map<string, string>();
+  for (const [blobId, siteIds] of siteMemberships) {
+    siteResources.set(blobId, siteIds[0]);
+  }
+
+  const walletTracker = new WalletTracker(options.rpcUrl, options.aggregatorUrl);
+  const engine = new PolicyEngine(policy, new ImportanceScorer(walletTracker));
+  const decisions = engine.evaluate(blobs, { siteMemberships, siteResources, sites: siteSummaries, currentEpoch: systemState?.epoch });
+  return { decisions, systemState };
+}
+
+function displayPlan(decisions: PolicyDecision[]): void {
+  const deletes = decisions.filter(decision => decision.action === 'delete');
+
+  console.log(chalk.blue.bold('\n📋 Policy Plan:'));
+  decisions.forEach((decision, index) => {
+    const action = decision.action === 'delete' ? chalk.red('DELETE') : chalk.green('KEEP  ');
+    console.log(`${index + 1}. ${action} ${chalk.cyan(decision.blob.blobId)}`);
+    console.log(chalk.gray(`   Rule: ${decision.rule} (${decision.reasons.join('; ')})`));
+  });
+
+  console.log(`\nDelete: ${chalk.red(deletes.length.toString())}, Keep: ${chalk.green((decisions.length - deletes.length).toString())}`);
+}
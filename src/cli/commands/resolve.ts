@@ -0,0 +1,139 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { SuiClient } from '@mysten/sui.js/client';
+import { BlobInfo } from '../../types/index.js';
+import { DomainFootprint, buildDomainFootprint } from '../../core/domain-footprint.js';
+import { SuiNSResolver } from '../../utils/suins.js';
+import { WalrusClient } from '../../utils/walrus-client.js';
+import { WalrusSystemQuery } from '../../utils/walrus-system-query.js';
+import { loadSystemState } from '../wallet-loader.js';
+
+export function resolveCommand(program: Command) {
+  program
+    .command('resolve')
+    .description('Resolve a SuiNS name to its Walrus Site and show every blob it depends on')
+    .argument('<name>', 'SuiNS name, e.g. example.sui')
+    .option('--owner <addresses...>', 'Other wallets holding the site\'s Blob objects')
+    .option('-j, --json', 'Output in JSON format')
+    .action(async (name: string, options, command) => {
+      const parentOptions = command.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      try {
+        const rpcUrl = parentOptions?.rpcUrl || config.rpcUrls[0];
+        const suiClient = new SuiClient({ url: rpcUrl });
+
+        const record = await new SuiNSResolver(suiClient, config).resolveName(name);
+        if (!record) {
+          throw new Error(`${name} is not registered`);
+        }
+        if (!record.targetSiteId) {
+          throw new Error(`${record.domain} does not point at a Walrus Site${record.targetAddress ? ` (target address ${record.targetAddress})` : ''}`);
+        }
+        const siteObjectId = record.targetSiteId;
+
+        const systemState = await loadSystemState(rpcUrl, config, options.json);
+        const systemQuery = new WalrusSystemQuery(rpcUrl, config.network);
+        const [summary] = await systemQuery.getSiteSummaries([siteObjectId]);
+        const resources = await systemQuery.getSiteResources(siteObjectId);
+
+        // The site's Blob objects are usually held by the site owner, the
+        // name's holder or the address the name points at
+        const site = await suiClient.getObject({ id: siteObjectId, options: { showOwner: true } });
+        const siteOwner = site.data?.owner && typeof site.data.owner === 'object' && 'AddressOwner' in site.data.owner
+          ? site.data.owner.AddressOwner
+          : undefined;
+        const wallets = new Set([siteOwner, record.owner, record.targetAddress, ...(options.owner || [])].filter((address): address is string => !!address));
+
+        const walrusClient = new WalrusClient(parentOptions?.aggregatorUrl || parentOptions?.aggregator, rpcUrl);
+        walrusClient.setSystemObject(config.systemObject);
+        if (systemState) {
+          walrusClient.setCurrentEpoch(systemState.epoch);
+        }
+        const blobs: BlobInfo[] = [];
+        for (const wallet of wallets) {
+          if (!options.json) {
+            console.log(chalk.blue(`Loading Blob objects of ${wallet}...`));
+          }
+          blobs.push(...await walrusClient.listBlobsForWallet(wallet));
+        }
+
+        // Sizes of blobs without a Blob object in those wallets come from the aggregator
+        const held = new Set(blobs.map(blob => blob.blobId));
+        const fallbackInfo = new Map<string, BlobInfo>();
+        for (const blobId of new Set(resources.map(resource => resource.blobId))) {
+          if (held.has(blobId)) continue;
+          const info = await walrusClient.getBlobInfo(blobId).catch(() => null);
+          if (info) {
+            fallbackInfo.set(blobId, info);
+          }
+        }
+
+        const footprint = buildDomainFootprint(record, summary?.name, resources, blobs, systemState, fallbackInfo);
+
+        if (options.json) {
+          console.log(JSON.stringify(footprint, null, 2));
+          return;
+        }
+        displayFootprint(footprint);
+      } catch (error) {
+        console.error(chalk.red(`Error resolving ${name}: ${error}`));
+        process.exit(1);
+      }
+    });
+}
+
+function displayFootprint(footprint: DomainFootprint): void {
+  const { record } = footprint;
+
+  console.log(chalk.blue.bold(`\n🌐 ${footprint.domain}`));
+  console.log(`Site: ${chalk.cyan(footprint.siteObjectId)}${footprint.siteName ? ` (${footprint.siteName})` : ''}`);
+  if (record.owner) {
+    console.log(`Name held by: ${record.owner}`);
+  }
+  if (record.expiresAt !== undefined) {
+    const label = new Date(record.expiresAt).toISOString().slice(0, 10);
+    console.log(`Name expires: ${record.expiresAt < Date.now() ? chalk.red(`${label} (expired)`) : label}`);
+  }
+
+  console.log(chalk.blue.bold(`\n📦 Blobs (${footprint.blobs.length}):`));
+  for (const blob of footprint.blobs) {
+    const status = blob.suiObjectId === undefined
+      ? chalk.yellow('no Blob object found')
+      : blob.isExpired ? chalk.red(blob.lifetime || 'expired') : chalk.green(blob.lifetime || `until epoch ${blob.endEpoch}`);
+    console.log(`${chalk.cyan(blob.blobId)} ${formatBytes(blob.size || 0)} ${status}`);
+    console.log(chalk.gray(`  ${blob.paths.join(', ')}`));
+    if (blob.suiObjectId) {
+      console.log(chalk.gray(`  Object ${blob.suiObjectId}, owner ${blob.owner || 'unknown'}, ${blob.isDeletable ? 'deletable' : 'permanent'}`));
+    }
+  }
+
+  console.log(chalk.blue.bold('\n📊 Summary:'));
+  console.log(`Total size: ${formatBytes(footprint.totalSize)}`);
+  if (footprint.totalStorageValue !== undefined) {
+    console.log(`Remaining storage value: ${chalk.cyan(footprint.totalStorageValue.toFixed(4))} WAL`);
+    console.log(`Cost to keep it stored: ${chalk.cyan(footprint.totalCostPerEpoch!.toFixed(4))} WAL per epoch`);
+  }
+  if (footprint.earliestExpiry) {
+    const { endEpoch, lifetime, blobIds } = footprint.earliestExpiry;
+    console.log(`Earliest expiry: epoch ${endEpoch}${lifetime ? `, ${lifetime}` : ''} (${blobIds.length} blob${blobIds.length === 1 ? '' : 's'})`);
+  }
+  if (footprint.missingBlobIds.length > 0) {
+    console.log(chalk.yellow(`⚠ ${footprint.missingBlobIds.length} blobs have no Blob object in the wallets searched; their expiry is unknown (add wallets with --owner)`));
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
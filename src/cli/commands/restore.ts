@@ -0,0 +1,136 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { BlobBackup, BackupManifestEntry, DEFAULT_RESTORE_EPOCHS, loadManifest } from '../../core/blob-backup.js';
+import { WalrusClient } from '../../utils/walrus-client.js';
+import { toHexBlobId } from '../../utils/blob-id.js';
+import { CLIValidator } from '../../utils/cli-validator.js';
+import { BlobInventory } from '../../core/blob-inventory.js';
+import { parseSignerBackend } from '../../utils/signer.js';
+
+export function restoreCommand(program: Command) {
+  program
+    .command('restore')
+    .description('Store blobs from a cleanup --backup-dir manifest again')
+    .argument('<manifest>', 'Path to the backup manifest.json')
+    .option('-b, --blob <blobIds...>', 'Only restore these blob IDs')
+    .option('--all', 'Restore every entry without prompting')
+    .option('-e, --epochs <epochs>', 'Override the storage length in epochs')
+    .option('--signer <backend>', 'How to sign transactions (auto, keystore, cli)', 'auto')
+    .option('-j, --json', 'Output results in JSON format')
+    .action(async (manifestPath: string, options, command) => {
+      const parentOptions = command.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      try {
+        const manifest = loadManifest(manifestPath);
+        if (manifest.network !== config.network) {
+          console.log(chalk.yellow(`⚠ Manifest was written on ${manifest.network}, restoring to ${config.network}`));
+        }
+
+        let entries: BackupManifestEntry[] = manifest.entries;
+        if (options.blob) {
+          const wanted = new Set<string>(options.blob);
+          entries = entries.filter(entry => wanted.has(entry.blobId));
+          const missing = [...wanted].filter(blobId => !entries.some(entry => entry.blobId === blobId));
+          if (missing.length > 0) {
+            throw new Error(`Not in manifest: ${missing.join(', ')}`);
+          }
+        } else if (!options.all) {
+          const { selected } = await inquirer.prompt([{
+            type: 'checkbox',
+            name: 'selected',
+            message: 'Select blobs to restore:',
+            choices: entries.map(entry => ({
+              name: `${entry.blobId} (${entry.size ?? '?'} bytes${entry.sitePath ? `, ${entry.sitePath}` : ''}${entry.deletable ? ', deletable' : ''})`,
+              value: entry,
+              checked: true
+            }))
+          }]);
+          entries = selected;
+        }
+
+        if (entries.length === 0) {
+          console.log(chalk.yellow('No blobs selected for restore.'));
+          return;
+        }
+
+        const epochsOverride = options.epochs !== undefined ? parseInt(options.epochs, 10) : undefined;
+        if (epochsOverride !== undefined && (!Number.isInteger(epochsOverride) || epochsOverride <= 0)) {
+          throw new Error(`Invalid epochs "${options.epochs}"`);
+        }
+
+        // Store with the walrus CLI when present, otherwise through the
+        // publisher with the new objects sent to our own address
+        const validator = new CLIValidator();
+        const validation = await validator.validateEnvironment({
+          signer: parseSignerBackend(options.signer),
+          rpcUrl: parentOptions?.rpcUrl || config.rpcUrls[0]
+        });
+        if (validation.errors.length > 0) {
+          validator.displayValidationErrors(validation);
+          process.exit(1);
+        }
+        if (!options.json) {
+          validator.displayValidationWarnings(validation);
+        }
+        const walrusClient = new WalrusClient(
+          parentOptions?.aggregatorUrl || parentOptions?.aggregator,
+          parentOptions?.rpcUrl || config.rpcUrls[0],
+          !validation.walrusAvailable && validation.signer
+            ? { signer: validation.signer, publisherUrl: parentOptions?.publisherUrl }
+            : undefined
+        );
+
+        if (!options.json) {
+          console.log(chalk.blue(`Restoring ${entries.length} blobs (default ${DEFAULT_RESTORE_EPOCHS} epochs when the original length is unknown)...`));
+        }
+
+        const backup = new BlobBackup(walrusClient);
+        const results = await backup.restore(manifestPath, entries, epochsOverride, (result) => {
+          if (options.json) return;
+          if (result.newBlobId) {
+            console.log(`${chalk.green('✓')} ${result.blobId} → ${chalk.cyan(result.newBlobId)}`);
+          } else {
+            console.log(`${chalk.red('✗')} ${result.blobId}: ${result.error}`);
+          }
+        });
+
+        const failed = results.filter(result => !result.newBlobId);
+        if (failed.length < results.length) {
+          // The new Blob objects are not in the inventory; load the
+          // receiving wallet from the network until it is refreshed
+          const inventory = new BlobInventory();
+          try {
+            for (const address of new Set([validation.activeAddress, manifest.address])) {
+              if (address) await inventory.markStale(config.network, address);
+            }
+          } finally {
+            await inventory.close();
+          }
+        }
+
+        if (options.json) {
+          console.log(JSON.stringify(results, null, 2));
+        } else {
+          console.log(`\nRestored: ${chalk.green((results.length - failed.length).toString())}/${results.length} blobs`);
+          const changed = results.filter(result => result.newBlobId && result.newBlobId !== toHexBlobId(result.blobId));
+          if (changed.length > 0) {
+            console.log(chalk.yellow(`⚠ ${changed.length} blobs have new IDs; update any references to them`));
+          }
+        }
+
+        if (failed.length > 0) {
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error restoring blobs: ${error}`));
+        process.exit(1);
+      }
+    });
+}
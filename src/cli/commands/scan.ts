@@ -40,7 +40,7 @@ export function scanCommand(program: Command) {
           const site = analysis.siteInfo!;
           console.log(`${chalk.bold(`${index + 1}. ${site.name || 'Unnamed Site'}`)}`);
           console.log(`   Blob ID: ${chalk.cyan(site.blobId)}`);
-          console.log(`   Type: ${site.isFileDirectory ? chalk.yellow('File Directory') : chalk.yellow('Website')}`);
+          console.log(`   Type: ${site.isFileDirectory ? chalk.yellow('File Directory') : chalk.yellow('Website')}${analysis.quilt ? chalk.gray(' (quilt)') : ''}`);
           console.log(`   Resources: ${chalk.cyan(site.resources.length.toString())}`);
           
           if (site.domain) {
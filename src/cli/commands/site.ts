@@ -0,0 +1,405 @@
+import * as fs from 'fs';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { DecodedResource, DecodedSite, SiteDecoder, SiteRevision } from '../../utils/site-decoder.js';
+import { WalrusClient } from '../../utils/walrus-client.js';
+import { SiteExporter } from '../../core/site-exporter.js';
+import { CheckStatus, SiteVerification, SiteVerifier } from '../../core/site-verifier.js';
+import { SiteDiff, ValueChange, diffSites } from '../../core/site-diff.js';
+import { SiteLintResult, SiteLinter } from '../../core/site-linter.js';
+import { BlobInfo, WalrusConfig } from '../../types/index.js';
+import { loadSystemState } from '../wallet-loader.js';
+
+interface SiteCommandConfig {
+  config: WalrusConfig;
+  rpcUrl: string;
+  aggregatorUrl?: string;
+}
+
+export function siteCommand(program: Command) {
+  const site = program
+    .command('site')
+    .description('Inspect, export, verify, diff and lint Walrus Site objects');
+
+  site
+    .command('inspect')
+    .description('Decode a Walrus Site: metadata, every resource and the routes table')
+    .argument('<objectId>', 'Walrus Site object ID')
+    .option('-j, --json', 'Output in JSON format')
+    .action(async (objectId: string, options, command) => {
+      const { rpcUrl } = resolveConfig(command);
+
+      try {
+        const decoded = await new SiteDecoder(rpcUrl).decode(objectId);
+
+        if (options.json) {
+          console.log(JSON.stringify(decoded, null, 2));
+          return;
+        }
+
+        displaySite(decoded);
+      } catch (error) {
+        console.error(chalk.red(`Error inspecting site: ${error}`));
+        process.exit(1);
+      }
+    });
+
+  site
+    .command('export')
+    .description('Download every resource of a site into a directory, with a ws-resources.json for redeploying')
+    .argument('<objectId>', 'Walrus Site object ID')
+    .argument('<dir>', 'Directory to write the site to')
+    .option('--force', 'Write into a directory that is not empty')
+    .action(async (objectId: string, dir: string, options, command) => {
+      const { rpcUrl, aggregatorUrl } = resolveConfig(command);
+
+      try {
+        if (!options.force && fs.existsSync(dir) && fs.readdirSync(dir).length > 0) {
+          throw new Error(`${dir} is not empty; use --force to write into it anyway`);
+        }
+
+        const decoded = await new SiteDecoder(rpcUrl).decode(objectId);
+        console.log(chalk.blue(`📥 Exporting ${decoded.resources.length} resources of ${decoded.name || objectId} to ${dir}...`));
+
+        const exporter = new SiteExporter(new WalrusClient(aggregatorUrl));
+        const result = await exporter.export(
+          decoded,
+          dir,
+          (done, total) => process.stdout.write(`\rDownloaded ${done}/${total}${done === total ? '\n' : ''}`)
+        );
+
+        console.log(chalk.green(`✓ Exported ${result.exported.length} resources. Headers and routes: ${result.wsResourcesPath}`));
+        if (result.failed.length > 0) {
+          console.log(chalk.yellow(`⚠ ${result.failed.length} resources could not be exported:`));
+          result.failed.forEach(failure => {
+            console.log(chalk.yellow(`  • ${failure.path} (${failure.blobId}): ${failure.error}`));
+          });
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error exporting site: ${error}`));
+        process.exit(1);
+      }
+    });
+
+  site
+    .command('verify')
+    .description('Check every resource is served, matches its blob hash, and is certified and unexpired; exits with 1 on failures')
+    .argument('<objectId>', 'Walrus Site object ID')
+    .option('--owner <addresses...>', 'Other wallets holding the site\'s Blob objects (the site owner is always searched)')
+    .option('-j, --json', 'Output in JSON format')
+    .action(async (objectId: string, options, command) => {
+      const { config, rpcUrl, aggregatorUrl } = resolveConfig(command);
+      let verification: SiteVerification;
+
+      try {
+        const decoded = await new SiteDecoder(rpcUrl).decode(objectId);
+        const systemState = await loadSystemState(rpcUrl, config, options.json);
+
+        const walrusClient = new WalrusClient(aggregatorUrl, rpcUrl);
+        walrusClient.setSystemObject(config.systemObject);
+        if (systemState) {
+          walrusClient.setCurrentEpoch(systemState.epoch);
+        }
+        const blobs = await loadOwnerBlobs(walrusClient, decoded, options.owner, options.json);
+
+        verification = await new SiteVerifier(walrusClient).verify(
+          decoded,
+          blobs,
+          systemState?.epoch,
+          options.json ? undefined : (done, total) => process.stdout.write(`\rVerified ${done}/${total}${done === total ? '\n' : ''}`)
+        );
+      } catch (error) {
+        console.error(chalk.red(`Error verifying site: ${error}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(verification, null, 2));
+      } else {
+        displayVerification(verification);
+      }
+      if (verification.failedCount > 0) {
+        process.exit(1);
+      }
+    });
+
+  site
+    .command('lint')
+    .description('Check links in HTML and CSS resources for missing targets, expired blobs and unavailable aggregator URLs; exits with 1 on issues')
+    .argument('<objectId>', 'Walrus Site object ID')
+    .option('--owner <addresses...>', 'Other wallets holding the site\'s Blob objects (the site owner is always searched)')
+    .option('-j, --json', 'Output in JSON format')
+    .action(async (objectId: string, options, command) => {
+      const { config, rpcUrl, aggregatorUrl } = resolveConfig(command);
+      let result: SiteLintResult;
+
+      try {
+        const decoded = await new SiteDecoder(rpcUrl).decode(objectId);
+        const systemState = await loadSystemState(rpcUrl, config, options.json);
+
+        const walrusClient = new WalrusClient(aggregatorUrl, rpcUrl);
+        walrusClient.setSystemObject(config.systemObject);
+        if (systemState) {
+          walrusClient.setCurrentEpoch(systemState.epoch);
+        }
+        const blobs = await loadOwnerBlobs(walrusClient, decoded, options.owner, options.json);
+
+        result = await new SiteLinter(walrusClient).lint(
+          decoded,
+          blobs,
+          systemState?.epoch,
+          options.json ? undefined : (done, total) => process.stdout.write(`\rChecked ${done}/${total} documents${done === total ? '\n' : ''}`)
+        );
+      } catch (error) {
+        console.error(chalk.red(`Error linting site: ${error}`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        displayLintResult(result);
+      }
+      if (result.issues.length > 0) {
+        process.exit(1);
+      }
+    });
+
+  site
+    .command('diff')
+    .description('Compare two sites, or two revisions of a site (<objectId>@<version> or <objectId>@cp<checkpoint>)')
+    .argument('<before>', 'Site, optionally at a revision')
+    .argument('[after]', 'Site, optionally at a revision (defaults to the current state of <before>)')
+    .option('-j, --json', 'Output in JSON format')
+    .action(async (beforeRef: string, afterRef: string | undefined, options, command) => {
+      const { rpcUrl } = resolveConfig(command);
+
+      try {
+        const decoder = new SiteDecoder(rpcUrl);
+        const before = parseSiteRef(beforeRef);
+        const after = afterRef ? parseSiteRef(afterRef) : { objectId: before.objectId };
+        const decode = (ref: { objectId: string; at?: SiteRevision }) =>
+          ref.at ? decoder.decodeAt(ref.objectId, ref.at) : decoder.decode(ref.objectId);
+
+        const diff = diffSites(await decode(before), await decode(after));
+
+        if (options.json) {
+          console.log(JSON.stringify(diff, null, 2));
+          return;
+        }
+        displayDiff(diff);
+      } catch (error) {
+        console.error(chalk.red(`Error comparing sites: ${error}`));
+        process.exit(1);
+      }
+    });
+}
+
+/**
+ * Blob objects of the site owner and any extra wallets
+ */
+async function loadOwnerBlobs(walrusClient: WalrusClient, site: DecodedSite, extraOwners: string[] = [], quiet = false): Promise<BlobInfo[]> {
+  const owners = new Set<string>([...(site.owner ? [site.owner] : []), ...extraOwners]);
+  const blobs: BlobInfo[] = [];
+  for (const owner of owners) {
+    if (!quiet) {
+      console.log(chalk.blue(`Loading Blob objects of ${owner}...`));
+    }
+    blobs.push(...await walrusClient.listBlobsForWallet(owner));
+  }
+  return blobs;
+}
+
+/**
+ * <objectId>, <objectId>@<version> or <objectId>@cp<checkpoint>
+ */
+function parseSiteRef(ref: string): { objectId: string; at?: SiteRevision } {
+  const [objectId, revision] = ref.split('@');
+  if (revision === undefined) {
+    return { objectId };
+  }
+
+  const match = revision.match(/^(cp)?(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid revision "${revision}" in ${ref}; use a version number or cp<checkpoint>`);
+  }
+  return { objectId, at: match[1] ? { checkpoint: match[2] } : { version: match[2] } };
+}
+
+function resolveConfig(command: Command): SiteCommandConfig {
+  const parentOptions = command.parent?.parent?.opts();
+  const config: WalrusConfig | undefined = parentOptions?.config;
+
+  if (!config) {
+    console.error(chalk.red('Configuration not available'));
+    process.exit(1);
+  }
+
+  return {
+    config,
+    rpcUrl: parentOptions?.rpcUrl || config.rpcUrls[0],
+    aggregatorUrl: parentOptions?.aggregatorUrl || parentOptions?.aggregator
+  };
+}
+
+function displaySite(site: DecodedSite): void {
+  console.log(chalk.blue.bold(`\n🌐 ${site.name || 'Unnamed site'}`));
+  console.log(`Object: ${chalk.cyan(site.objectId)}${site.version ? chalk.gray(` (version ${site.version})`) : ''}`);
+
+  const metadata: [string, string | undefined][] = [
+    ['Owner', site.owner],
+    ['Description', site.description],
+    ['Link', site.link],
+    ['Image', site.imageUrl],
+    ['Project', site.projectUrl],
+    ['Creator', site.creator]
+  ];
+  metadata
+    .filter(([, value]) => value)
+    .forEach(([label, value]) => console.log(`${label}: ${value}`));
+
+  console.log(chalk.blue.bold(`\n📁 Resources (${site.resources.length}):`));
+  if (site.resources.length === 0) {
+    console.log(chalk.gray('None'));
+  }
+  printTree(site.resources);
+
+  const routes = Object.entries(site.routes);
+  if (routes.length > 0) {
+    console.log(chalk.blue.bold(`\n🔀 Routes (${routes.length}):`));
+    routes.forEach(([pattern, path]) => console.log(`${pattern} → ${chalk.cyan(path)}`));
+  }
+}
+
+function displayVerification(verification: SiteVerification): void {
+  const mark = (status: CheckStatus) => status === 'pass' ? chalk.green('✓') : status === 'fail' ? chalk.red('✗') : chalk.gray('-');
+
+  console.log(chalk.blue.bold(`\n🔍 Verification of ${verification.objectId}${verification.currentEpoch !== undefined ? ` (epoch ${verification.currentEpoch})` : ''}:`));
+  console.log(chalk.gray('served / hash / certified / unexpired'));
+  for (const resource of verification.resources) {
+    const { served, hash, certified, unexpired } = resource.checks;
+    console.log(`${mark(served.status)} ${mark(hash.status)} ${mark(certified.status)} ${mark(unexpired.status)}  ${resource.passed ? resource.path : chalk.red(resource.path)}`);
+    Object.entries(resource.checks)
+      .filter(([, check]) => check.status === 'fail')
+      .forEach(([name, check]) => console.log(chalk.red(`         ${name}: ${check.detail}`)));
+  }
+
+  const passed = verification.resources.length - verification.failedCount;
+  console.log(`\n${chalk.green(`${passed} passed`)}, ${verification.failedCount > 0 ? chalk.red(`${verification.failedCount} failed`) : '0 failed'}`);
+}
+
+function displayLintResult(result: SiteLintResult): void {
+  console.log(chalk.blue.bold(`\n🔗 Links in ${result.objectId}: ${result.checkedLinks} links in ${result.checkedResources} HTML and CSS resources`));
+  if (result.issues.length === 0) {
+    console.log(chalk.green('✓ No broken links'));
+    return;
+  }
+
+  let currentPath: string | undefined;
+  for (const issue of result.issues) {
+    if (issue.resourcePath !== currentPath) {
+      currentPath = issue.resourcePath;
+      console.log(`\n${chalk.bold(currentPath)}`);
+    }
+    const location = issue.line !== undefined ? chalk.gray(`:${issue.line}`) : '';
+    console.log(`  ${chalk.red(issue.kind.padEnd(11))} ${issue.link}${location}`);
+    console.log(chalk.gray(`              ${issue.detail}`));
+  }
+  console.log(chalk.red(`\n✗ ${result.issues.length} issues`));
+}
+
+function displayDiff(diff: SiteDiff): void {
+  const label = (side: { objectId: string; version?: string }) => `${side.objectId}${side.version ? ` (version ${side.version})` : ''}`;
+  const printValueChanges = (changes: ValueChange[], indent: string) => changes.forEach(change => {
+    if (change.before === undefined) {
+      console.log(chalk.green(`${indent}+ ${change.key}: ${change.after}`));
+    } else if (change.after === undefined) {
+      console.log(chalk.red(`${indent}- ${change.key}: ${change.before}`));
+    } else {
+      console.log(chalk.yellow(`${indent}~ ${change.key}: ${change.before} → ${change.after}`));
+    }
+  });
+
+  console.log(chalk.blue.bold('\n🔀 Site diff'));
+  console.log(`Before: ${chalk.cyan(label(diff.before))}`);
+  console.log(`After:  ${chalk.cyan(label(diff.after))}`);
+
+  const counts = ['added', 'removed', 'changed'].map(type => `${diff.changes.filter(change => change.type === type).length} ${type}`);
+  console.log(chalk.blue.bold(`\n📁 Resources: ${counts.join(', ')}, ${diff.unchangedCount} unchanged`));
+  for (const change of diff.changes) {
+    if (change.type === 'added') {
+      console.log(chalk.green(`+ ${change.path}`) + chalk.gray(` ${change.after!.blobId}`));
+    } else if (change.type === 'removed') {
+      console.log(chalk.red(`- ${change.path}`) + chalk.gray(` ${change.before!.blobId}`));
+    } else {
+      console.log(chalk.yellow(`~ ${change.path}`));
+      if (change.blobChanged) {
+        console.log(chalk.gray(`    blob ${change.before!.blobId} → ${change.after!.blobId}`));
+        if (change.before!.blobHash !== change.after!.blobHash) {
+          console.log(chalk.gray(`    hash ${change.before!.blobHash ?? 'none'} → ${change.after!.blobHash ?? 'none'}`));
+        }
+      }
+      printValueChanges(change.headerChanges, '    ');
+    }
+  }
+
+  if (diff.routeChanges.length > 0) {
+    console.log(chalk.blue.bold('\n🔀 Routes:'));
+    printValueChanges(diff.routeChanges, '');
+  }
+  if (diff.metadataChanges.length > 0) {
+    console.log(chalk.blue.bold('\n🏷  Metadata:'));
+    printValueChanges(diff.metadataChanges, '');
+  }
+
+  if (diff.unreferencedBlobIds.length > 0) {
+    console.log(chalk.blue.bold(`\n🧹 Blobs no longer referenced (${diff.unreferencedBlobIds.length}), cleanup candidates:`));
+    diff.unreferencedBlobIds.forEach(blobId => console.log(`  ${blobId}`));
+  }
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  resource?: DecodedResource;
+}
+
+/**
+ * Resources as a directory tree, each file followed by its blob ID and headers
+ */
+function printTree(resources: DecodedResource[]): void {
+  const root: TreeNode = { children: new Map() };
+  for (const resource of resources) {
+    let node = root;
+    for (const part of resource.path.split('/').filter(Boolean)) {
+      if (!node.children.has(part)) {
+        node.children.set(part, { children: new Map() });
+      }
+      node = node.children.get(part)!;
+    }
+    node.resource = resource;
+  }
+
+  const walk = (node: TreeNode, indent: string) => {
+    const entries = [...node.children.entries()];
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1;
+      const resource = child.resource;
+      console.log(`${indent}${last ? '└── ' : '├── '}${resource ? name : chalk.bold(name + '/')}`);
+
+      const detailIndent = indent + (last ? '    ' : '│   ') + (child.children.size > 0 ? '│ ' : '  ');
+      if (resource) {
+        console.log(chalk.gray(`${detailIndent}blob ${resource.blobId}`));
+        if (resource.blobHash) {
+          console.log(chalk.gray(`${detailIndent}hash ${resource.blobHash}`));
+        }
+        Object.entries(resource.headers).forEach(([key, value]) => console.log(chalk.gray(`${detailIndent}${key}: ${value}`)));
+        if (resource.range) {
+          console.log(chalk.gray(`${detailIndent}range ${resource.range.start ?? ''}-${resource.range.end ?? ''}`));
+        }
+      }
+      walk(child, indent + (last ? '    ' : '│   '));
+    });
+  };
+  walk(root, '');
+}
@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import { Command } from 'commander';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { WalletTracker } from '../../core/wallet-tracker.js';
+import { StorageManager } from '../../core/storage-manager.js';
+import { CLIValidator, CLIValidationResult } from '../../utils/cli-validator.js';
+import { parseSignerBackend } from '../../utils/signer.js';
+import { WalrusClient } from '../../utils/walrus-client.js';
+import { StorageResource, findFittingResources, suggestFuses } from '../../utils/storage-resources.js';
+import { encodedBlobSize, storageValue } from '../../utils/storage-cost.js';
+import { WalrusSystemState } from '../../utils/system-state.js';
+import { loadSystemState } from '../wallet-loader.js';
+
+export function storageCommand(program: Command) {
+  const storage = program
+    .command('storage')
+    .description('Reuse Walrus Storage resources returned by deletions');
+
+  storage
+    .command('list')
+    .description('List Storage resources not attached to a blob and suggest fuses')
+    .argument('<address>', 'Wallet address')
+    .option('-j, --json', 'Output in JSON format')
+    .option('--signer <backend>', 'How to sign fuse transactions (auto, keystore, cli)', 'auto')
+    .action(async (address: string, options, command) => {
+      const { config, rpcUrl } = resolveConfig(command);
+
+      try {
+        const systemState = await loadSystemState(rpcUrl, config, options.json);
+        const resources = await new WalletTracker(rpcUrl).getStorageObjects(address, config.systemObject);
+        const suggestions = suggestFuses(resources, systemState?.epoch);
+
+        if (options.json) {
+          console.log(JSON.stringify({ currentEpoch: systemState?.epoch, resources, suggestions }, null, 2));
+          return;
+        }
+
+        displayResources(address, resources, systemState);
+        if (suggestions.length === 0) {
+          return;
+        }
+
+        console.log(chalk.blue.bold('\n🔗 Resources that can be fused:'));
+        suggestions.forEach((suggestion, index) => {
+          const { result } = suggestion;
+          console.log(`${index + 1}. ${suggestion.objectIds.length} resources → ${formatBytes(result.storageSize)}, epochs ${result.startEpoch}-${result.endEpoch}`);
+          console.log(chalk.gray(`   walscan storage fuse ${suggestion.objectIds.join(' ')}`));
+        });
+
+        const { selected } = await inquirer.prompt([{
+          type: 'checkbox',
+          name: 'selected',
+          message: 'Fuse now? (select none to skip)',
+          choices: suggestions.map((suggestion, index) => ({
+            name: `${index + 1}. ${suggestion.objectIds.length} resources → ${formatBytes(suggestion.result.storageSize)}, epochs ${suggestion.result.startEpoch}-${suggestion.result.endEpoch}`,
+            value: suggestion.objectIds
+          }))
+        }]);
+        if (selected.length === 0) {
+          return;
+        }
+
+        const manager = await createManager(options.signer, rpcUrl, config.systemObject, address);
+        for (const objectIds of selected as string[][]) {
+          const change = await manager.fuse(objectIds);
+          console.log(`${chalk.green('✓')} Fused ${objectIds.length} resources ${chalk.gray(`(${change.transactionHash})`)}`);
+        }
+      } catch (error) {
+        console.error(chalk.red(`Error listing Storage resources: ${error}`));
+        process.exit(1);
+      }
+    });
+
+  storage
+    .command('fuse')
+    .description('Fuse Storage resources with the same epochs, or the same size and touching epochs')
+    .argument('<objectIds...>', 'Storage resource object IDs')
+    .option('--signer <backend>', 'How to sign transactions (auto, keystore, cli)', 'auto')
+    .action(async (objectIds: string[], options, command) => {
+      const { config, rpcUrl } = resolveConfig(command);
+
+      try {
+        const manager = await createManager(options.signer, rpcUrl, config.systemObject);
+        const change = await manager.fuse(objectIds);
+        console.log(chalk.green(`✓ Fused ${objectIds.length} Storage resources`));
+        console.log(chalk.gray(`  Transaction: ${change.transactionHash}`));
+      } catch (error) {
+        console.error(chalk.red(`Error fusing Storage resources: ${error}`));
+        process.exit(1);
+      }
+    });
+
+  storage
+    .command('split')
+    .description('Split a Storage resource at an epoch or by size')
+    .argument('<objectId>', 'Storage resource object ID')
+    .option('--epoch <epoch>', 'The new resource covers this epoch onwards')
+    .option('--size <bytes>', 'The new resource holds this many encoded bytes')
+    .option('--signer <backend>', 'How to sign transactions (auto, keystore, cli)', 'auto')
+    .action(async (objectId: string, options, command) => {
+      const { config, rpcUrl } = resolveConfig(command);
+
+      try {
+        if ((options.epoch === undefined) === (options.size === undefined)) {
+          throw new Error('Give exactly one of --epoch or --size');
+        }
+        const value = Number(options.epoch ?? options.size);
+        if (!Number.isInteger(value) || value <= 0) {
+          throw new Error(`Invalid split point "${options.epoch ?? options.size}"`);
+        }
+
+        const manager = await createManager(options.signer, rpcUrl, config.systemObject);
+        const change = await manager.split(objectId, options.epoch !== undefined ? { epoch: value } : { size: value });
+        console.log(chalk.green(`✓ Split ${objectId}`));
+        change.createdObjectIds.forEach(id => console.log(`  New resource: ${chalk.cyan(id)}`));
+        console.log(chalk.gray(`  Transaction: ${change.transactionHash}`));
+      } catch (error) {
+        console.error(chalk.red(`Error splitting Storage resource: ${error}`));
+        process.exit(1);
+      }
+    });
+
+  storage
+    .command('fit')
+    .description('Find Storage resources a file fits into and store it with one of them')
+    .argument('<file>', 'File to upload')
+    .option('--store', 'Store the file for the remaining epochs of the best fit')
+    .option('--deletable', 'Store the file as deletable')
+    .option('--signer <backend>', 'How to sign transactions (auto, keystore, cli)', 'auto')
+    .action(async (file: string, options, command) => {
+      const { config, rpcUrl, parentOptions } = resolveConfig(command);
+
+      try {
+        const validation = await validate(options.signer, rpcUrl);
+        const address = validation.activeAddress!;
+        const systemState = await loadSystemState(rpcUrl, config);
+        if (!systemState) {
+          throw new Error('Cannot size the upload without the Walrus system state');
+        }
+
+        const size = fs.statSync(file).size;
+        const encodedSize = encodedBlobSize(size, systemState.committee.nShards);
+        const resources = await new WalletTracker(rpcUrl).getStorageObjects(address, config.systemObject);
+        const fits = findFittingResources(resources, encodedSize, systemState.epoch);
+
+        console.log(`${file}: ${formatBytes(size)}, ${formatBytes(encodedSize)} encoded`);
+        if (fits.length === 0) {
+          console.log(chalk.yellow(`No Storage resource of ${address} holds ${formatBytes(encodedSize)}; storing it buys new storage.`));
+          return;
+        }
+
+        console.log(chalk.blue.bold('\nResources it fits into:'));
+        fits.forEach((resource, index) => {
+          const spare = resource.storageSize - encodedSize;
+          console.log(`${index + 1}. ${chalk.cyan(resource.objectId)} ${formatBytes(resource.storageSize)}, epochs ${resource.startEpoch}-${resource.endEpoch}` +
+            chalk.gray(spare > 0 ? ` (${formatBytes(spare)} spare)` : ''));
+        });
+
+        const best = fits[0];
+        const epochs = best.endEpoch - systemState.epoch;
+        if (best.storageSize > encodedSize) {
+          console.log(chalk.gray(`\nSplit off what the file needs first to keep the rest: walscan storage split ${best.objectId} --size ${encodedSize}`));
+        }
+
+        if (!options.store) {
+          console.log(chalk.gray(`Store it with: walscan storage fit ${file} --store (walrus store --epochs ${epochs})`));
+          return;
+        }
+
+        // The walrus CLI reuses an owned Storage resource that covers the
+        // size and epochs instead of buying new storage
+        if (!validation.walrusAvailable) {
+          throw new Error('Storing into an existing Storage resource needs the walrus CLI');
+        }
+        const walrusClient = new WalrusClient(parentOptions?.aggregatorUrl || parentOptions?.aggregator, rpcUrl);
+        const blobId = await walrusClient.storeBlob(file, epochs, !!options.deletable);
+        console.log(chalk.green(`✓ Stored ${file} as ${chalk.cyan(blobId)} until epoch ${best.endEpoch}`));
+      } catch (error) {
+        console.error(chalk.red(`Error fitting ${file}: ${error}`));
+        process.exit(1);
+      }
+    });
+}
+
+function resolveConfig(command: Command): { config: any; rpcUrl: string; parentOptions: any } {
+  const parentOptions = command.parent?.parent?.opts();
+  const config = parentOptions?.config;
+
+  if (!config) {
+    console.error(chalk.red('Configuration not available'));
+    process.exit(1);
+  }
+  if (config.systemObject === '0x') {
+    console.error(chalk.red(`No Walrus system object configured for ${config.network}`));
+    process.exit(1);
+  }
+
+  return { config, rpcUrl: parentOptions?.rpcUrl || config.rpcUrls[0], parentOptions };
+}
+
+async function validate(signer: string, rpcUrl: string): Promise<CLIValidationResult> {
+  const validator = new CLIValidator();
+  const validation = await validator.validateEnvironment({ signer: parseSignerBackend(signer), rpcUrl });
+  if (validation.errors.length > 0) {
+    validator.displayValidationErrors(validation);
+    process.exit(1);
+  }
+  validator.displayValidationWarnings(validation);
+  return validation;
+}
+
+async function createManager(signer: string, rpcUrl: string, systemObjectId: string, owner?: string): Promise<StorageManager> {
+  const validation = await validate(signer, rpcUrl);
+  if (owner && validation.activeAddress !== owner) {
+    throw new Error(`Resources are owned by ${owner} but the signer is ${validation.activeAddress}`);
+  }
+  return new StorageManager(rpcUrl, systemObjectId, validation.signer!);
+}
+
+function displayResources(address: string, resources: StorageResource[], systemState?: WalrusSystemState): void {
+  console.log(chalk.blue.bold(`\n📦 Storage resources of ${address}${systemState ? ` (epoch ${systemState.epoch})` : ''}:`));
+
+  if (resources.length === 0) {
+    console.log(chalk.gray('None. Deleting a deletable blob returns its Storage resource here.'));
+    return;
+  }
+
+  let totalValue = 0;
+  resources
+    .sort((a, b) => a.endEpoch - b.endEpoch)
+    .forEach((resource, index) => {
+      const remaining = systemState ? resource.endEpoch - systemState.epoch : undefined;
+      const status = remaining === undefined ? '' : remaining > 0 ? chalk.green(` ${remaining} epochs left`) : chalk.red(' expired');
+      console.log(`${index + 1}. ${chalk.cyan(resource.objectId)} ${formatBytes(resource.storageSize)}, epochs ${resource.startEpoch}-${resource.endEpoch}${status}`);
+      if (systemState && remaining !== undefined && remaining > 0) {
+        totalValue += storageValue(resource.storageSize, remaining, systemState);
+      }
+    });
+
+  if (systemState) {
+    console.log(`\nUnused capacity worth ${chalk.cyan(totalValue.toFixed(4))} WAL at current prices`);
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
@@ -2,10 +2,15 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import { WalletTracker } from '../../core/wallet-tracker.js';
 import { WalrusClient } from '../../utils/walrus-client.js';
-import { BlobCategory, BlobImportance } from '../../types/index.js';
+import { BlobCategory, BlobImportance, BlobInfo } from '../../types/index.js';
 import { WalrusSystemQuery } from '../../utils/walrus-system-query.js';
+import { BlobInventory } from '../../core/blob-inventory.js';
+import { ImportanceScorer } from '../../core/importance-scorer.js';
+import { CandidateFilter, parseCategories } from '../../core/candidate-filter.js';
 import { SuiClient } from '@mysten/sui.js/client';
-import { SUINS_PACKAGE } from '../../config/walrus.js';
+import { SuiNSResolver } from '../../utils/suins.js';
+import { applyExpiry, formatLifetime } from '../../utils/system-state.js';
+import { loadSystemState } from '../wallet-loader.js';
 
 export function walletScanCommand(program: Command) {
   program
@@ -18,6 +23,8 @@ export function walletScanCommand(program: Command) {
     .option('-w, --websites-only', 'Show only website blobs')
     .option('-d, --deletable-only', 'Show only deletable blobs')
     .option('--debug', 'Show debug information about wallet objects')
+    .option('--fresh', 'Query the network instead of the local inventory')
+    .option('--sniff', 'Read the first bytes of blobs served without a specific content type to detect their format')
     .action(async (address: string, options, command) => {
       const parentOptions = command.parent?.opts();
       const config = parentOptions?.config;
@@ -27,6 +34,8 @@ export function walletScanCommand(program: Command) {
         process.exit(1);
       }
 
+      const inventory = new BlobInventory();
+
       try {
         console.log(chalk.blue(`Scanning wallet: ${address}...`));
         
@@ -45,10 +54,50 @@ export function walletScanCommand(program: Command) {
           await systemQuery.debugWalletObjects(address);
         }
 
-        // Try alternative query method first
-        console.log(chalk.blue('Checking for Walrus Sites...'));
         const systemQuery = new WalrusSystemQuery(parentOptions?.rpcUrl || config.rpcUrls[0], config.network);
-        const walrusSites = await systemQuery.queryWalrusSites(address);
+        const refreshInfo = options.fresh ? null : await inventory.getRefreshInfo(config.network, address);
+        const systemState = await loadSystemState(parentOptions?.rpcUrl || config.rpcUrls[0], config);
+
+        let walrusSites: BlobInfo[];
+        let allBlobs: BlobInfo[];
+
+        if (refreshInfo) {
+          console.log(chalk.gray(`Using local inventory from ${refreshInfo.refreshedAt.toLocaleString()} (pass --fresh to query the network)`));
+          walrusSites = await inventory.getSites(config.network, address);
+          allBlobs = await inventory.getBlobs(config.network, address);
+        } else {
+          // Try alternative query method first
+          console.log(chalk.blue('Checking for Walrus Sites...'));
+          walrusSites = await systemQuery.queryWalrusSites(address);
+
+          // Get all blobs for the wallet
+          const walrusClient = new WalrusClient(parentOptions?.aggregatorUrl || parentOptions?.aggregator, parentOptions?.rpcUrl || config.rpcUrls[0]);
+          walrusClient.setSystemObject(config.systemObject);
+          if (systemState) {
+            walrusClient.setCurrentEpoch(systemState.epoch);
+          }
+          allBlobs = await walrusClient.listBlobsForWallet(address, (progress) => {
+            process.stdout.write(`\rScanning owned objects: page ${progress.pagesFetched}, ${progress.objectsScanned} objects, ${progress.blobsFound} blobs${progress.done ? '\n' : ''}`);
+          });
+        }
+
+        if (systemState) {
+          applyExpiry(allBlobs, systemState.epoch);
+        }
+
+        if (options.sniff) {
+          if (systemState) {
+            walletTracker.setShardCount(systemState.committee.nShards);
+          }
+          const sniffed = await walletTracker.sniffContentTypes(allBlobs, (done, total) => {
+            process.stdout.write(`\rDetecting content types: ${done}/${total}${done === total ? '\n' : ''}`);
+          });
+          for (const blob of sniffed) {
+            await inventory.upsertBlobContent(config.network, blob);
+          }
+          const quilts = sniffed.filter(blob => blob.quiltPatches).length;
+          console.log(chalk.gray(`Detected the content type of ${sniffed.length} blobs from their contents${quilts > 0 ? `, ${quilts} of them quilts` : ''}`));
+        }
         
         if (walrusSites.length > 0) {
           console.log(chalk.green(`Found ${walrusSites.length} Walrus Site(s)`));
@@ -58,10 +107,6 @@ export function walletScanCommand(program: Command) {
             console.log(`   View: https://wal.app/${site.suiObjectId}`);
           });
         }
-
-        // Get all blobs for the wallet
-        const walrusClient = new WalrusClient(parentOptions?.aggregatorUrl || parentOptions?.aggregator, parentOptions?.rpcUrl || config.rpcUrls[0]);
-        const allBlobs = await walrusClient.listBlobsForWallet(address);
         
         // Get site blob IDs if we have sites
         const siteBlobIds = new Set<string>();
@@ -75,58 +120,19 @@ export function walletScanCommand(program: Command) {
           
           for (const site of walrusSites) {
             try {
-              // Get dynamic fields for each site
-              const dynamicFields = await suiClient.getDynamicFields({
-                parentId: site.suiObjectId || ''
-              });
+              const resources = refreshInfo
+                ? await inventory.getSiteResources(config.network, site.suiObjectId || '')
+                : await systemQuery.getSiteResources(site.suiObjectId || '');
               
-              console.log(`Site ${site.suiObjectId || 'unknown'} has ${dynamicFields.data.length} resources`);
+              console.log(`Site ${site.suiObjectId || 'unknown'} has ${resources.length} resources`);
               
-              // Fetch each dynamic field to get blob IDs
-              for (const field of dynamicFields.data) {
-                try {
-                  const fieldObject = await suiClient.getDynamicFieldObject({
-                    parentId: site.suiObjectId || '',
-                    name: field.name
-                  });
-                  
-                  if (fieldObject.data?.content?.dataType === 'moveObject') {
-                    const fieldContent = (fieldObject.data.content as any).fields;
-                    const resourceBlobId = fieldContent?.value?.fields?.blob_id;
-                    const resourcePath = fieldContent?.value?.fields?.path || fieldContent?.name?.fields?.path;
-                    
-                    if (resourceBlobId) {
-                      // Convert decimal to hex
-                      let hexId: string;
-                      if (typeof resourceBlobId === 'string' && /^\d+$/.test(resourceBlobId)) {
-                        hexId = '0x' + BigInt(resourceBlobId).toString(16).padStart(64, '0');
-                      } else if (typeof resourceBlobId === 'number') {
-                        hexId = '0x' + BigInt(resourceBlobId).toString(16).padStart(64, '0');
-                      } else {
-                        hexId = resourceBlobId;
-                      }
-                      siteBlobIds.add(hexId);
-                      
-                      // Store resource info
-                      const headers = fieldContent?.value?.fields?.headers?.fields?.contents;
-                      let contentType = 'unknown';
-                      if (headers && Array.isArray(headers)) {
-                        const typeHeader = headers.find(h => h.fields?.key?.toLowerCase() === 'content-type');
-                        if (typeHeader) {
-                          contentType = typeHeader.fields.value;
-                        }
-                      }
-                      
-                      siteResourceMap.set(hexId, {
-                        site: site.suiObjectId || '',
-                        path: resourcePath || 'unknown',
-                        type: contentType
-                      });
-                    }
-                  }
-                } catch (error) {
-                  // Silently continue if we can't fetch a field
-                }
+              for (const resource of resources) {
+                siteBlobIds.add(resource.blobId);
+                siteResourceMap.set(resource.blobId, {
+                  site: site.suiObjectId || '',
+                  path: resource.path,
+                  type: resource.contentType || 'unknown'
+                });
               }
             } catch (error) {
               console.warn(`Could not analyze site ${site.suiObjectId}: ${error}`);
@@ -135,17 +141,20 @@ export function walletScanCommand(program: Command) {
           
           console.log(`Identified ${siteBlobIds.size} blobs belonging to Walrus Site(s)`);
           
-          // Try to detect SuiNS domain linking by querying the blockchain
+          // Look up SuiNS names pointing at each site in the registry
           console.log(chalk.blue('Checking for SuiNS domain linking...'));
+          const resolver = new SuiNSResolver(suiClient, config);
           for (const site of walrusSites) {
             try {
-              const linkedDomain = await findSuiNSDomainForSite(suiClient, site.suiObjectId || '', config);
-              if (linkedDomain) {
-                suinsDomains.set(site.suiObjectId || '', linkedDomain);
-                console.log(`Detected SuiNS domain: ${chalk.cyan(linkedDomain)} -> ${chalk.gray(site.suiObjectId || '')}`);
+              const records = await resolver.findDomainsForSite(site.suiObjectId || '');
+              if (records.length > 0) {
+                suinsDomains.set(site.suiObjectId || '', records[0].domain);
+                records.forEach(record => {
+                  const owner = record.owner && record.owner !== address ? chalk.gray(` (owned by ${record.owner})`) : '';
+                  console.log(`Detected SuiNS domain: ${chalk.cyan(record.domain)} -> ${chalk.gray(site.suiObjectId || '')}${owner}`);
+                });
               } else {
-                console.log(chalk.gray(`No SuiNS domain owned by this wallet found for site ${site.suiObjectId?.slice(0, 8) || 'unknown'}...`));
-                console.log(chalk.gray(`Site may be linked to a domain owned by a different wallet`));
+                console.log(chalk.gray(`No SuiNS domain found for site ${site.suiObjectId?.slice(0, 8) || 'unknown'}...`));
               }
             } catch (error) {
               console.log(chalk.gray(`Could not check for SuiNS domain: ${error}`));
@@ -183,7 +192,7 @@ export function walletScanCommand(program: Command) {
         console.log(`Walrus Sites: ${chalk.green(walrusSites.length.toString())}`);
         console.log(`Walrus Blobs: ${chalk.cyan(summary.totalBlobs.toString())}`);
         console.log(`Deletable: ${chalk.red(summary.deletableBlobs.toString())} ${summary.deletableSize > 0 ? `(${formatBytes(summary.deletableSize)})` : ''}`);
-        console.log(`Expired: ${chalk.gray(summary.expiredBlobs.toString())}`);
+        console.log(`Expired: ${chalk.gray(summary.expiredBlobs.toString())}${systemState ? ` (current epoch ${systemState.epoch})` : ' (epoch unknown)'}`);
 
         // Show categories if any are non-unknown
         const nonUnknownCategories = Object.entries(summary.categories).filter(([cat, count]) => cat !== 'unknown' && count > 0);
@@ -198,22 +207,40 @@ export function walletScanCommand(program: Command) {
           // Use the already fetched and modified blobs
           console.log(chalk.blue(`\nAnalyzing ${allBlobs.length} individual blobs...`));
           
-          // For now, show blob info without trying to classify (since aggregator can't reach them)
-          const blobDetails = allBlobs.map(blob => ({
-            blobId: blob.blobId,
-            size: blob.size || 0,
-            isDeletable: blob.isDeletable,
-            isExpired: blob.isExpired,
-            endEpoch: blob.endEpoch,
-            suiObjectId: blob.suiObjectId
-          }));
+          const candidateFilter = new CandidateFilter(new ImportanceScorer(walletTracker));
+          const importanceContext = {
+            siteResources: new Map(Array.from(siteResourceMap, ([blobId, info]) => [blobId, info.site])),
+            siteDomains: suinsDomains,
+            currentEpoch: systemState?.epoch
+          };
 
-          // Apply filters
-          let filteredBlobs = blobDetails;
-          
-          if (options.deletableOnly) {
-            filteredBlobs = blobDetails.filter(b => b.isDeletable);
+          // Apply filters through the same pipeline cleanup uses
+          const categories: BlobCategory[] = options.category ? parseCategories([options.category]) : [];
+          if (options.websitesOnly) {
+            categories.push(BlobCategory.WEBSITE);
           }
+          const decisions = candidateFilter.evaluate(allBlobs, {
+            categories: categories.length > 0 ? categories : undefined,
+            deletableOnly: options.deletableOnly
+          }, importanceContext);
+
+          const blobDetails = decisions.map(decision => ({
+            blobId: decision.blob.blobId,
+            size: decision.blob.size || 0,
+            category: decision.category,
+            isDeletable: decision.blob.isDeletable,
+            isExpired: decision.blob.isExpired,
+            endEpoch: decision.blob.endEpoch,
+            remainingEpochs: systemState && decision.blob.endEpoch !== undefined
+              ? decision.blob.endEpoch - systemState.epoch
+              : undefined,
+            suiObjectId: decision.blob.suiObjectId,
+            importance: decision.assessment.importance,
+            importanceReasons: decision.assessment.reasons,
+            included: decision.included
+          }));
+
+          const filteredBlobs = blobDetails.filter(b => b.included);
 
           if (options.json) {
             console.log(JSON.stringify({
@@ -230,10 +257,15 @@ export function walletScanCommand(program: Command) {
           filteredBlobs.forEach((blob, index) => {
             console.log(`${chalk.bold(`${index + 1}. ${blob.blobId}`)}`);
             console.log(`   Size: ${chalk.yellow(blob.size > 0 ? formatBytes(blob.size) : 'Unknown')}`);
+            console.log(`   Category: ${chalk.cyan(blob.category)}`);
+            console.log(`   Importance: ${getImportanceColor(blob.importance)} ${chalk.gray(`(${blob.importanceReasons.join(', ')})`)}`);
             console.log(`   Deletable: ${blob.isDeletable ? chalk.green('Yes') : chalk.red('No')}`);
             console.log(`   Expired: ${blob.isExpired ? chalk.red('Yes') : chalk.green('No')}`);
             if (blob.endEpoch) {
               console.log(`   End Epoch: ${chalk.cyan(blob.endEpoch.toString())}`);
+              if (systemState) {
+                console.log(`   Lifetime: ${blob.isExpired ? chalk.red(formatLifetime(blob.endEpoch, systemState)) : chalk.cyan(formatLifetime(blob.endEpoch, systemState))}`);
+              }
             }
             console.log(`   Sui Object: ${chalk.gray(blob.suiObjectId)}`);
             console.log('');
@@ -362,12 +394,13 @@ export function walletScanCommand(program: Command) {
           if (summary.potentialSavings > 0) {
             console.log(`Cost savings: ${chalk.green(summary.potentialSavings.toString())} storage units`);
           }
-          console.log(`\nNote: These blobs appear to be from epoch 8. They may have expired and might not be accessible via the aggregator.`);
         }
 
       } catch (error) {
         console.error(chalk.red(`Error scanning wallet: ${error}`));
         process.exit(1);
+      } finally {
+        await inventory.close();
       }
     });
 }
@@ -398,99 +431,3 @@ function getImportanceColor(importance: BlobImportance): string {
       return importance;
   }
 }
-
-async function findSuiNSDomainForSite(suiClient: SuiClient, siteObjectId: string, config: any): Promise<string | null> {
-  try {
-    const suinsPackageId = SUINS_PACKAGE[config.network as keyof typeof SUINS_PACKAGE] || SUINS_PACKAGE.mainnet;
-    
-    // Query for SuiNS domain objects that might reference this site
-    // We'll search through recent objects and check if any domains reference our site
-    
-    // First, try to find domains owned by the same wallet that owns the site
-    const siteObject = await suiClient.getObject({
-      id: siteObjectId,
-      options: { showOwner: true }
-    });
-    
-    if (!siteObject.data?.owner) {
-      return null;
-    }
-    
-    let ownerAddress: string | null = null;
-    if (typeof siteObject.data.owner === 'string') {
-      ownerAddress = siteObject.data.owner;
-    } else if ('AddressOwner' in siteObject.data.owner) {
-      ownerAddress = siteObject.data.owner.AddressOwner;
-    }
-    
-    if (!ownerAddress) {
-      return null;
-    }
-    
-    // Get all objects owned by the site owner to look for domain objects
-    const ownedObjects = await suiClient.getOwnedObjects({
-      owner: ownerAddress,
-      options: {
-        showContent: true,
-        showType: true
-      }
-    });
-    
-    // Look for SuiNS domain objects in the owned objects
-    for (const obj of ownedObjects.data) {
-      if (obj.data?.type) {
-        const objectType = obj.data.type;
-        
-        // Check if this looks like a SuiNS domain object
-        if (objectType.includes(suinsPackageId) || 
-            objectType.includes('domain') || 
-            objectType.includes('Domain') ||
-            objectType.includes('suins')) {
-          
-          if (obj.data.content?.dataType === 'moveObject') {
-            const fields = (obj.data.content as any).fields;
-            
-            // Look for references to our site object ID in the domain fields
-            const checkForSiteReference = (obj: any): boolean => {
-              if (typeof obj === 'string' && obj === siteObjectId) {
-                return true;
-              }
-              if (typeof obj === 'object' && obj !== null) {
-                for (const value of Object.values(obj)) {
-                  if (checkForSiteReference(value)) {
-                    return true;
-                  }
-                }
-              }
-              return false;
-            };
-            
-            if (checkForSiteReference(fields)) {
-              // Found a domain that references our site!
-              // Try to extract the domain name
-              const domainName = fields?.name || fields?.domain_name || fields?.label;
-              if (domainName) {
-                const fullDomain = typeof domainName === 'string' ? domainName : 
-                                 domainName.toString ? domainName.toString() : 
-                                 JSON.stringify(domainName);
-                
-                // Ensure it ends with .sui
-                if (fullDomain.includes('.sui') || !fullDomain.includes('.')) {
-                  return fullDomain.endsWith('.sui') ? fullDomain : `${fullDomain}.sui`;
-                }
-              }
-            }
-          }
-        }
-      }
-    }
-    
-    // Alternative approach: Check dynamic fields of known SuiNS registry objects
-    // This would require knowing the registry object ID, which varies by network
-    
-    return null;
-  } catch (error) {
-    console.debug(`Error searching for SuiNS domain: ${error}`);
-    return null;
-  }
-}
\ No newline at end of file
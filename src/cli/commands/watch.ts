@@ -0,0 +1,107 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import axios from 'axios';
+import { DEFAULT_WATCH_INTERVAL_SECONDS, WalletWatcher, WatchEvent } from '../../core/wallet-watcher.js';
+
+export function watchCommand(program: Command) {
+  program
+    .command('watch')
+    .description('Stream changes to a wallet\'s blobs and sites as NDJSON events')
+    .argument('<address>', 'Wallet address to watch')
+    .option('-i, --interval <seconds>', 'Seconds between polls', String(DEFAULT_WATCH_INTERVAL_SECONDS))
+    .option('--webhook <url>', 'POST every event as JSON to this URL')
+    .option('--state <file>', 'Keep the last snapshot in this file to pick up changes across restarts')
+    .option('--once', 'Poll once, print the events and exit')
+    .action(async (address: string, options, command) => {
+      const parentOptions = command.parent?.opts();
+      const config = parentOptions?.config;
+
+      if (!config) {
+        console.error(chalk.red('Configuration not available'));
+        process.exit(1);
+      }
+
+      const intervalSeconds = parseInt(options.interval, 10);
+      if (!Number.isInteger(intervalSeconds) || intervalSeconds <= 0) {
+        console.error(chalk.red(`Invalid --interval "${options.interval}"`));
+        process.exit(1);
+      }
+
+      const watcher = new WalletWatcher(
+        address,
+        parentOptions?.rpcUrl || config.rpcUrls[0],
+        config,
+        parentOptions?.aggregatorUrl || parentOptions?.aggregator
+      );
+
+      try {
+        if (options.state && watcher.loadState(options.state)) {
+          console.error(chalk.gray(`Resuming from ${options.state}`));
+        }
+      } catch (error) {
+        console.error(chalk.red(`${error}`));
+        process.exit(1);
+      }
+
+      // Stdout carries only events; status goes to stderr
+      let stopping = false;
+      let wake: (() => void) | undefined;
+      const stop = () => {
+        stopping = true;
+        wake?.();
+      };
+      process.on('SIGINT', stop);
+      process.on('SIGTERM', stop);
+
+      console.error(chalk.blue(`Watching ${address} every ${intervalSeconds}s (Ctrl+C to stop)`));
+
+      while (!stopping) {
+        try {
+          const events = await watcher.poll();
+          for (const event of events) {
+            console.log(JSON.stringify(event));
+            if (options.webhook) {
+              await postEvent(options.webhook, event);
+            }
+          }
+          if (options.state) {
+            watcher.saveState(options.state);
+          }
+        } catch (error) {
+          if (options.once) {
+            console.error(chalk.red(`Poll failed: ${error}`));
+            process.exit(1);
+          }
+          console.error(chalk.yellow(`Poll failed, retrying in ${intervalSeconds}s: ${error}`));
+        }
+
+        if (options.once) {
+          break;
+        }
+
+        await new Promise<void>(resolve => {
+          const timer = setTimeout(resolve, intervalSeconds * 1000);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = undefined;
+      }
+
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+    });
+}
+
+/**
+ * Webhook failures are reported but never stop the watch
+ */
+async function postEvent(url: string, event: WatchEvent): Promise<void> {
+  try {
+    await axios.post(url, event, { timeout: 10000, headers: { 'Content-Type': 'application/json' } });
+  } catch (error) {
+    const message = axios.isAxiosError(error) ? error.message : String(error);
+    console.error(chalk.yellow(`Webhook ${url} failed for ${event.type}: ${message}`));
+  }
+}
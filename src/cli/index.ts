@@ -8,6 +8,16 @@ import { ConfigReader } from '../utils/config-reader.js';
 import { scanCommand } from './commands/scan.js';
 import { walletScanCommand } from './commands/wallet-scan.js';
 import { cleanupCommand } from './commands/cleanup.js';
+import { indexCommand } from './commands/inventory.js';
+import { policyCommand } from './commands/policy.js';
+import { restoreCommand } from './commands/restore.js';
+import { extendCommand } from './commands/extend.js';
+import { expiringCommand } from './commands/expiring.js';
+import { watchCommand } from './commands/watch.js';
+import { storageCommand } from './commands/storage.js';
+import { siteCommand } from './commands/site.js';
+import { resolveCommand } from './commands/resolve.js';
+import { quiltCommand } from './commands/quilt.js';
 
 const program = new Command();
 
@@ -61,6 +71,16 @@ program
 scanCommand(program);
 walletScanCommand(program);
 cleanupCommand(program);
+indexCommand(program);
+policyCommand(program);
+restoreCommand(program);
+extendCommand(program);
+expiringCommand(program);
+watchCommand(program);
+storageCommand(program);
+siteCommand(program);
+resolveCommand(program);
+quiltCommand(program);
 
 program
   .command('info')
@@ -0,0 +1,102 @@
+import chalk from 'chalk';
+import { BlobInfo, SiteResource, WalrusConfig } from '../types/index.js';
+import { BlobInventory, InventoryRefreshInfo } from '../core/blob-inventory.js';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { WalrusSystemQuery } from '../utils/walrus-system-query.js';
+import { SystemStateReader, WalrusSystemState, applyExpiry } from '../utils/system-state.js';
+
+export interface WalletLoadOptions {
+  config: WalrusConfig;
+  rpcUrl: string;
+  aggregatorUrl?: string;
+  fresh?: boolean;
+  quiet?: boolean; // keep stdout clean for JSON output
+}
+
+export interface LoadedWallet {
+  blobs: BlobInfo[];
+  sites: BlobInfo[];
+  siteMemberships: Map<string, string[]>; // blob ID -> site object IDs referencing it
+  sitePaths: Map<string, { siteObjectId: string; path: string }>; // blob ID -> first site path serving it
+  refreshInfo: InventoryRefreshInfo | null;
+  systemState?: WalrusSystemState; // undefined when the system object could not be read
+}
+
+/**
+ * Load a wallet's blobs and site resources, from the local inventory when
+ * it has been indexed and from the network otherwise (or with --fresh).
+ */
+export async function loadWallet(
+  address: string,
+  inventory: BlobInventory,
+  options: WalletLoadOptions
+): Promise<LoadedWallet> {
+  const network = options.config.network as 'mainnet' | 'testnet';
+  const systemQuery = new WalrusSystemQuery(options.rpcUrl, network);
+  const refreshInfo = options.fresh ? null : await inventory.getRefreshInfo(network, address);
+  const systemState = await loadSystemState(options.rpcUrl, options.config, options.quiet);
+
+  let blobs: BlobInfo[];
+  let sites: BlobInfo[];
+
+  if (refreshInfo) {
+    if (!options.quiet) console.log(chalk.gray(`Using local inventory from ${refreshInfo.refreshedAt.toLocaleString()} (pass --fresh to query the network)`));
+    blobs = await inventory.getBlobs(network, address);
+    sites = await inventory.getSites(network, address);
+  } else {
+    const walrusClient = new WalrusClient(options.aggregatorUrl, options.rpcUrl);
+    walrusClient.setSystemObject(options.config.systemObject);
+    if (systemState) {
+      walrusClient.setCurrentEpoch(systemState.epoch);
+    }
+    blobs = await walrusClient.listBlobsForWallet(address, (progress) => {
+      if (options.quiet) return;
+      process.stdout.write(`\rScanning owned objects: page ${progress.pagesFetched}, ${progress.objectsScanned} objects, ${progress.blobsFound} blobs${progress.done ? '\n' : ''}`);
+    });
+    sites = await systemQuery.queryWalrusSites(address);
+  }
+
+  // Inventory rows carry the expiry flag from when they were indexed
+  if (systemState) {
+    applyExpiry(blobs, systemState.epoch);
+  }
+
+  const siteMemberships = new Map<string, string[]>();
+  const sitePaths = new Map<string, { siteObjectId: string; path: string }>();
+  for (const site of sites) {
+    const siteId = site.suiObjectId || '';
+    // Without a site's resources its blobs would look unreferenced, so
+    // cleanup must not carry on with a partial set
+    let resources: SiteResource[];
+    try {
+      resources = refreshInfo
+        ? await inventory.getSiteResources(network, siteId)
+        : await systemQuery.getSiteResources(siteId);
+    } catch (error) {
+      throw new Error(`Could not read the resources of site ${siteId}, so the blobs it serves cannot be protected: ${error}`);
+    }
+    for (const resource of resources) {
+      siteMemberships.set(resource.blobId, [...(siteMemberships.get(resource.blobId) || []), siteId]);
+      if (!sitePaths.has(resource.blobId)) {
+        sitePaths.set(resource.blobId, { siteObjectId: siteId, path: resource.path });
+      }
+    }
+  }
+
+  return { blobs, sites, siteMemberships, sitePaths, refreshInfo, systemState };
+}
+
+/**
+ * Read the Walrus system state, warning instead of failing so scans still
+ * work against networks without a configured system object
+ */
+export async function loadSystemState(rpcUrl: string, config: WalrusConfig, quiet?: boolean): Promise<WalrusSystemState | undefined> {
+  try {
+    const state = await new SystemStateReader(rpcUrl, config).getState();
+    if (!quiet) console.log(chalk.gray(`Walrus epoch ${state.epoch} (${state.committee.members} storage nodes, ${state.committee.nShards} shards)`));
+    return state;
+  } catch (error) {
+    console.warn(chalk.yellow(`Could not read the Walrus system state; expiry is unknown: ${error}`));
+    return undefined;
+  }
+}
@@ -29,4 +29,16 @@ export const WALRUS_SITES_PACKAGE = {
 export const SUINS_PACKAGE = {
   mainnet: '0xd22b24490e0bae52676651b4f56660a5ff8022a2576e0089f79b3c88d44e08f0',
   testnet: '0x'
-};
\ No newline at end of file
+};
+
+// Tables of the SuiNS registry: name -> NameRecord and address -> default name
+export const SUINS_REGISTRY = {
+  mainnet: {
+    registryTableId: '0xe64cd9db9f829c6cc405d9790bd71567ae07259855f4fba6f02c84f52298c106',
+    reverseRegistryTableId: '0x2fd099e17a292d2bc541df474f9fafa595653848cbabb2d7a4656ec786a1969f'
+  },
+  testnet: {
+    registryTableId: '0x',
+    reverseRegistryTableId: '0x'
+  }
+};
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlobInfo } from '../types/index.js';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { toHexBlobId } from '../utils/blob-id.js';
+
+export const BACKUP_MANIFEST_FILE = 'manifest.json';
+
+// Storage length used on restore when the original could not be determined
+export const DEFAULT_RESTORE_EPOCHS = 5;
+
+export interface BackupManifestEntry {
+  blobId: string;
+  suiObjectId?: string;
+  size?: number;
+  contentType?: string;
+  endEpoch?: number;
+  epochs?: number; // storage length the blob was registered for
+  deletable: boolean;
+  siteObjectId?: string;
+  sitePath?: string;
+  file: string; // relative to the manifest
+}
+
+export interface BackupManifest {
+  version: number;
+  network: string;
+  address: string;
+  createdAt: string;
+  entries: BackupManifestEntry[];
+}
+
+export interface BackupContext {
+  network: string;
+  address: string;
+  sitePaths?: Map<string, { siteObjectId: string; path: string }>;
+}
+
+export interface BackupResult {
+  manifestPath: string;
+  entries: BackupManifestEntry[];
+  failed: { blobId: string; error: string }[];
+}
+
+export interface RestoreResult {
+  blobId: string;
+  newBlobId?: string; // 0x-hex, like the manifest's blob IDs
+  error?: string;
+}
+
+export function loadManifest(manifestPath: string): BackupManifest {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8')) as BackupManifest;
+    if (manifest.version !== 1 || !Array.isArray(manifest.entries)) {
+      throw new Error('not a walscan backup manifest');
+    }
+    return manifest;
+  } catch (error) {
+    throw new Error(`Failed to load manifest ${manifestPath}: ${error}`);
+  }
+}
+
+/**
+ * Downloads blob contents into a directory with a manifest describing how
+ * each blob was stored, and stores them again from that manifest.
+ */
+export class BlobBackup {
+  private walrusClient: WalrusClient;
+
+  constructor(walrusClient: WalrusClient) {
+    this.walrusClient = walrusClient;
+  }
+
+  async backup(
+    blobs: BlobInfo[],
+    dir: string,
+    context: BackupContext,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<BackupResult> {
+    fs.mkdirSync(path.join(dir, 'blobs'), { recursive: true });
+
+    const manifestPath = path.join(dir, BACKUP_MANIFEST_FILE);
+    const manifest: BackupManifest = fs.existsSync(manifestPath)
+      ? loadManifest(manifestPath)
+      : { version: 1, network: context.network, address: context.address, createdAt: new Date().toISOString(), entries: [] };
+
+    const entries: BackupManifestEntry[] = [];
+    const failed: { blobId: string; error: string }[] = [];
+
+    for (const blob of blobs) {
+      try {
+        const content = await this.walrusClient.readBlob(blob.blobId);
+        const file = path.join('blobs', `${blob.blobId}.bin`);
+        fs.writeFileSync(path.join(dir, file), content);
+
+        const site = context.sitePaths?.get(blob.blobId);
+        entries.push({
+          blobId: blob.blobId,
+          suiObjectId: blob.suiObjectId,
+          size: content.length,
+          contentType: blob.contentType,
+          endEpoch: blob.endEpoch !== undefined ? Number(blob.endEpoch) : undefined,
+          epochs: blob.endEpoch !== undefined && blob.createdEpoch !== undefined
+            ? Number(blob.endEpoch) - Number(blob.createdEpoch)
+            : undefined,
+          deletable: !!blob.isDeletable,
+          siteObjectId: site?.siteObjectId,
+          sitePath: site?.path,
+          file
+        });
+      } catch (error) {
+        failed.push({ blobId: blob.blobId, error: error instanceof Error ? error.message : String(error) });
+      }
+      onProgress?.(entries.length + failed.length, blobs.length);
+    }
+
+    // Later runs into the same directory replace entries for the same blob
+    const backedUp = new Set(entries.map(entry => entry.blobId));
+    manifest.entries = [...manifest.entries.filter(entry => !backedUp.has(entry.blobId)), ...entries];
+    fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
+
+    return { manifestPath, entries, failed };
+  }
+
+  /**
+   * Store the selected manifest entries again with their original
+   * deletable flag and storage length
+   */
+  async restore(
+    manifestPath: string,
+    entries: BackupManifestEntry[],
+    epochsOverride?: number,
+    onProgress?: (result: RestoreResult) => void
+  ): Promise<RestoreResult[]> {
+    const baseDir = path.dirname(manifestPath);
+    const results: RestoreResult[] = [];
+
+    for (const entry of entries) {
+      let result: RestoreResult;
+      try {
+        const epochs = epochsOverride ?? (entry.epochs && entry.epochs > 0 ? entry.epochs : DEFAULT_RESTORE_EPOCHS);
+        // The publisher and the walrus CLI report base64url IDs
+        const newBlobId = toHexBlobId(await this.walrusClient.storeBlob(path.join(baseDir, entry.file), epochs, entry.deletable));
+        result = { blobId: entry.blobId, newBlobId };
+      } catch (error) {
+        result = { blobId: entry.blobId, error: error instanceof Error ? error.message : String(error) };
+      }
+      results.push(result);
+      onProgress?.(result);
+    }
+
+    return results;
+  }
+}
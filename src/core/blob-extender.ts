@@ -0,0 +1,376 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import { SuiClient } from '@mysten/sui.js/client';
+import { BlobInfo } from '../types/index.js';
+import { Signer } from '../utils/signer.js';
+import { WalrusSystemState } from '../utils/system-state.js';
+import { encodedBlobSize, storageValue, FROST_PER_WAL } from '../utils/storage-cost.js';
+import { resolveWalrusPackageId } from '../utils/deletion-transaction.js';
+import { MAX_EXTENSIONS_PER_TRANSACTION, buildExtensionTransaction, findWalCoins } from '../utils/extension-transaction.js';
+
+export const DEFAULT_EXTEND_WITHIN = 5;
+
+export interface ExtensionPlanBlob {
+  blobId: string;
+  suiObjectId: string;
+  endEpoch: number;
+  newEndEpoch: number;
+  size?: number;
+  encodedSize?: number;
+  cost?: number; // WAL, undefined when the size is unknown
+}
+
+export interface ExtensionGroup {
+  siteObjectId?: string; // undefined for blobs that belong to no site
+  siteName?: string;
+  blobs: ExtensionPlanBlob[];
+  totalCost: number; // WAL
+}
+
+export interface ExtensionPlan {
+  version: number;
+  network: string;
+  address: string;
+  createdAt: string;
+  currentEpoch: number;
+  withinEpochs: number;
+  extendBy: number;
+  groups: ExtensionGroup[];
+}
+
+export interface SiteBlobs {
+  siteObjectId: string;
+  name?: string;
+  blobIds: string[];
+}
+
+export interface ExtensionPlanContext {
+  network: string;
+  address: string;
+  withinEpochs: number;
+  extendBy: number;
+  state: WalrusSystemState;
+}
+
+export interface ExtensionResult {
+  blobId: string;
+  success: boolean;
+  transactionHash?: string;
+  error?: string;
+}
+
+export interface SkippedExtension {
+  blobId: string;
+  reason: string;
+}
+
+export interface BlobExtenderOptions {
+  suiRpcUrl: string;
+  systemObjectId: string;
+  signer?: Signer;
+}
+
+/**
+ * Pick the blobs whose storage ends within withinEpochs and group them by
+ * the site serving them. A blob shared by several sites is listed under
+ * the first one so it is only extended once. Expired blobs cannot be
+ * extended and are left out.
+ */
+export function planExtensions(blobs: BlobInfo[], sites: SiteBlobs[], context: ExtensionPlanContext): ExtensionPlan {
+  const { state } = context;
+  assertWithinEpochsAhead(context.extendBy, state);
+  const siteOf = new Map<string, SiteBlobs>();
+  for (const site of sites) {
+    for (const blobId of site.blobIds) {
+      if (!siteOf.has(blobId)) {
+        siteOf.set(blobId, site);
+      }
+    }
+  }
+
+  const groups = new Map<string, ExtensionGroup>();
+  for (const blob of blobs) {
+    if (!blob.suiObjectId || blob.endEpoch === undefined) continue;
+
+    const endEpoch = Number(blob.endEpoch);
+    const remaining = endEpoch - state.epoch;
+    if (remaining <= 0 || remaining > context.withinEpochs) continue;
+
+    const encodedSize = blob.size !== undefined && state.committee.nShards > 0
+      ? encodedBlobSize(blob.size, state.committee.nShards)
+      : undefined;
+    const cost = encodedSize !== undefined ? storageValue(encodedSize, context.extendBy, state) : undefined;
+
+    const site = siteOf.get(blob.blobId);
+    const key = site?.siteObjectId || '';
+    const group = groups.get(key) || { siteObjectId: site?.siteObjectId, siteName: site?.name, blobs: [], totalCost: 0 };
+    group.blobs.push({
+      blobId: blob.blobId,
+      suiObjectId: blob.suiObjectId,
+      endEpoch,
+      newEndEpoch: endEpoch + context.extendBy,
+      size: blob.size,
+      encodedSize,
+      cost
+    });
+    group.totalCost += cost || 0;
+    groups.set(key, group);
+  }
+
+  // Sites first, blobs outside any site last
+  const ordered = [...groups.values()].sort((a, b) =>
+    Number(!a.siteObjectId) - Number(!b.siteObjectId) || (a.siteName || '').localeCompare(b.siteName || '')
+  );
+
+  return {
+    version: 1,
+    network: context.network,
+    address: context.address,
+    createdAt: new Date().toISOString(),
+    currentEpoch: state.epoch,
+    withinEpochs: context.withinEpochs,
+    extendBy: context.extendBy,
+    groups: ordered
+  };
+}
+
+export function savePlan(plan: ExtensionPlan, filePath: string): void {
+  try {
+    fs.writeFileSync(filePath, JSON.stringify(plan, null, 2));
+  } catch (error) {
+    throw new Error(`Failed to write plan ${filePath}: ${error}`);
+  }
+}
+
+export function loadPlan(filePath: string): ExtensionPlan {
+  try {
+    const plan = JSON.parse(fs.readFileSync(filePath, 'utf8')) as ExtensionPlan;
+    if (plan.version !== 1 || !Array.isArray(plan.groups) || !Number.isInteger(plan.extendBy) || plan.extendBy <= 0) {
+      throw new Error('not a walscan extension plan');
+    }
+    return plan;
+  } catch (error) {
+    throw new Error(`Failed to load plan ${filePath}: ${error}`);
+  }
+}
+
+/**
+ * Storage cannot be bought further ahead than the system allows, so an
+ * extension longer than that would abort on chain
+ */
+export function assertWithinEpochsAhead(extendBy: number, state: WalrusSystemState): void {
+  if (state.maxEpochsAhead !== undefined && extendBy > state.maxEpochsAhead) {
+    throw new Error(`Cannot extend by ${extendBy} epochs; storage can be bought at most ${state.maxEpochsAhead} epochs ahead`);
+  }
+}
+
+/**
+ * Re-read the Blob objects of planned extensions right before running
+ * them, so a saved plan run twice or after a while does not pay again.
+ * Blobs that are gone, changed owner, expired or already reach their
+ * planned end epoch are skipped. Blobs extended part of the way are only
+ * extended up to the planned end epoch.
+ */
+export async function recheckExtensions(
+  suiClient: SuiClient,
+  blobs: ExtensionPlanBlob[],
+  owner: string,
+  state: WalrusSystemState
+): Promise<{ blobs: ExtensionPlanBlob[]; skipped: SkippedExtension[] }> {
+  const current = new Map<string, { owner?: string; endEpoch?: number }>();
+  try {
+    for (let i = 0; i < blobs.length; i += 50) {
+      const objects = await suiClient.multiGetObjects({
+        ids: blobs.slice(i, i + 50).map(blob => blob.suiObjectId),
+        options: { showContent: true, showOwner: true }
+      });
+      for (const obj of objects) {
+        if (!obj.data || obj.data.content?.dataType !== 'moveObject') continue;
+        const endEpoch = (obj.data.content.fields as any)?.storage?.fields?.end_epoch;
+        const objectOwner = obj.data.owner;
+        current.set(obj.data.objectId, {
+          owner: objectOwner && typeof objectOwner === 'object' && 'AddressOwner' in objectOwner ? objectOwner.AddressOwner : undefined,
+          endEpoch: endEpoch !== undefined ? Number(endEpoch) : undefined
+        });
+      }
+    }
+  } catch (error) {
+    throw new Error(`Failed to re-read the planned Blob objects: ${error}`);
+  }
+
+  const kept: ExtensionPlanBlob[] = [];
+  const skipped: SkippedExtension[] = [];
+  for (const blob of blobs) {
+    const onChain = current.get(blob.suiObjectId);
+    if (!onChain || onChain.endEpoch === undefined) {
+      skipped.push({ blobId: blob.blobId, reason: 'the Blob object no longer exists' });
+    } else if (onChain.owner !== owner) {
+      skipped.push({ blobId: blob.blobId, reason: `the Blob object is no longer owned by ${owner}` });
+    } else if (onChain.endEpoch <= state.epoch) {
+      skipped.push({ blobId: blob.blobId, reason: `expired at epoch ${onChain.endEpoch}` });
+    } else if (onChain.endEpoch >= blob.newEndEpoch) {
+      skipped.push({ blobId: blob.blobId, reason: `already stored until epoch ${onChain.endEpoch}` });
+    } else if (state.maxEpochsAhead !== undefined && blob.newEndEpoch - state.epoch > state.maxEpochsAhead) {
+      skipped.push({ blobId: blob.blobId, reason: `epoch ${blob.newEndEpoch} is more than ${state.maxEpochsAhead} epochs ahead` });
+    } else {
+      const cost = blob.encodedSize !== undefined ? storageValue(blob.encodedSize, blob.newEndEpoch - onChain.endEpoch, state) : undefined;
+      kept.push({ ...blob, endEpoch: onChain.endEpoch, cost });
+    }
+  }
+  return { blobs: kept, skipped };
+}
+
+/**
+ * Extends blobs up to their planned end epochs. With a signer each batch is one
+ * programmable transaction paid from the signer's WAL; otherwise every
+ * blob is extended with its own `walrus extend` call.
+ */
+export class BlobExtender {
+  private suiClient?: SuiClient;
+  private systemObjectId?: string;
+  private signer?: Signer;
+  private packageId?: string;
+
+  constructor(options: BlobExtenderOptions) {
+    if (options.signer && options.systemObjectId !== '0x') {
+      this.suiClient = new SuiClient({ url: options.suiRpcUrl });
+      this.systemObjectId = options.systemObjectId;
+      this.signer = options.signer;
+    }
+  }
+
+  /**
+   * WAL held by the signer, undefined without one
+   */
+  async getWalBalance(): Promise<number | undefined> {
+    if (!this.suiClient) {
+      return undefined;
+    }
+    const coins = await findWalCoins(this.suiClient, this.signer!.getAddress());
+    return Number(coins.balance) / FROST_PER_WAL;
+  }
+
+  async extend(
+    blobs: ExtensionPlanBlob[],
+    onProgress?: (results: ExtensionResult[]) => void
+  ): Promise<ExtensionResult[]> {
+    const results: ExtensionResult[] = [];
+
+    if (this.suiClient) {
+      // A transaction extends all its blobs by the same number of epochs
+      const byEpochs = new Map<number, ExtensionPlanBlob[]>();
+      for (const blob of blobs) {
+        const epochs = blob.newEndEpoch - blob.endEpoch;
+        byEpochs.set(epochs, [...(byEpochs.get(epochs) || []), blob]);
+      }
+
+      for (const [epochs, sameLength] of byEpochs) {
+        for (let i = 0; i < sameLength.length; i += MAX_EXTENSIONS_PER_TRANSACTION) {
+          const batch = await this.extendInTransaction(sameLength.slice(i, i + MAX_EXTENSIONS_PER_TRANSACTION), epochs);
+          results.push(...batch);
+          onProgress?.(batch);
+        }
+      }
+      return results;
+    }
+
+    for (const blob of blobs) {
+      const result = await this.extendViaCli(blob, blob.newEndEpoch - blob.endEpoch);
+      results.push(result);
+      onProgress?.([result]);
+    }
+    return results;
+  }
+
+  /**
+   * Extend the batch in one programmable transaction. A batch that fails
+   * its dry run is split in half, so one blob whose extension aborts does
+   * not sink the rest.
+   */
+  private async extendInTransaction(blobs: ExtensionPlanBlob[], epochs: number): Promise<ExtensionResult[]> {
+    const suiClient = this.suiClient!;
+    const sender = this.signer!.getAddress();
+
+    let txBytes: Uint8Array;
+    try {
+      this.packageId ??= await resolveWalrusPackageId(suiClient, this.systemObjectId!);
+      // Merging deletes the other coins, so look them up for every batch
+      const coins = await findWalCoins(suiClient, sender);
+      const tx = buildExtensionTransaction({
+        packageId: this.packageId,
+        systemObjectId: this.systemObjectId!,
+        blobObjectIds: blobs.map(blob => blob.suiObjectId),
+        epochs,
+        walCoinIds: coins.coinIds,
+        sender
+      });
+      // Building with a client dry-runs the transaction to set the gas budget
+      txBytes = await tx.build({ client: suiClient });
+    } catch (error) {
+      if (blobs.length > 1) {
+        const middle = Math.ceil(blobs.length / 2);
+        return [
+          ...await this.extendInTransaction(blobs.slice(0, middle), epochs),
+          ...await this.extendInTransaction(blobs.slice(middle), epochs)
+        ];
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return blobs.map(blob => ({ blobId: blob.blobId, success: false, error: message }));
+    }
+
+    try {
+      const response = await suiClient.executeTransactionBlock({
+        transactionBlock: txBytes,
+        signature: await this.signer!.signTransaction(txBytes),
+        options: { showEffects: true },
+        requestType: 'WaitForLocalExecution'
+      });
+
+      if (response.effects?.status.status !== 'success') {
+        throw new Error(response.effects?.status.error || 'Transaction failed');
+      }
+      return blobs.map(blob => ({ blobId: blob.blobId, success: true, transactionHash: response.digest }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return blobs.map(blob => ({ blobId: blob.blobId, success: false, error: message }));
+    }
+  }
+
+  private async extendViaCli(blob: ExtensionPlanBlob, epochs: number): Promise<ExtensionResult> {
+    try {
+      await this.runWalrusCommand(['extend', '--blob-obj-id', blob.suiObjectId, '--epochs-extended', String(epochs)]);
+      return { blobId: blob.blobId, success: true };
+    } catch (error) {
+      return { blobId: blob.blobId, success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private runWalrusCommand(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const walrusProcess = spawn('walrus', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+
+      let stdout = '';
+      let stderr = '';
+
+      walrusProcess.stdout.on('data', (data) => {
+        stdout += data.toString();
+      });
+
+      walrusProcess.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      walrusProcess.on('close', (code) => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(stderr || `Walrus command failed with code ${code}`));
+        }
+      });
+
+      walrusProcess.on('error', (error) => {
+        reject(new Error(`Failed to execute walrus extend: ${error}`));
+      });
+    });
+  }
+}
@@ -0,0 +1,395 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import sqlite3 from 'sqlite3';
+import { BlobInfo, SiteResource } from '../types/index.js';
+import { DeletionResult } from '../utils/deletion-executor.js';
+
+export const DEFAULT_INVENTORY_PATH = path.join(os.homedir(), '.walscan', 'inventory.db');
+
+export interface InventoryRefreshInfo {
+  network: string;
+  wallet: string;
+  refreshedAt: Date;
+  blobCount: number;
+  siteCount: number;
+}
+
+export interface StoredObjectVersion {
+  objectId: string;
+  version: string;
+  kind: 'blob' | 'site';
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS blobs (
+    network TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    object_id TEXT NOT NULL,
+    version TEXT NOT NULL,
+    blob_id TEXT NOT NULL,
+    size INTEGER,
+    end_epoch INTEGER,
+    created_epoch INTEGER,
+    is_deletable INTEGER NOT NULL DEFAULT 0,
+    is_expired INTEGER NOT NULL DEFAULT 0,
+    storage_rebate INTEGER,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (network, wallet, object_id)
+  );
+  CREATE INDEX IF NOT EXISTS blobs_by_blob_id ON blobs (network, blob_id);
+
+  CREATE TABLE IF NOT EXISTS sites (
+    network TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    object_id TEXT NOT NULL,
+    version TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (network, wallet, object_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS site_resources (
+    network TEXT NOT NULL,
+    site_object_id TEXT NOT NULL,
+    path TEXT NOT NULL,
+    blob_id TEXT NOT NULL,
+    content_type TEXT,
+    PRIMARY KEY (network, site_object_id, path)
+  );
+
+  CREATE TABLE IF NOT EXISTS aggregator_metadata (
+    network TEXT NOT NULL,
+    blob_id TEXT NOT NULL,
+    content_type TEXT,
+    size INTEGER,
+    fetched_at INTEGER NOT NULL,
+    PRIMARY KEY (network, blob_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS blob_contents (
+    network TEXT NOT NULL,
+    blob_id TEXT NOT NULL,
+    sniffed_content_type TEXT,
+    quilt_patches TEXT,
+    analyzed_at INTEGER NOT NULL,
+    PRIMARY KEY (network, blob_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS refreshes (
+    network TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    refreshed_at INTEGER NOT NULL,
+    PRIMARY KEY (network, wallet)
+  );
+`;
+
+/**
+ * Local SQLite inventory of wallet blobs, site resources and aggregator
+ * metadata, keyed by network and wallet address.
+ */
+export class BlobInventory {
+  private dbPath: string;
+  private db?: sqlite3.Database;
+
+  constructor(dbPath: string = DEFAULT_INVENTORY_PATH) {
+    this.dbPath = dbPath;
+  }
+
+  async hasWallet(network: string, wallet: string): Promise<boolean> {
+    return (await this.getRefreshInfo(network, wallet)) !== null;
+  }
+
+  async getRefreshInfo(network: string, wallet: string): Promise<InventoryRefreshInfo | null> {
+    const row = await this.get<{ refreshed_at: number }>(
+      'SELECT refreshed_at FROM refreshes WHERE network = ? AND wallet = ?',
+      [network, wallet]
+    );
+    if (!row) {
+      return null;
+    }
+
+    const blobCount = await this.get<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM blobs WHERE network = ? AND wallet = ?',
+      [network, wallet]
+    );
+    const siteCount = await this.get<{ count: number }>(
+      'SELECT COUNT(*) AS count FROM sites WHERE network = ? AND wallet = ?',
+      [network, wallet]
+    );
+
+    return {
+      network,
+      wallet,
+      refreshedAt: new Date(row.refreshed_at),
+      blobCount: blobCount?.count || 0,
+      siteCount: siteCount?.count || 0
+    };
+  }
+
+  async listRefreshes(): Promise<InventoryRefreshInfo[]> {
+    const rows = await this.all<{ network: string; wallet: string }>(
+      'SELECT network, wallet FROM refreshes ORDER BY refreshed_at DESC'
+    );
+
+    const refreshes: InventoryRefreshInfo[] = [];
+    for (const row of rows) {
+      const info = await this.getRefreshInfo(row.network, row.wallet);
+      if (info) {
+        refreshes.push(info);
+      }
+    }
+    return refreshes;
+  }
+
+  async markRefreshed(network: string, wallet: string): Promise<void> {
+    await this.run(
+      'INSERT OR REPLACE INTO refreshes (network, wallet, refreshed_at) VALUES (?, ?, ?)',
+      [network, wallet, Date.now()]
+    );
+  }
+
+  /**
+   * Make the next load query the network instead of the inventory, for
+   * when the wallet gained objects the inventory does not know about
+   */
+  async markStale(network: string, wallet: string): Promise<void> {
+    await this.run('DELETE FROM refreshes WHERE network = ? AND wallet = ?', [network, wallet]);
+  }
+
+  async getObjectVersions(network: string, wallet: string): Promise<StoredObjectVersion[]> {
+    const blobs = await this.all<{ object_id: string; version: string }>(
+      'SELECT object_id, version FROM blobs WHERE network = ? AND wallet = ?',
+      [network, wallet]
+    );
+    const sites = await this.all<{ object_id: string; version: string }>(
+      'SELECT object_id, version FROM sites WHERE network = ? AND wallet = ?',
+      [network, wallet]
+    );
+
+    return [
+      ...blobs.map(row => ({ objectId: row.object_id, version: row.version, kind: 'blob' as const })),
+      ...sites.map(row => ({ objectId: row.object_id, version: row.version, kind: 'site' as const }))
+    ];
+  }
+
+  async upsertBlob(network: string, wallet: string, blob: BlobInfo, version: string): Promise<void> {
+    if (!blob.suiObjectId) {
+      throw new Error(`Cannot index blob ${blob.blobId} without a Sui object ID`);
+    }
+
+    await this.run(
+      `INSERT OR REPLACE INTO blobs
+        (network, wallet, object_id, version, blob_id, size, end_epoch, created_epoch,
+         is_deletable, is_expired, storage_rebate, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        network,
+        wallet,
+        blob.suiObjectId,
+        version,
+        blob.blobId,
+        blob.size ?? null,
+        blob.endEpoch ?? null,
+        blob.createdEpoch ?? null,
+        blob.isDeletable ? 1 : 0,
+        blob.isExpired ? 1 : 0,
+        blob.storageRebate ?? null,
+        Date.now()
+      ]
+    );
+
+    if (blob.contentType) {
+      await this.upsertAggregatorMetadata(network, blob.blobId, blob.contentType, blob.size);
+    }
+  }
+
+  async upsertAggregatorMetadata(network: string, blobId: string, contentType?: string, size?: number): Promise<void> {
+    await this.run(
+      `INSERT OR REPLACE INTO aggregator_metadata (network, blob_id, content_type, size, fetched_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [network, blobId, contentType ?? null, size ?? null, Date.now()]
+    );
+  }
+
+  /**
+   * What a blob's content was found to be; a blob ID always names the same
+   * content, so this is kept across refreshes
+   */
+  async upsertBlobContent(network: string, blob: BlobInfo): Promise<void> {
+    await this.run(
+      `INSERT OR REPLACE INTO blob_contents (network, blob_id, sniffed_content_type, quilt_patches, analyzed_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        network,
+        blob.blobId,
+        blob.sniffedContentType ?? null,
+        blob.quiltPatches ? JSON.stringify(blob.quiltPatches) : null,
+        Date.now()
+      ]
+    );
+  }
+
+  async getBlobs(network: string, wallet: string): Promise<BlobInfo[]> {
+    const rows = await this.all<any>(
+      `SELECT b.*, m.content_type AS content_type, m.size AS aggregator_size,
+              c.sniffed_content_type AS sniffed_content_type, c.quilt_patches AS quilt_patches
+       FROM blobs b
+       LEFT JOIN aggregator_metadata m ON m.network = b.network AND m.blob_id = b.blob_id
+       LEFT JOIN blob_contents c ON c.network = b.network AND c.blob_id = b.blob_id
+       WHERE b.network = ? AND b.wallet = ?
+       ORDER BY b.object_id`,
+      [network, wallet]
+    );
+
+    return rows.map(row => ({
+      blobId: row.blob_id,
+      suiObjectId: row.object_id,
+      owner: wallet,
+      size: row.size ?? row.aggregator_size ?? undefined,
+      contentType: row.content_type ?? undefined,
+      isExpired: row.is_expired === 1,
+      endEpoch: row.end_epoch ?? undefined,
+      isDeletable: row.is_deletable === 1,
+      createdEpoch: row.created_epoch ?? undefined,
+      storageRebate: row.storage_rebate ?? undefined,
+      sniffedContentType: row.sniffed_content_type ?? undefined,
+      quiltPatches: row.quilt_patches ? JSON.parse(row.quilt_patches) : undefined
+    }));
+  }
+
+  async upsertSite(network: string, wallet: string, siteObjectId: string, version: string, resources: SiteResource[]): Promise<void> {
+    await this.run(
+      'INSERT OR REPLACE INTO sites (network, wallet, object_id, version, updated_at) VALUES (?, ?, ?, ?, ?)',
+      [network, wallet, siteObjectId, version, Date.now()]
+    );
+    await this.run(
+      'DELETE FROM site_resources WHERE network = ? AND site_object_id = ?',
+      [network, siteObjectId]
+    );
+    for (const resource of resources) {
+      await this.run(
+        `INSERT OR REPLACE INTO site_resources (network, site_object_id, path, blob_id, content_type)
+         VALUES (?, ?, ?, ?, ?)`,
+        [network, siteObjectId, resource.path, resource.blobId, resource.contentType ?? null]
+      );
+    }
+  }
+
+  /**
+   * Sites are returned in the same shape as WalrusSystemQuery.queryWalrusSites
+   */
+  async getSites(network: string, wallet: string): Promise<BlobInfo[]> {
+    const rows = await this.all<{ object_id: string }>(
+      'SELECT object_id FROM sites WHERE network = ? AND wallet = ? ORDER BY object_id',
+      [network, wallet]
+    );
+
+    return rows.map(row => ({
+      blobId: '',
+      suiObjectId: row.object_id,
+      owner: wallet,
+      isExpired: false,
+      isDeletable: false,
+      contentType: 'application/zip'
+    }));
+  }
+
+  async getSiteResources(network: string, siteObjectId: string): Promise<SiteResource[]> {
+    const rows = await this.all<{ path: string; blob_id: string; content_type: string | null }>(
+      'SELECT path, blob_id, content_type FROM site_resources WHERE network = ? AND site_object_id = ? ORDER BY path',
+      [network, siteObjectId]
+    );
+
+    return rows.map(row => ({
+      path: row.path,
+      blobId: row.blob_id,
+      contentType: row.content_type ?? undefined
+    }));
+  }
+
+  async removeObjects(network: string, wallet: string, objectIds: string[]): Promise<void> {
+    for (const objectId of objectIds) {
+      await this.run(
+        'DELETE FROM blobs WHERE network = ? AND wallet = ? AND object_id = ?',
+        [network, wallet, objectId]
+      );
+      await this.run(
+        'DELETE FROM sites WHERE network = ? AND wallet = ? AND object_id = ?',
+        [network, wallet, objectId]
+      );
+      await this.run(
+        'DELETE FROM site_resources WHERE network = ? AND site_object_id = ?',
+        [network, objectId]
+      );
+    }
+  }
+
+  /**
+   * Drop the Blob objects a deletion removed, so loads from the inventory
+   * do not offer them again
+   */
+  async removeDeletedBlobs(network: string, wallet: string, results: DeletionResult[]): Promise<void> {
+    const objectIds = results
+      .filter(result => result.success && result.suiObjectId)
+      .map(result => result.suiObjectId!);
+    await this.removeObjects(network, wallet, objectIds);
+  }
+
+  async close(): Promise<void> {
+    const db = this.db;
+    if (!db) {
+      return;
+    }
+
+    this.db = undefined;
+    await new Promise<void>((resolve, reject) => {
+      db.close((error) => error ? reject(error) : resolve());
+    });
+  }
+
+  private async open(): Promise<sqlite3.Database> {
+    if (this.db) {
+      return this.db;
+    }
+
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+
+    const db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const database = new sqlite3.Database(this.dbPath, (error) => {
+        if (error) {
+          reject(new Error(`Failed to open inventory database ${this.dbPath}: ${error.message}`));
+        } else {
+          resolve(database);
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      db.exec(SCHEMA, (error) => error ? reject(error) : resolve());
+    });
+
+    this.db = db;
+    return db;
+  }
+
+  private async run(sql: string, params: unknown[] = []): Promise<void> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      db.run(sql, params, (error: Error | null) => error ? reject(error) : resolve());
+    });
+  }
+
+  private async get<T>(sql: string, params: unknown[] = []): Promise<T | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      db.get<T>(sql, params, (error, row) => error ? reject(error) : resolve(row));
+    });
+  }
+
+  private async all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      db.all<T>(sql, params, (error, rows) => error ? reject(error) : resolve(rows));
+    });
+  }
+}
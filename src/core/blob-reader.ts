@@ -1,15 +1,25 @@
 import { WalrusClient } from '../utils/walrus-client.js';
-import { BlobInfo, BlobAnalysis } from '../types/index.js';
-import { detectWalrusSite } from './site-detector.js';
+import { BlobInfo, BlobAnalysis, QuiltPatchInfo } from '../types/index.js';
+import { detectWalrusSite, guessContentType } from './site-detector.js';
+import { DEFAULT_QUILT_SHARDS, Quilt, decodeQuilt, readQuiltPatch } from '../utils/quilt.js';
+import { isGenericContentType, looksLikeText, sniffContent } from '../utils/content-sniffer.js';
 import mimeTypes from 'mime-types';
 
 export class BlobReader {
   private walrusClient: WalrusClient;
+  private nShards = DEFAULT_QUILT_SHARDS;
 
   constructor(aggregatorUrl?: string) {
     this.walrusClient = new WalrusClient(aggregatorUrl);
   }
 
+  /**
+   * The quilt layout depends on the committee's shard count
+   */
+  setShardCount(nShards: number): void {
+    this.nShards = nShards;
+  }
+
   async readBlob(blobId: string): Promise<Buffer> {
     return this.walrusClient.readBlob(blobId);
   }
@@ -26,6 +36,7 @@ export class BlobReader {
 
     const content = await this.readBlob(blobId);
     const contentType = this.detectContentType(content, blobInfo.contentType);
+    const quilt = decodeQuilt(content, this.nShards);
     
     const analysis: BlobAnalysis = {
       blobId,
@@ -33,8 +44,12 @@ export class BlobReader {
       contentType
     };
 
-    if (this.couldBeWalrusSite(content, contentType)) {
-      const siteDetection = await detectWalrusSite(content, blobId);
+    if (quilt) {
+      analysis.quilt = { patches: this.describeQuiltPatches(content, quilt) };
+    }
+
+    if (quilt || this.couldBeWalrusSite(content, contentType)) {
+      const siteDetection = await detectWalrusSite(content, blobId, quilt ?? undefined);
       analysis.isWalrusSite = siteDetection.isWalrusSite;
       analysis.siteInfo = siteDetection.siteInfo;
       analysis.structure = siteDetection.structure;
@@ -43,6 +58,29 @@ export class BlobReader {
     return analysis;
   }
 
+  /**
+   * The blob's content and quilt layout, or null when it is not a quilt
+   */
+  async readQuilt(blobId: string): Promise<{ content: Buffer; quilt: Quilt } | null> {
+    const content = await this.readBlob(blobId);
+    const quilt = decodeQuilt(content, this.nShards);
+    return quilt ? { content, quilt } : null;
+  }
+
+  /**
+   * Each patch with the content type its identifier implies, or failing
+   * that, the one its data looks like
+   */
+  describeQuiltPatches(content: Buffer, quilt: Quilt): QuiltPatchInfo[] {
+    return quilt.patches.map(patch => {
+      let contentType = guessContentType(patch.identifier);
+      if (contentType === 'application/octet-stream') {
+        contentType = this.detectContentType(readQuiltPatch(content, quilt, patch.identifier));
+      }
+      return { identifier: patch.identifier, size: patch.size, contentType, tags: patch.tags };
+    });
+  }
+
   async analyzeBlobBatch(blobIds: string[]): Promise<BlobAnalysis[]> {
     const results = await Promise.allSettled(
       blobIds.map(blobId => this.analyzeBlob(blobId))
@@ -66,34 +104,15 @@ export class BlobReader {
     return analyses.filter(analysis => analysis.isWalrusSite);
   }
 
+  /**
+   * The declared type unless it is missing or generic, otherwise the type
+   * the content's signature points at
+   */
   private detectContentType(content: Buffer, providedType?: string): string {
-    if (providedType && providedType !== 'application/octet-stream') {
+    if (providedType && !isGenericContentType(providedType)) {
       return providedType;
     }
-
-    const signature = content.subarray(0, 16);
-    
-    if (signature.includes(Buffer.from('<!DOCTYPE html', 'utf8')) || 
-        signature.includes(Buffer.from('<html', 'utf8'))) {
-      return 'text/html';
-    }
-    
-    if (signature.includes(Buffer.from('PK', 'utf8'))) {
-      return 'application/zip';
-    }
-    
-    try {
-      JSON.parse(content.toString('utf8'));
-      return 'application/json';
-    } catch {
-      // Not JSON
-    }
-
-    if (this.isTextContent(content)) {
-      return 'text/plain';
-    }
-
-    return 'application/octet-stream';
+    return sniffContent(content).contentType;
   }
 
   private couldBeWalrusSite(content: Buffer, contentType: string): boolean {
@@ -101,7 +120,7 @@ export class BlobReader {
     if (contentType === 'text/html') return true;
     if (contentType === 'application/json') return true;
     
-    if (this.isTextContent(content)) {
+    if (looksLikeText(content)) {
       const text = content.toString('utf8');
       return text.includes('index.html') || 
              text.includes('<!DOCTYPE html') ||
@@ -110,13 +129,4 @@ export class BlobReader {
 
     return false;
   }
-
-  private isTextContent(content: Buffer): boolean {
-    const sample = content.subarray(0, 1024);
-    const nonTextBytes = sample.filter(byte => 
-      byte < 32 && byte !== 9 && byte !== 10 && byte !== 13
-    ).length;
-    
-    return nonTextBytes / sample.length < 0.3;
-  }
 }
\ No newline at end of file
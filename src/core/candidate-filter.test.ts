@@ -0,0 +1,72 @@
+import { BlobCategory, BlobImportance, BlobInfo } from '../types/index.js';
+import { CandidateFilter, parseCategories, parseSize } from './candidate-filter.js';
+import { ImportanceScorer } from './importance-scorer.js';
+import { WalletTracker } from './wallet-tracker.js';
+
+function blob(blobId: string, fields: Partial<BlobInfo> = {}): BlobInfo {
+  return { blobId, isExpired: false, isDeletable: true, size: 4096, contentType: 'image/png', ...fields };
+}
+
+describe('CandidateFilter', () => {
+  const filter = new CandidateFilter(new ImportanceScorer(new WalletTracker('http://127.0.0.1:9000')));
+
+  it('includes blobs that pass every stage, with what they passed', () => {
+    const decision = filter.evaluateBlob(blob('a'), { deletableOnly: true, categories: [BlobCategory.IMAGE], maxSize: 8192 });
+
+    expect(decision).toMatchObject({ included: true, category: BlobCategory.IMAGE });
+    expect(decision.reasons).toEqual(['deletable', 'category image selected', 'size 4096 <= 8192']);
+  });
+
+  it('records every reason a blob was excluded', () => {
+    const decision = filter.evaluateBlob(blob('a', { isDeletable: false, size: 100 }), {
+      deletableOnly: true,
+      excludeCategories: [BlobCategory.IMAGE],
+      minSize: 1024
+    });
+
+    expect(decision.included).toBe(false);
+    expect(decision.reasons).toEqual(['not deletable', 'category image excluded', 'size 100 below min 1024']);
+  });
+
+  it('excludes site resources and blobs of unknown size when sizes are bounded', () => {
+    const decisions = filter.evaluate(
+      [blob('site'), blob('unsized', { size: undefined }), blob('plain')],
+      { excludeSiteResources: true, maxSize: 1 << 20 },
+      { siteResources: new Map([['site', '0x1234567890abcdef']]) }
+    );
+
+    expect(decisions.map(decision => [decision.blob.blobId, decision.included, decision.reasons[0]])).toEqual([
+      ['site', false, 'resource of Walrus Site 0x12345678...'],
+      ['unsized', false, 'size unknown (max-size set)'],
+      ['plain', true, 'not referenced by any site']
+    ]);
+  });
+
+  it('compares importance against the maximum', () => {
+    const criteria = { maxImportance: BlobImportance.LOW };
+
+    expect(filter.evaluateBlob(blob('expired', { isExpired: true }), criteria).included).toBe(true);
+    expect(filter.evaluateBlob(blob('image'), criteria).reasons).toEqual(['importance normal above low (image content)']);
+  });
+});
+
+describe('parseSize', () => {
+  it('accepts bytes and binary units', () => {
+    expect(parseSize(512)).toBe(512);
+    expect(parseSize('512')).toBe(512);
+    expect(parseSize('10MB')).toBe(10 * 1024 ** 2);
+    expect(parseSize('1.5 gb')).toBe(1.5 * 1024 ** 3);
+  });
+
+  it('rejects anything else', () => {
+    expect(() => parseSize('ten MB')).toThrow('Invalid size "ten MB"');
+    expect(() => parseSize('10PB')).toThrow('Invalid size');
+  });
+});
+
+describe('parseCategories', () => {
+  it('accepts known categories in any case', () => {
+    expect(parseCategories(['Image', 'DATA'])).toEqual([BlobCategory.IMAGE, BlobCategory.DATA]);
+    expect(() => parseCategories(['spreadsheet'])).toThrow('Unknown category "spreadsheet"');
+  });
+});
@@ -0,0 +1,153 @@
+import { BlobInfo, BlobCategory, BlobImportance } from '../types/index.js';
+import { ImportanceScorer, ImportanceContext, ImportanceAssessment, isAtOrBelow } from './importance-scorer.js';
+
+export interface CandidateCriteria {
+  categories?: BlobCategory[];
+  excludeCategories?: BlobCategory[];
+  minSize?: number;
+  maxSize?: number;
+  maxImportance?: BlobImportance;
+  deletableOnly?: boolean;
+  excludeSiteResources?: boolean;
+}
+
+export interface CandidateDecision {
+  blob: BlobInfo;
+  included: boolean;
+  category: BlobCategory;
+  assessment: ImportanceAssessment;
+  reasons: string[]; // why the blob was excluded, or what it passed if included
+}
+
+interface StageOutcome {
+  passed: boolean;
+  reason: string;
+}
+
+type FilterStage = (
+  blob: BlobInfo,
+  assessment: ImportanceAssessment,
+  criteria: CandidateCriteria,
+  context: ImportanceContext
+) => StageOutcome | null;
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4
+};
+
+export function parseCategories(values: string[]): BlobCategory[] {
+  const known = Object.values(BlobCategory) as string[];
+  return values.map(value => {
+    const category = value.toLowerCase();
+    if (!known.includes(category)) {
+      throw new Error(`Unknown category "${value}". Expected one of: ${known.join(', ')}`);
+    }
+    return category as BlobCategory;
+  });
+}
+
+/**
+ * Parse a size given in bytes or with a unit suffix (e.g. "512", "10MB", "1.5 GB")
+ */
+export function parseSize(value: string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?b)?$/i);
+  if (!match) {
+    throw new Error(`Invalid size "${value}". Use bytes or a unit such as 10MB`);
+  }
+
+  const unit = (match[2] || 'b').toLowerCase();
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[unit]);
+}
+
+const STAGES: FilterStage[] = [
+  (blob, _assessment, criteria, context) => {
+    if (!criteria.excludeSiteResources) return null;
+    const siteId = context.siteResources?.get(blob.blobId);
+    return siteId
+      ? { passed: false, reason: `resource of Walrus Site ${siteId.slice(0, 10)}...` }
+      : { passed: true, reason: 'not referenced by any site' };
+  },
+  (blob, _assessment, criteria) => {
+    if (!criteria.deletableOnly) return null;
+    return blob.isDeletable
+      ? { passed: true, reason: 'deletable' }
+      : { passed: false, reason: 'not deletable' };
+  },
+  (_blob, assessment, criteria) => {
+    if (!criteria.categories || criteria.categories.length === 0) return null;
+    return criteria.categories.includes(assessment.category)
+      ? { passed: true, reason: `category ${assessment.category} selected` }
+      : { passed: false, reason: `category ${assessment.category} not in ${criteria.categories.join(', ')}` };
+  },
+  (_blob, assessment, criteria) => {
+    if (!criteria.excludeCategories || criteria.excludeCategories.length === 0) return null;
+    return criteria.excludeCategories.includes(assessment.category)
+      ? { passed: false, reason: `category ${assessment.category} excluded` }
+      : { passed: true, reason: `category ${assessment.category} not excluded` };
+  },
+  (blob, _assessment, criteria) => {
+    if (criteria.minSize === undefined) return null;
+    if (blob.size === undefined) return { passed: false, reason: 'size unknown (min-size set)' };
+    return blob.size >= criteria.minSize
+      ? { passed: true, reason: `size ${blob.size} >= ${criteria.minSize}` }
+      : { passed: false, reason: `size ${blob.size} below min ${criteria.minSize}` };
+  },
+  (blob, _assessment, criteria) => {
+    if (criteria.maxSize === undefined) return null;
+    if (blob.size === undefined) return { passed: false, reason: 'size unknown (max-size set)' };
+    return blob.size <= criteria.maxSize
+      ? { passed: true, reason: `size ${blob.size} <= ${criteria.maxSize}` }
+      : { passed: false, reason: `size ${blob.size} above max ${criteria.maxSize}` };
+  },
+  (_blob, assessment, criteria) => {
+    if (!criteria.maxImportance) return null;
+    return isAtOrBelow(assessment.importance, criteria.maxImportance)
+      ? { passed: true, reason: `importance ${assessment.importance} <= ${criteria.maxImportance}` }
+      : { passed: false, reason: `importance ${assessment.importance} above ${criteria.maxImportance} (${assessment.reasons.join(', ')})` };
+  }
+];
+
+/**
+ * Shared candidate pipeline for cleanup and wallet-scan. Every stage runs
+ * for every blob so the decision records all the reasons, not just the first.
+ */
+export class CandidateFilter {
+  private scorer: ImportanceScorer;
+
+  constructor(scorer: ImportanceScorer) {
+    this.scorer = scorer;
+  }
+
+  evaluate(blobs: BlobInfo[], criteria: CandidateCriteria, context: ImportanceContext = {}): CandidateDecision[] {
+    return blobs.map(blob => this.evaluateBlob(blob, criteria, context));
+  }
+
+  evaluateBlob(blob: BlobInfo, criteria: CandidateCriteria, context: ImportanceContext = {}): CandidateDecision {
+    const assessment = this.scorer.score(blob, context);
+    const passed: string[] = [];
+    const failed: string[] = [];
+
+    for (const stage of STAGES) {
+      const outcome = stage(blob, assessment, criteria, context);
+      if (outcome) {
+        (outcome.passed ? passed : failed).push(outcome.reason);
+      }
+    }
+
+    return {
+      blob,
+      included: failed.length === 0,
+      category: assessment.category,
+      assessment,
+      reasons: failed.length > 0 ? failed : passed
+    };
+  }
+}
@@ -0,0 +1,118 @@
+import { BlobCategory, BlobImportance, BlobInfo } from '../types/index.js';
+import { CleanupPolicy, PolicyEngine, validatePolicy } from './cleanup-policy.js';
+import { ImportanceScorer } from './importance-scorer.js';
+import { WalletTracker } from './wallet-tracker.js';
+
+function blob(blobId: string, fields: Partial<BlobInfo> = {}): BlobInfo {
+  return { blobId, isExpired: false, isDeletable: true, size: 4096, contentType: 'image/png', ...fields };
+}
+
+function engine(policy: Partial<CleanupPolicy>): PolicyEngine {
+  return new PolicyEngine(
+    { version: 1, defaultAction: 'keep', rules: [], ...policy },
+    new ImportanceScorer(new WalletTracker('http://127.0.0.1:9000'))
+  );
+}
+
+describe('validatePolicy', () => {
+  it('parses rules and fills in defaults', () => {
+    const result = validatePolicy({
+      rules: [{ action: 'delete', match: { expired: true, categories: ['image'], minSize: '1KB', maxImportance: 'low' } }]
+    });
+
+    expect(result.errors).toEqual([]);
+    expect(result.policy).toEqual({
+      version: 1,
+      defaultAction: 'keep',
+      rules: [{
+        name: 'rule-1',
+        action: 'delete',
+        match: { expired: true, categories: [BlobCategory.IMAGE], minSize: 1024, maxImportance: BlobImportance.LOW }
+      }]
+    });
+  });
+
+  it('reports every problem with its rule', () => {
+    const result = validatePolicy({
+      version: 2,
+      default: 'purge',
+      rules: [
+        { name: 'old', action: 'remove', match: { expired: 'yes', colour: 'red' } },
+        { action: 'keep' }
+      ]
+    });
+
+    expect(result.policy).toBeUndefined();
+    expect(result.errors).toEqual([
+      'Unsupported policy version 2',
+      'default must be "keep" or "delete", got "purge"',
+      'rules[0] (old): action must be "keep" or "delete"',
+      'rules[0] (old): match.expired must be true or false',
+      expect.stringContaining('rules[0] (old): match.colour unknown condition'),
+      'rules[1]: match must be a mapping'
+    ]);
+  });
+
+  it('rejects documents without rules', () => {
+    expect(validatePolicy('delete everything').errors).toEqual(['Policy must be a YAML mapping']);
+    expect(validatePolicy({ rules: [] }).errors).toEqual(['rules must be a non-empty list']);
+  });
+});
+
+describe('PolicyEngine', () => {
+  it('lets the first matching rule decide', () => {
+    const decisions = engine({
+      rules: [
+        { name: 'keep-sites', action: 'keep', match: { orphan: false } },
+        { name: 'drop-expired', action: 'delete', match: { expired: true } }
+      ]
+    }).evaluate([blob('site', { isExpired: true }), blob('old', { isExpired: true }), blob('fresh')], {
+      siteMemberships: new Map([['site', ['0xsite']]])
+    });
+
+    expect(decisions.map(decision => [decision.blob.blobId, decision.action, decision.rule])).toEqual([
+      ['site', 'keep', 'keep-sites'],
+      ['old', 'delete', 'drop-expired'],
+      ['fresh', 'keep', 'default']
+    ]);
+    expect(decisions[1].reasons).toEqual(['expired']);
+  });
+
+  it('never deletes blobs that are not deletable', () => {
+    const decisions = engine({
+      defaultAction: 'delete',
+      rules: [{ name: 'drop-images', action: 'delete', match: { categories: [BlobCategory.IMAGE] } }]
+    }).evaluate([blob('permanent', { isDeletable: false }), blob('text', { contentType: 'text/plain', isDeletable: false })]);
+
+    expect(decisions.map(decision => [decision.action, decision.rule, decision.reasons.at(-1)])).toEqual([
+      ['keep', 'drop-images', 'blob is not deletable, keeping'],
+      ['keep', 'default', 'blob is not deletable, keeping']
+    ]);
+  });
+
+  it('only matches an age rule when the current epoch is known', () => {
+    const policy = engine({ rules: [{ name: 'stale', action: 'delete', match: { olderThanEpochs: 10 } }] });
+    const blobs = [blob('old', { createdEpoch: 5 }), blob('new', { createdEpoch: 15 })];
+
+    expect(policy.evaluate(blobs, { currentEpoch: 20 }).map(decision => decision.action)).toEqual(['delete', 'keep']);
+    expect(policy.evaluate(blobs).map(decision => decision.action)).toEqual(['keep', 'keep']);
+  });
+
+  it('keeps the resources of the newest versions of a site', () => {
+    const decisions = engine({
+      defaultAction: 'delete',
+      rules: [{ name: 'live', action: 'keep', match: { newestSiteVersions: 1 } }]
+    }).evaluate([blob('current'), blob('previous')], {
+      siteMemberships: new Map([['current', ['0xnew']], ['previous', ['0xold']]]),
+      sites: [
+        { objectId: '0xold', name: 'blog', version: '9' },
+        { objectId: '0xnew', name: 'blog', version: '12' }
+      ]
+    });
+
+    expect(decisions.map(decision => [decision.blob.blobId, decision.action, decision.rule])).toEqual([
+      ['current', 'keep', 'live'],
+      ['previous', 'delete', 'default']
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import yaml from 'js-yaml';
+import { BlobInfo, BlobCategory, BlobImportance } from '../types/index.js';
+import { ImportanceScorer, ImportanceContext, parseImportance, isAtOrBelow } from './importance-scorer.js';
+import { parseCategories, parseSize } from './candidate-filter.js';
+
+export const DEFAULT_POLICY_FILE = 'walscan-policy.yaml';
+
+export type PolicyAction = 'delete' | 'keep';
+
+export interface PolicyMatch {
+  orphan?: boolean;
+  deletable?: boolean;
+  expired?: boolean;
+  categories?: BlobCategory[];
+  excludeCategories?: BlobCategory[];
+  minSize?: number;
+  maxSize?: number;
+  olderThanEpochs?: number;
+  maxImportance?: BlobImportance;
+  newestSiteVersions?: number;
+}
+
+export interface PolicyRule {
+  name: string;
+  action: PolicyAction;
+  match: PolicyMatch;
+}
+
+export interface CleanupPolicy {
+  version: number;
+  defaultAction: PolicyAction;
+  rules: PolicyRule[];
+}
+
+export interface PolicySite {
+  objectId: string;
+  name?: string;
+  version: string;
+}
+
+export interface PolicyContext extends ImportanceContext {
+  siteMemberships?: Map<string, string[]>; // blob ID -> every site object ID referencing it
+  sites?: PolicySite[];
+}
+
+export interface PolicyDecision {
+  blob: BlobInfo;
+  action: PolicyAction;
+  rule: string; // rule name, or "default" when nothing matched
+  reasons: string[];
+}
+
+export interface PolicyValidationResult {
+  policy?: CleanupPolicy;
+  errors: string[];
+}
+
+const MATCH_KEYS = [
+  'orphan', 'deletable', 'expired', 'categories', 'excludeCategories',
+  'minSize', 'maxSize', 'olderThanEpochs', 'maxImportance', 'newestSiteVersions'
+];
+
+export function loadPolicy(filePath: string): CleanupPolicy {
+  const result = validatePolicyFile(filePath);
+  if (!result.policy) {
+    throw new Error(`Invalid policy ${filePath}:\n  ${result.errors.join('\n  ')}`);
+  }
+  return result.policy;
+}
+
+export function validatePolicyFile(filePath: string): PolicyValidationResult {
+  let raw: unknown;
+  try {
+    raw = yaml.load(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    return { errors: [`Could not read ${filePath}: ${error}`] };
+  }
+  return validatePolicy(raw);
+}
+
+export function validatePolicy(raw: unknown): PolicyValidationResult {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object') {
+    return { errors: ['Policy must be a YAML mapping'] };
+  }
+
+  const doc = raw as Record<string, any>;
+  const version = doc.version ?? 1;
+  if (version !== 1) {
+    errors.push(`Unsupported policy version ${version}`);
+  }
+
+  const defaultAction = doc.default ?? 'keep';
+  if (defaultAction !== 'keep' && defaultAction !== 'delete') {
+    errors.push(`default must be "keep" or "delete", got "${defaultAction}"`);
+  }
+
+  if (!Array.isArray(doc.rules) || doc.rules.length === 0) {
+    errors.push('rules must be a non-empty list');
+    return { errors };
+  }
+
+  const rules: PolicyRule[] = [];
+  doc.rules.forEach((rawRule: any, index: number) => {
+    const label = `rules[${index}]${rawRule?.name ? ` (${rawRule.name})` : ''}`;
+    if (!rawRule || typeof rawRule !== 'object') {
+      errors.push(`${label}: must be a mapping`);
+      return;
+    }
+    if (rawRule.action !== 'keep' && rawRule.action !== 'delete') {
+      errors.push(`${label}: action must be "keep" or "delete"`);
+    }
+    if (!rawRule.match || typeof rawRule.match !== 'object') {
+      errors.push(`${label}: match must be a mapping`);
+      return;
+    }
+
+    const match: PolicyMatch = {};
+    for (const [key, value] of Object.entries(rawRule.match as Record<string, any>)) {
+      try {
+        switch (key) {
+          case 'orphan':
+          case 'deletable':
+          case 'expired':
+            if (typeof value !== 'boolean') throw new Error('must be true or false');
+            match[key] = value;
+            break;
+          case 'categories':
+          case 'excludeCategories':
+            match[key] = parseCategories(Array.isArray(value) ? value : [value]);
+            break;
+          case 'minSize':
+          case 'maxSize':
+            match[key] = parseSize(value);
+            break;
+          case 'olderThanEpochs':
+          case 'newestSiteVersions':
+            if (!Number.isInteger(value) || value < 0) throw new Error('must be a non-negative integer');
+            match[key] = value;
+            break;
+          case 'maxImportance':
+            match.maxImportance = parseImportance(String(value));
+            break;
+          default:
+            throw new Error(`unknown condition (expected one of: ${MATCH_KEYS.join(', ')})`);
+        }
+      } catch (error) {
+        errors.push(`${label}: match.${key} ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    rules.push({
+      name: rawRule.name ? String(rawRule.name) : `rule-${index + 1}`,
+      action: rawRule.action,
+      match
+    });
+  });
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    policy: { version, defaultAction, rules },
+    errors
+  };
+}
+
+/**
+ * Evaluates blobs against policy rules in order. The first rule whose
+ * conditions all hold decides the action.
+ */
+export class PolicyEngine {
+  private policy: CleanupPolicy;
+  private scorer: ImportanceScorer;
+
+  constructor(policy: CleanupPolicy, scorer: ImportanceScorer) {
+    this.policy = policy;
+    this.scorer = scorer;
+  }
+
+  evaluate(blobs: BlobInfo[], context: PolicyContext = {}): PolicyDecision[] {
+    const newestSiteRanks = this.rankSites(context.sites || []);
+    return blobs.map(blob => this.evaluateBlob(blob, context, newestSiteRanks));
+  }
+
+  private evaluateBlob(blob: BlobInfo, context: PolicyContext, siteRanks: Map<string, number>): PolicyDecision {
+    for (const rule of this.policy.rules) {
+      const reasons = this.matchRule(rule.match, blob, context, siteRanks);
+      if (!reasons) {
+        continue;
+      }
+
+      if (rule.action === 'delete' && !blob.isDeletable) {
+        return {
+          blob,
+          action: 'keep',
+          rule: rule.name,
+          reasons: [...reasons, 'blob is not deletable, keeping']
+        };
+      }
+
+      return { blob, action: rule.action, rule: rule.name, reasons };
+    }
+
+    if (this.policy.defaultAction === 'delete' && !blob.isDeletable) {
+      return { blob, action: 'keep', rule: 'default', reasons: ['no rule matched', 'blob is not deletable, keeping'] };
+    }
+
+    return { blob, action: this.policy.defaultAction, rule: 'default', reasons: ['no rule matched'] };
+  }
+
+  /**
+   * Returns the reasons the rule matched, or null when any condition fails
+   */
+  private matchRule(
+    match: PolicyMatch,
+    blob: BlobInfo,
+    context: PolicyContext,
+    siteRanks: Map<string, number>
+  ): string[] | null {
+    const reasons: string[] = [];
+    const assessment = this.scorer.score(blob, context);
+    const sites = context.siteMemberships?.get(blob.blobId) || [];
+
+    if (match.orphan !== undefined) {
+      if ((sites.length === 0) !== match.orphan) return null;
+      reasons.push(match.orphan ? 'orphan' : `referenced by ${sites.length} site(s)`);
+    }
+
+    if (match.deletable !== undefined) {
+      if (!!blob.isDeletable !== match.deletable) return null;
+      reasons.push(match.deletable ? 'deletable' : 'not deletable');
+    }
+
+    if (match.expired !== undefined) {
+      if (blob.isExpired !== match.expired) return null;
+      reasons.push(match.expired ? 'expired' : 'not expired');
+    }
+
+    if (match.categories) {
+      if (!match.categories.includes(assessment.category)) return null;
+      reasons.push(`category ${assessment.category}`);
+    }
+
+    if (match.excludeCategories) {
+      if (match.excludeCategories.includes(assessment.category)) return null;
+      reasons.push(`category ${assessment.category} not excluded`);
+    }
+
+    if (match.minSize !== undefined) {
+      if (blob.size === undefined || blob.size < match.minSize) return null;
+      reasons.push(`size ${blob.size} >= ${match.minSize}`);
+    }
+
+    if (match.maxSize !== undefined) {
+      if (blob.size === undefined || blob.size > match.maxSize) return null;
+      reasons.push(`size ${blob.size} <= ${match.maxSize}`);
+    }
+
+    if (match.olderThanEpochs !== undefined) {
+      // Without a known current epoch the age cannot be proven, so the rule does not match
+      if (context.currentEpoch === undefined || blob.createdEpoch === undefined) return null;
+      const age = context.currentEpoch - blob.createdEpoch;
+      if (age <= match.olderThanEpochs) return null;
+      reasons.push(`${age} epochs old`);
+    }
+
+    if (match.maxImportance) {
+      if (!isAtOrBelow(assessment.importance, match.maxImportance)) return null;
+      reasons.push(`importance ${assessment.importance}`);
+    }
+
+    if (match.newestSiteVersions !== undefined) {
+      const newest = sites.filter(siteId => (siteRanks.get(siteId) ?? Infinity) < match.newestSiteVersions!);
+      if (newest.length === 0) return null;
+      reasons.push(`resource of site ${newest[0].slice(0, 10)}... (one of the newest ${match.newestSiteVersions} versions)`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Rank sites sharing a name by object version, newest first (rank 0)
+   */
+  private rankSites(sites: PolicySite[]): Map<string, number> {
+    const groups = new Map<string, PolicySite[]>();
+    for (const site of sites) {
+      const key = site.name || site.objectId;
+      groups.set(key, [...(groups.get(key) || []), site]);
+    }
+
+    const ranks = new Map<string, number>();
+    for (const group of groups.values()) {
+      group
+        .sort((a, b) => (BigInt(b.version) > BigInt(a.version) ? 1 : BigInt(b.version) < BigInt(a.version) ? -1 : 0))
+        .forEach((site, rank) => ranks.set(site.objectId, rank));
+    }
+    return ranks;
+  }
+}
@@ -0,0 +1,114 @@
+import { BlobInfo, SiteResource, SuiNSRecord } from '../types/index.js';
+import { WalrusSystemState, formatLifetime } from '../utils/system-state.js';
+import { encodedBlobSize, storageValue } from '../utils/storage-cost.js';
+
+export interface FootprintBlob {
+  blobId: string;
+  paths: string[];
+  suiObjectId?: string;
+  owner?: string;
+  size?: number;
+  endEpoch?: number;
+  lifetime?: string;
+  isDeletable?: boolean;
+  isExpired: boolean;
+  storageValue?: number; // WAL value of the remaining storage
+  costPerEpoch?: number; // WAL to keep it stored one more epoch
+}
+
+export interface DomainFootprint {
+  domain: string;
+  record: SuiNSRecord;
+  siteObjectId: string;
+  siteName?: string;
+  currentEpoch?: number;
+  blobs: FootprintBlob[];
+  totalSize: number;
+  totalStorageValue?: number;
+  totalCostPerEpoch?: number;
+  earliestExpiry?: { endEpoch: number; lifetime?: string; blobIds: string[] };
+  missingBlobIds: string[]; // resources with no Blob object in the wallets searched
+}
+
+/**
+ * Everything that has to stay stored for a domain's site to keep serving:
+ * one entry per resource blob, with its Blob object when one was found.
+ * blobs are the Blob objects of the wallets searched; fallbackInfo fills in
+ * sizes from the aggregator for the rest.
+ */
+export function buildDomainFootprint(
+  record: SuiNSRecord,
+  siteName: string | undefined,
+  resources: SiteResource[],
+  blobs: BlobInfo[],
+  state?: WalrusSystemState,
+  fallbackInfo: Map<string, BlobInfo> = new Map()
+): DomainFootprint {
+  // Several Blob objects can store the same blob; the one lasting longest counts
+  const blobsById = new Map<string, BlobInfo>();
+  for (const blob of blobs) {
+    const current = blobsById.get(blob.blobId);
+    if (!current || Number(blob.endEpoch ?? 0) > Number(current.endEpoch ?? 0)) {
+      blobsById.set(blob.blobId, blob);
+    }
+  }
+
+  const pathsById = new Map<string, string[]>();
+  for (const resource of resources) {
+    pathsById.set(resource.blobId, [...(pathsById.get(resource.blobId) || []), resource.path]);
+  }
+
+  const footprint: FootprintBlob[] = [];
+  const missingBlobIds: string[] = [];
+  for (const [blobId, paths] of pathsById) {
+    const blob = blobsById.get(blobId);
+    if (!blob) {
+      missingBlobIds.push(blobId);
+      footprint.push({ blobId, paths, size: fallbackInfo.get(blobId)?.size, isExpired: false });
+      continue;
+    }
+
+    const entry: FootprintBlob = {
+      blobId,
+      paths,
+      suiObjectId: blob.suiObjectId,
+      owner: blob.owner,
+      size: blob.size,
+      endEpoch: blob.endEpoch !== undefined ? Number(blob.endEpoch) : undefined,
+      isDeletable: blob.isDeletable,
+      isExpired: blob.isExpired
+    };
+    if (state && entry.endEpoch !== undefined) {
+      entry.lifetime = formatLifetime(entry.endEpoch, state);
+      if (blob.size) {
+        const encodedSize = encodedBlobSize(blob.size, state.committee.nShards);
+        entry.storageValue = storageValue(encodedSize, entry.endEpoch - state.epoch, state);
+        entry.costPerEpoch = storageValue(encodedSize, 1, state);
+      }
+    }
+    footprint.push(entry);
+  }
+
+  const stored = footprint.filter(blob => blob.endEpoch !== undefined);
+  const earliestEpoch = stored.length > 0 ? Math.min(...stored.map(blob => blob.endEpoch!)) : undefined;
+
+  return {
+    domain: record.domain,
+    record,
+    siteObjectId: record.targetSiteId!,
+    siteName,
+    currentEpoch: state?.epoch,
+    blobs: footprint.sort((a, b) => (a.endEpoch ?? Infinity) - (b.endEpoch ?? Infinity)),
+    totalSize: footprint.reduce((sum, blob) => sum + (blob.size || 0), 0),
+    totalStorageValue: state ? footprint.reduce((sum, blob) => sum + (blob.storageValue || 0), 0) : undefined,
+    totalCostPerEpoch: state ? footprint.reduce((sum, blob) => sum + (blob.costPerEpoch || 0), 0) : undefined,
+    earliestExpiry: earliestEpoch !== undefined
+      ? {
+          endEpoch: earliestEpoch,
+          lifetime: state ? formatLifetime(earliestEpoch, state) : undefined,
+          blobIds: stored.filter(blob => blob.endEpoch === earliestEpoch).map(blob => blob.blobId)
+        }
+      : undefined,
+    missingBlobIds
+  };
+}
@@ -0,0 +1,90 @@
+import { BlobInfo } from '../types/index.js';
+import { WalrusSystemState } from '../utils/system-state.js';
+import { ExpirySite, buildExpiryReport } from './expiry-report.js';
+
+// No epoch timing, so lifetimes are in epochs only
+const STATE: WalrusSystemState = {
+  epoch: 100,
+  committee: { epoch: 100, nShards: 1000, members: 100 },
+  storagePricePerUnitSize: 0n,
+  writePricePerUnitSize: 0n
+};
+
+function blob(blobId: string, endEpoch?: number): BlobInfo {
+  return { blobId, suiObjectId: `${blobId}-object`, endEpoch, isExpired: endEpoch !== undefined && endEpoch <= STATE.epoch };
+}
+
+function site(siteObjectId: string, blobIds: string[], fields: Partial<ExpirySite> = {}): ExpirySite {
+  return {
+    siteObjectId,
+    owner: '0xowner',
+    resources: blobIds.map(blobId => ({ path: `/${blobId}`, blobId })),
+    ...fields
+  };
+}
+
+describe('buildExpiryReport', () => {
+  it('groups site resources as critical and other blobs by wallet', () => {
+    const report = buildExpiryReport(
+      [site('0xsite', ['page', 'logo', 'font'], { name: 'blog', domain: 'blog.sui' })],
+      [{ address: '0xowner', blobs: [blob('page', 103), blob('logo', 99), blob('font', 300), blob('backup', 101), blob('archive')], reportBlobs: true }],
+      5,
+      STATE
+    );
+
+    expect(report).toMatchObject({ currentEpoch: 100, withinEpochs: 5, criticalCount: 2, unresolvedCount: 0 });
+    expect(report.groups).toEqual([
+      {
+        owner: '0xowner',
+        siteObjectId: '0xsite',
+        siteName: 'blog',
+        domain: 'blog.sui',
+        resources: [
+          { blobId: 'logo', suiObjectId: 'logo-object', path: '/logo', endEpoch: 99, remainingEpochs: -1, lifetime: 'expired 1 epoch ago', critical: true },
+          { blobId: 'page', suiObjectId: 'page-object', path: '/page', endEpoch: 103, remainingEpochs: 3, lifetime: '3 epochs', critical: true }
+        ],
+        missing: [],
+        error: undefined
+      },
+      {
+        owner: '0xowner',
+        resources: [
+          { blobId: 'backup', suiObjectId: 'backup-object', path: undefined, endEpoch: 101, remainingEpochs: 1, lifetime: '1 epoch', critical: false }
+        ],
+        missing: []
+      }
+    ]);
+  });
+
+  it('counts missing resources and unreadable sites as unresolved', () => {
+    const report = buildExpiryReport(
+      [
+        site('0xa', ['held', 'lost']),
+        site('0xb', [], { error: 'Failed to read the resources of site 0xb' }),
+        site('0xc', ['held'])
+      ],
+      [{ address: '0xowner', blobs: [blob('held', 500)], reportBlobs: true }],
+      5,
+      STATE
+    );
+
+    expect(report.groups.map(group => [group.siteObjectId, group.missing, group.error])).toEqual([
+      ['0xa', ['lost'], undefined],
+      ['0xb', [], 'Failed to read the resources of site 0xb']
+    ]);
+    expect(report.unresolvedCount).toBe(2);
+    expect(report.criticalCount).toBe(0);
+  });
+
+  it('uses wallets loaded for site lookups without reporting their other blobs', () => {
+    const report = buildExpiryReport(
+      [site('0xsite', ['page'])],
+      [{ address: '0xholder', blobs: [blob('page', 102), blob('unrelated', 101)], reportBlobs: false }],
+      5,
+      STATE
+    );
+
+    expect(report.groups).toHaveLength(1);
+    expect(report.groups[0].resources.map(resource => resource.blobId)).toEqual(['page']);
+  });
+});
@@ -0,0 +1,138 @@
+import { BlobInfo, SiteResource } from '../types/index.js';
+import { WalrusSystemState, formatLifetime } from '../utils/system-state.js';
+
+export const DEFAULT_EXPIRY_WINDOW = 5;
+
+export interface ExpiringResource {
+  blobId: string;
+  suiObjectId?: string;
+  path?: string;
+  endEpoch: number;
+  remainingEpochs: number; // zero or less once expired
+  lifetime: string;
+  critical: boolean;
+}
+
+export interface ExpiryGroup {
+  owner: string;
+  siteObjectId?: string; // undefined for a wallet's blobs outside any site
+  siteName?: string;
+  domain?: string;
+  resources: ExpiringResource[];
+  missing: string[]; // site resources whose Blob object no loaded wallet holds
+  error?: string; // set when the site's resources could not be read
+}
+
+export interface ExpiryReport {
+  currentEpoch: number;
+  withinEpochs: number;
+  groups: ExpiryGroup[];
+  criticalCount: number;
+  unresolvedCount: number; // missing site resources plus unreadable sites
+}
+
+export interface ExpirySite {
+  siteObjectId: string;
+  owner: string;
+  name?: string;
+  domain?: string;
+  resources: SiteResource[];
+  error?: string;
+}
+
+export interface ExpiryWallet {
+  address: string;
+  blobs: BlobInfo[];
+  reportBlobs: boolean; // false when only loaded to look up a site's resources
+}
+
+/**
+ * Collect everything expiring within withinEpochs, one group per site and
+ * one per wallet for blobs outside any site. Resources of a site, and so of
+ * any SuiNS domain pointing at it, are critical; expired ones included.
+ * Site resources whose expiry cannot be known are counted as unresolved.
+ */
+export function buildExpiryReport(
+  sites: ExpirySite[],
+  wallets: ExpiryWallet[],
+  withinEpochs: number,
+  state: WalrusSystemState
+): ExpiryReport {
+  const blobsById = new Map<string, BlobInfo>();
+  for (const wallet of wallets) {
+    for (const blob of wallet.blobs) {
+      blobsById.set(blob.blobId, blob);
+    }
+  }
+
+  const toResource = (blob: BlobInfo, critical: boolean, path?: string): ExpiringResource | undefined => {
+    if (blob.endEpoch === undefined) return undefined;
+    const endEpoch = Number(blob.endEpoch);
+    const remainingEpochs = endEpoch - state.epoch;
+    if (remainingEpochs > withinEpochs) return undefined;
+    return {
+      blobId: blob.blobId,
+      suiObjectId: blob.suiObjectId,
+      path,
+      endEpoch,
+      remainingEpochs,
+      lifetime: formatLifetime(endEpoch, state),
+      critical
+    };
+  };
+
+  const groups: ExpiryGroup[] = [];
+  const siteBlobIds = new Set<string>();
+
+  for (const site of sites) {
+    const group: ExpiryGroup = {
+      owner: site.owner,
+      siteObjectId: site.siteObjectId,
+      siteName: site.name,
+      domain: site.domain,
+      resources: [],
+      missing: [],
+      error: site.error
+    };
+
+    for (const resource of site.resources) {
+      siteBlobIds.add(resource.blobId);
+      const blob = blobsById.get(resource.blobId);
+      if (!blob) {
+        group.missing.push(resource.blobId);
+        continue;
+      }
+      const expiring = toResource(blob, true, resource.path);
+      if (expiring) {
+        group.resources.push(expiring);
+      }
+    }
+
+    if (group.resources.length > 0 || group.missing.length > 0 || group.error) {
+      groups.push(group);
+    }
+  }
+
+  for (const wallet of wallets.filter(wallet => wallet.reportBlobs)) {
+    const resources = wallet.blobs
+      .filter(blob => !siteBlobIds.has(blob.blobId))
+      .map(blob => toResource(blob, false))
+      .filter((resource): resource is ExpiringResource => !!resource);
+
+    if (resources.length > 0) {
+      groups.push({ owner: wallet.address, resources, missing: [] });
+    }
+  }
+
+  for (const group of groups) {
+    group.resources.sort((a, b) => a.remainingEpochs - b.remainingEpochs);
+  }
+
+  return {
+    currentEpoch: state.epoch,
+    withinEpochs,
+    groups,
+    criticalCount: groups.reduce((sum, group) => sum + group.resources.filter(resource => resource.critical).length, 0),
+    unresolvedCount: groups.reduce((sum, group) => sum + group.missing.length + (group.error ? 1 : 0), 0)
+  };
+}
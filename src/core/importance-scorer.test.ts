@@ -0,0 +1,62 @@
+import { BlobCategory, BlobImportance, BlobInfo } from '../types/index.js';
+import { ImportanceScorer, isAtOrBelow, parseImportance } from './importance-scorer.js';
+import { WalletTracker } from './wallet-tracker.js';
+
+function blob(fields: Partial<BlobInfo> = {}): BlobInfo {
+  return { blobId: '0xblob', isExpired: false, size: 4096, contentType: 'image/png', ...fields };
+}
+
+describe('ImportanceScorer', () => {
+  const scorer = new ImportanceScorer(new WalletTracker('http://127.0.0.1:9000'));
+
+  it('ranks site resources by whether the site has a domain', () => {
+    const siteResources = new Map([['0xblob', '0xsite']]);
+
+    expect(scorer.score(blob({ isExpired: true }), { siteResources }).importance).toBe(BlobImportance.IMPORTANT);
+    expect(scorer.score(blob(), { siteResources, siteDomains: new Map([['0xsite', 'blog.sui']]) })).toMatchObject({
+      importance: BlobImportance.CRITICAL,
+      reasons: ['resource of site 0xsite... linked to blog.sui']
+    });
+  });
+
+  it('treats expired and empty blobs as disposable', () => {
+    expect(scorer.score(blob({ isExpired: true, endEpoch: 7 }))).toEqual({
+      importance: BlobImportance.DISPOSABLE,
+      category: BlobCategory.IMAGE,
+      reasons: ['expired at epoch 7']
+    });
+    expect(scorer.score(blob({ size: 0 })).importance).toBe(BlobImportance.DISPOSABLE);
+  });
+
+  it('starts from the category and adjusts for size and lifetime', () => {
+    expect(scorer.score(blob()).importance).toBe(BlobImportance.NORMAL);
+    expect(scorer.score(blob({ contentType: undefined })).importance).toBe(BlobImportance.LOW);
+    expect(scorer.score(blob({ size: 100 }))).toMatchObject({
+      importance: BlobImportance.LOW,
+      reasons: ['image content', 'tiny (100 bytes)']
+    });
+    expect(scorer.score(blob({ endEpoch: 11 }), { currentEpoch: 10 }).reasons).toContain('expires in 1 epoch');
+    expect(scorer.score(blob({ createdEpoch: 8 }), { currentEpoch: 10 })).toMatchObject({
+      importance: BlobImportance.IMPORTANT,
+      reasons: ['image content', 'recently stored (2 epochs ago)']
+    });
+  });
+
+  it('clamps blobs outside a site between disposable and important', () => {
+    expect(scorer.score(blob({ contentType: 'text/html', createdEpoch: 10 }), { currentEpoch: 10 }).importance).toBe(BlobImportance.IMPORTANT);
+    expect(scorer.score(blob({ contentType: undefined, size: 10, endEpoch: 10 }), { currentEpoch: 10 }).importance).toBe(BlobImportance.DISPOSABLE);
+  });
+});
+
+describe('importance levels', () => {
+  it('parses level names case-insensitively', () => {
+    expect(parseImportance('LOW')).toBe(BlobImportance.LOW);
+    expect(() => parseImportance('urgent')).toThrow('Unknown importance level "urgent"');
+  });
+
+  it('orders levels from disposable to critical', () => {
+    expect(isAtOrBelow(BlobImportance.DISPOSABLE, BlobImportance.LOW)).toBe(true);
+    expect(isAtOrBelow(BlobImportance.LOW, BlobImportance.LOW)).toBe(true);
+    expect(isAtOrBelow(BlobImportance.CRITICAL, BlobImportance.IMPORTANT)).toBe(false);
+  });
+});
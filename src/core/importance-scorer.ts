@@ -0,0 +1,116 @@
+import { BlobInfo, BlobCategory, BlobImportance } from '../types/index.js';
+import { WalletTracker } from './wallet-tracker.js';
+
+export interface ImportanceContext {
+  siteResources?: Map<string, string>; // blob ID -> site object ID
+  siteDomains?: Map<string, string>;   // site object ID -> SuiNS domain
+  currentEpoch?: number;
+}
+
+export interface ImportanceAssessment {
+  importance: BlobImportance;
+  category: BlobCategory;
+  reasons: string[];
+}
+
+// Ordered from least to most important
+export const IMPORTANCE_ORDER: BlobImportance[] = [
+  BlobImportance.DISPOSABLE,
+  BlobImportance.LOW,
+  BlobImportance.NORMAL,
+  BlobImportance.IMPORTANT,
+  BlobImportance.CRITICAL
+];
+
+export function parseImportance(value: string): BlobImportance {
+  const importance = IMPORTANCE_ORDER.find(level => level === value.toLowerCase());
+  if (!importance) {
+    throw new Error(`Unknown importance level "${value}". Expected one of: ${IMPORTANCE_ORDER.join(', ')}`);
+  }
+  return importance;
+}
+
+export function isAtOrBelow(importance: BlobImportance, maxImportance: BlobImportance): boolean {
+  return IMPORTANCE_ORDER.indexOf(importance) <= IMPORTANCE_ORDER.indexOf(maxImportance);
+}
+
+const CATEGORY_BASELINE: Record<BlobCategory, BlobImportance> = {
+  [BlobCategory.WEBSITE]: BlobImportance.IMPORTANT,
+  [BlobCategory.DOCUMENT]: BlobImportance.NORMAL,
+  [BlobCategory.CODE]: BlobImportance.NORMAL,
+  [BlobCategory.DATA]: BlobImportance.NORMAL,
+  [BlobCategory.IMAGE]: BlobImportance.NORMAL,
+  [BlobCategory.VIDEO]: BlobImportance.NORMAL,
+  [BlobCategory.AUDIO]: BlobImportance.NORMAL,
+  [BlobCategory.ARCHIVE]: BlobImportance.LOW,
+  [BlobCategory.UNKNOWN]: BlobImportance.LOW
+};
+
+export class ImportanceScorer {
+  private static readonly TINY_BLOB_BYTES = 1024;
+  private static readonly EXPIRING_SOON_EPOCHS = 2;
+  private static readonly RECENT_EPOCHS = 3;
+
+  private walletTracker: WalletTracker;
+
+  constructor(walletTracker: WalletTracker) {
+    this.walletTracker = walletTracker;
+  }
+
+  score(blob: BlobInfo, context: ImportanceContext = {}): ImportanceAssessment {
+    const category = this.walletTracker.categorizeBlob(blob);
+    const reasons: string[] = [];
+
+    // Site membership always wins: deleting these breaks a live site
+    const siteId = context.siteResources?.get(blob.blobId);
+    if (siteId) {
+      const domain = context.siteDomains?.get(siteId);
+      if (domain) {
+        reasons.push(`resource of site ${siteId.slice(0, 10)}... linked to ${domain}`);
+        return { importance: BlobImportance.CRITICAL, category, reasons };
+      }
+      reasons.push(`resource of Walrus Site ${siteId.slice(0, 10)}...`);
+      return { importance: BlobImportance.IMPORTANT, category, reasons };
+    }
+
+    if (blob.isExpired) {
+      reasons.push(blob.endEpoch ? `expired at epoch ${blob.endEpoch}` : 'expired');
+      return { importance: BlobImportance.DISPOSABLE, category, reasons };
+    }
+
+    if (blob.size === 0) {
+      reasons.push('empty blob');
+      return { importance: BlobImportance.DISPOSABLE, category, reasons };
+    }
+
+    let level = IMPORTANCE_ORDER.indexOf(CATEGORY_BASELINE[category]);
+    reasons.push(category === BlobCategory.UNKNOWN ? 'unknown content type' : `${category} content`);
+
+    if (blob.size !== undefined && blob.size < ImportanceScorer.TINY_BLOB_BYTES) {
+      level--;
+      reasons.push(`tiny (${blob.size} bytes)`);
+    }
+
+    if (context.currentEpoch !== undefined && blob.endEpoch !== undefined) {
+      const remaining = blob.endEpoch - context.currentEpoch;
+      if (remaining <= ImportanceScorer.EXPIRING_SOON_EPOCHS) {
+        level--;
+        reasons.push(`expires in ${remaining} epoch${remaining === 1 ? '' : 's'}`);
+      }
+    }
+
+    if (context.currentEpoch !== undefined && blob.createdEpoch !== undefined) {
+      const age = context.currentEpoch - blob.createdEpoch;
+      if (age <= ImportanceScorer.RECENT_EPOCHS) {
+        level++;
+        reasons.push(`recently stored (${age} epoch${age === 1 ? '' : 's'} ago)`);
+      }
+    }
+
+    // Blobs outside a site never reach CRITICAL on content alone
+    const maxLevel = IMPORTANCE_ORDER.indexOf(BlobImportance.IMPORTANT);
+    level = Math.max(0, Math.min(level, maxLevel));
+
+    return { importance: IMPORTANCE_ORDER[level], category, reasons };
+  }
+}
@@ -0,0 +1,153 @@
+import { SuiClient } from '@mysten/sui.js/client';
+import { BlobInventory } from './blob-inventory.js';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { WalrusSystemQuery, isWalrusSiteType } from '../utils/walrus-system-query.js';
+import { iterateOwnedObjects, OwnedObjectsProgress } from '../utils/owned-objects.js';
+import { SystemStateReader } from '../utils/system-state.js';
+import { blobObjectType, resolveWalrusTypePackage } from '../utils/storage-resources.js';
+import { WALRUS_CONFIGS } from '../config/walrus.js';
+import { SiteResource } from '../types/index.js';
+
+export interface InventoryRefreshStats {
+  objectsScanned: number;
+  blobsAdded: number;
+  blobsUpdated: number;
+  blobsUnchanged: number;
+  sitesRefreshed: number;
+  sitesUnchanged: number;
+  objectsRemoved: number;
+}
+
+export class InventoryRefresher {
+  private suiClient: SuiClient;
+  private walrusClient: WalrusClient;
+  private systemQuery: WalrusSystemQuery;
+  private inventory: BlobInventory;
+  private network: 'mainnet' | 'testnet';
+  private systemState: SystemStateReader;
+
+  constructor(
+    inventory: BlobInventory,
+    suiRpcUrl: string,
+    aggregatorUrl?: string,
+    network: 'mainnet' | 'testnet' = 'mainnet'
+  ) {
+    this.inventory = inventory;
+    this.network = network;
+    this.suiClient = new SuiClient({ url: suiRpcUrl });
+    this.walrusClient = new WalrusClient(aggregatorUrl, suiRpcUrl);
+    this.walrusClient.setSystemObject(WALRUS_CONFIGS[network].systemObject);
+    this.systemQuery = new WalrusSystemQuery(suiRpcUrl, network);
+    this.systemState = new SystemStateReader(suiRpcUrl, WALRUS_CONFIGS[network]);
+  }
+
+  /**
+   * Re-index a wallet, fetching full contents only for objects whose
+   * version differs from what the inventory already holds.
+   */
+  async refresh(
+    walletAddress: string,
+    onProgress?: (progress: OwnedObjectsProgress) => void
+  ): Promise<InventoryRefreshStats> {
+    const stats: InventoryRefreshStats = {
+      objectsScanned: 0,
+      blobsAdded: 0,
+      blobsUpdated: 0,
+      blobsUnchanged: 0,
+      sitesRefreshed: 0,
+      sitesUnchanged: 0,
+      objectsRemoved: 0
+    };
+
+    // Expiry is recomputed on load, so a missing system state is not fatal here
+    try {
+      this.walrusClient.setCurrentEpoch((await this.systemState.getState()).epoch);
+    } catch (error) {
+      // leave blobs unmarked
+    }
+
+    // Only the Walrus Blob struct itself; other objects of the package or
+    // of unrelated packages with similar names are not indexed
+    const blobType = blobObjectType(await resolveWalrusTypePackage(this.suiClient, WALRUS_CONFIGS[this.network].systemObject));
+
+    const known = new Map<string, string>();
+    for (const stored of await this.inventory.getObjectVersions(this.network, walletAddress)) {
+      known.set(stored.objectId, stored.version);
+    }
+
+    const seen = new Set<string>();
+    const changedBlobs = new Map<string, string>(); // object ID -> version
+    const changedSites = new Map<string, string>();
+
+    // Only types and versions are requested here; contents are fetched for changed objects below
+    const ownedObjects = iterateOwnedObjects(this.suiClient, {
+      owner: walletAddress,
+      options: { showType: true }
+    }, onProgress);
+
+    for await (const obj of ownedObjects) {
+      stats.objectsScanned++;
+      if (!obj.data?.type) {
+        continue;
+      }
+
+      const { objectId, version, type } = obj.data;
+      const isSite = isWalrusSiteType(type, this.network);
+      if (!isSite && type !== blobType) {
+        continue;
+      }
+
+      seen.add(objectId);
+      const knownVersion = known.get(objectId);
+
+      if (knownVersion === version) {
+        if (isSite) {
+          stats.sitesUnchanged++;
+        } else {
+          stats.blobsUnchanged++;
+        }
+        continue;
+      }
+
+      if (isSite) {
+        changedSites.set(objectId, version);
+      } else {
+        changedBlobs.set(objectId, version);
+        if (knownVersion) {
+          stats.blobsUpdated++;
+        } else {
+          stats.blobsAdded++;
+        }
+      }
+    }
+
+    // Read every changed site before writing anything: a site stored
+    // without its resources would leave the blobs it serves unprotected,
+    // so an unreadable site fails the refresh and is retried next time
+    const siteResources = new Map<string, SiteResource[]>();
+    for (const siteObjectId of changedSites.keys()) {
+      siteResources.set(siteObjectId, await this.systemQuery.getSiteResources(siteObjectId));
+    }
+
+    const blobInfos = await this.walrusClient.getBlobsByObjectIds(Array.from(changedBlobs.keys()), walletAddress);
+    for (const blobInfo of blobInfos) {
+      const version = changedBlobs.get(blobInfo.suiObjectId || '');
+      if (version) {
+        await this.inventory.upsertBlob(this.network, walletAddress, blobInfo, version);
+      }
+    }
+
+    for (const [siteObjectId, version] of changedSites) {
+      await this.inventory.upsertSite(this.network, walletAddress, siteObjectId, version, siteResources.get(siteObjectId)!);
+      stats.sitesRefreshed++;
+    }
+
+    const removed = Array.from(known.keys()).filter(objectId => !seen.has(objectId));
+    await this.inventory.removeObjects(this.network, walletAddress, removed);
+    stats.objectsRemoved = removed.length;
+
+    await this.inventory.markRefreshed(this.network, walletAddress);
+
+    return stats;
+  }
+}
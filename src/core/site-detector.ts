@@ -1,6 +1,7 @@
 import { WalrusSite, SiteResource } from '../types/index.js';
 import { XMLParser } from 'fast-xml-parser';
 import JSZip from 'jszip';
+import { Quilt, readQuiltPatch } from '../utils/quilt.js';
 
 export interface SiteDetectionResult {
   isWalrusSite: boolean;
@@ -13,14 +14,18 @@ export interface SiteDetectionResult {
   };
 }
 
-export async function detectWalrusSite(content: Buffer, blobId: string): Promise<SiteDetectionResult> {
+/**
+ * Pass the decoded quilt when the blob is one, so its patches are analyzed
+ * as the site's files
+ */
+export async function detectWalrusSite(content: Buffer, blobId: string, quilt?: Quilt): Promise<SiteDetectionResult> {
   try {
     const result: SiteDetectionResult = {
       isWalrusSite: false
     };
 
-    if (await isZipBasedSite(content)) {
-      const siteInfo = await analyzeZipSite(content, blobId);
+    if (quilt || await isZipBasedSite(content)) {
+      const siteInfo = quilt ? analyzeQuiltSite(content, quilt, blobId) : await analyzeZipSite(content, blobId);
       if (siteInfo) {
         result.isWalrusSite = true;
         result.siteInfo = siteInfo;
@@ -114,6 +119,46 @@ async function analyzeZipSite(content: Buffer, blobId: string): Promise<WalrusSi
   }
 }
 
+function analyzeQuiltSite(content: Buffer, quilt: Quilt, blobId: string): WalrusSite | null {
+  const resources: SiteResource[] = [];
+  let hasIndexHtml = false;
+  let headers: Record<string, string> = {};
+  let siteName = '';
+
+  for (const patch of quilt.patches) {
+    const path = patch.identifier;
+    if (path === 'index.html' || path.endsWith('/index.html')) {
+      hasIndexHtml = true;
+      siteName = siteName || extractSiteTitle(readQuiltPatch(content, quilt, path).toString('utf8'));
+    }
+
+    if (path === '_headers' || path.endsWith('/_headers')) {
+      headers = parseHeaders(readQuiltPatch(content, quilt, path).toString('utf8'));
+    }
+
+    resources.push({
+      path,
+      blobId,
+      contentType: guessContentType(path),
+      size: patch.size
+    });
+  }
+
+  if (!hasIndexHtml) {
+    return null;
+  }
+
+  return {
+    objectId: '',
+    blobId,
+    name: siteName,
+    hasIndexHtml,
+    resources,
+    headers: Object.keys(headers).length > 0 ? headers : undefined,
+    isFileDirectory: false
+  };
+}
+
 function isSinglePageSite(content: Buffer): boolean {
   const text = content.toString('utf8');
   return text.includes('<!DOCTYPE html') || 
@@ -140,6 +185,52 @@ function analyzeSinglePageSite(content: Buffer, blobId: string): WalrusSite {
   };
 }
 
+export interface ExtractedLink {
+  url: string;
+  line: number;
+}
+
+/**
+ * Links an HTML or CSS resource refers to: href, src, srcset and poster
+ * attributes, CSS url() and @import. HTML is also searched for url() so
+ * inline styles are covered.
+ */
+export function extractLinks(content: string, kind: 'html' | 'css'): ExtractedLink[] {
+  const links: ExtractedLink[] = [];
+  const add = (url: string, index: number) => {
+    const trimmed = url.trim();
+    if (trimmed) {
+      links.push({ url: trimmed, line: content.slice(0, index).split('\n').length });
+    }
+  };
+
+  // Comments are blanked out rather than removed so line numbers still match
+  const text = kind === 'html' ? content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ' ')) : content;
+
+  if (kind === 'html') {
+    for (const match of text.matchAll(/\s(href|src|poster|srcset)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/gi)) {
+      const value = (match[3] ?? match[4] ?? match[5] ?? '').replace(/&amp;/g, '&');
+      if (match[1].toLowerCase() === 'srcset') {
+        // Candidates are "url descriptor" pairs separated by commas
+        value.split(',').forEach(candidate => add(candidate.trim().split(/\s+/)[0], match.index!));
+      } else {
+        add(value, match.index!);
+      }
+    }
+  }
+
+  for (const match of text.matchAll(/url\(\s*(?:"([^"]*)"|'([^']*)'|([^)\s]*))\s*\)/gi)) {
+    add(match[1] ?? match[2] ?? match[3] ?? '', match.index!);
+  }
+  if (kind === 'css') {
+    for (const match of text.matchAll(/@import\s+(?:"([^"]*)"|'([^']*)')/gi)) {
+      add(match[1] ?? match[2] ?? '', match.index!);
+    }
+  }
+
+  return links;
+}
+
 function extractSiteTitle(htmlContent: string): string {
   const titleMatch = htmlContent.match(/<title[^>]*>([^<]*)<\/title>/i);
   if (titleMatch) {
@@ -173,7 +264,7 @@ function parseHeaders(headersContent: string): Record<string, string> {
   return headers;
 }
 
-function guessContentType(path: string): string {
+export function guessContentType(path: string): string {
   const ext = path.split('.').pop()?.toLowerCase();
   
   const typeMap: Record<string, string> = {
@@ -0,0 +1,73 @@
+import { DecodedResource, DecodedSite } from '../utils/site-decoder.js';
+import { diffSites } from './site-diff.js';
+
+function resource(path: string, blobId: string, fields: Partial<DecodedResource> = {}): DecodedResource {
+  return { path, blobId, headers: { 'Content-Type': 'text/html' }, ...fields };
+}
+
+function site(objectId: string, resources: DecodedResource[], fields: Partial<DecodedSite> = {}): DecodedSite {
+  return { objectId, resources, routes: {}, ...fields };
+}
+
+describe('diffSites', () => {
+  it('lists added, removed and changed resources by path', () => {
+    const diff = diffSites(
+      site('0xa', [resource('/index.html', '0x1'), resource('/old.css', '0x2'), resource('/logo.png', '0x3')], { version: '4' }),
+      site('0xa', [resource('/index.html', '0x4'), resource('/logo.png', '0x3'), resource('/new.css', '0x2')], { version: '7' })
+    );
+
+    expect(diff.before).toEqual({ objectId: '0xa', version: '4' });
+    expect(diff.after).toEqual({ objectId: '0xa', version: '7' });
+    expect(diff.changes.map(change => [change.path, change.type, change.blobChanged])).toEqual([
+      ['/index.html', 'changed', true],
+      ['/new.css', 'added', true],
+      ['/old.css', 'removed', true]
+    ]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it('treats a different range of the same blob as a blob change', () => {
+    const diff = diffSites(
+      site('0xa', [resource('/a.js', '0x1', { range: { start: 0, end: 10 } })]),
+      site('0xa', [resource('/a.js', '0x1', { range: { start: 0, end: 12 } })])
+    );
+
+    expect(diff.changes).toHaveLength(1);
+    expect(diff.changes[0].blobChanged).toBe(true);
+  });
+
+  it('compares header names case-insensitively', () => {
+    const diff = diffSites(
+      site('0xa', [resource('/', '0x1', { headers: { 'Content-Type': 'text/html', 'Cache-Control': 'no-cache' } })]),
+      site('0xa', [resource('/', '0x1', { headers: { 'content-type': 'text/html', 'content-encoding': 'gzip' } })])
+    );
+
+    expect(diff.changes[0]).toMatchObject({ type: 'changed', blobChanged: false });
+    expect(diff.changes[0].headerChanges).toEqual([
+      { key: 'cache-control', before: 'no-cache', after: undefined },
+      { key: 'content-encoding', before: undefined, after: 'gzip' }
+    ]);
+  });
+
+  it('reports route and metadata changes', () => {
+    const diff = diffSites(
+      site('0xa', [], { name: 'Blog', routes: { '/posts/*': '/post.html', '/old': '/index.html' } }),
+      site('0xb', [], { name: 'Blog', description: 'Notes', routes: { '/posts/*': '/posts.html' } })
+    );
+
+    expect(diff.routeChanges).toEqual([
+      { key: '/old', before: '/index.html', after: undefined },
+      { key: '/posts/*', before: '/post.html', after: '/posts.html' }
+    ]);
+    expect(diff.metadataChanges).toEqual([{ key: 'description', before: undefined, after: 'Notes' }]);
+  });
+
+  it('lists blobs the new site no longer references', () => {
+    const diff = diffSites(
+      site('0xa', [resource('/a', '0x1'), resource('/b', '0x1'), resource('/c', '0x2'), resource('/d', '0x3')]),
+      site('0xa', [resource('/a', '0x1'), resource('/e', '0x3')])
+    );
+
+    expect(diff.unreferencedBlobIds).toEqual(['0x2']);
+  });
+});
@@ -0,0 +1,108 @@
+import { DecodedResource, DecodedSite } from '../utils/site-decoder.js';
+
+export interface ValueChange {
+  key: string;
+  before?: string;
+  after?: string;
+}
+
+export interface ResourceChange {
+  path: string;
+  type: 'added' | 'removed' | 'changed';
+  before?: DecodedResource;
+  after?: DecodedResource;
+  blobChanged: boolean; // blob ID, blob hash or range differ
+  headerChanges: ValueChange[];
+}
+
+export interface SiteDiff {
+  before: { objectId: string; version?: string };
+  after: { objectId: string; version?: string };
+  changes: ResourceChange[];
+  unchangedCount: number;
+  routeChanges: ValueChange[];
+  metadataChanges: ValueChange[];
+  // Blobs the first site references and the second no longer does: cleanup candidates
+  unreferencedBlobIds: string[];
+}
+
+/**
+ * Compares two sites, or two revisions of one site, resource by resource
+ */
+export function diffSites(before: DecodedSite, after: DecodedSite): SiteDiff {
+  const beforeByPath = new Map(before.resources.map(resource => [resource.path, resource]));
+  const afterByPath = new Map(after.resources.map(resource => [resource.path, resource]));
+  const paths = [...new Set([...beforeByPath.keys(), ...afterByPath.keys()])].sort();
+
+  const changes: ResourceChange[] = [];
+  let unchangedCount = 0;
+  for (const path of paths) {
+    const old = beforeByPath.get(path);
+    const current = afterByPath.get(path);
+
+    if (!old || !current) {
+      changes.push({
+        path,
+        type: old ? 'removed' : 'added',
+        before: old,
+        after: current,
+        blobChanged: true,
+        headerChanges: []
+      });
+      continue;
+    }
+
+    const blobChanged = old.blobId !== current.blobId ||
+      old.blobHash !== current.blobHash ||
+      old.range?.start !== current.range?.start ||
+      old.range?.end !== current.range?.end;
+    const headerChanges = diffRecords(old.headers, current.headers, true);
+
+    if (blobChanged || headerChanges.length > 0) {
+      changes.push({ path, type: 'changed', before: old, after: current, blobChanged, headerChanges });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  const stillReferenced = new Set(after.resources.map(resource => resource.blobId));
+  const unreferencedBlobIds = [...new Set(before.resources.map(resource => resource.blobId))]
+    .filter(blobId => !stillReferenced.has(blobId));
+
+  const metadata = (site: DecodedSite): Record<string, string> => Object.fromEntries(
+    Object.entries({
+      name: site.name,
+      link: site.link,
+      image_url: site.imageUrl,
+      description: site.description,
+      project_url: site.projectUrl,
+      creator: site.creator
+    }).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+
+  return {
+    before: { objectId: before.objectId, version: before.version },
+    after: { objectId: after.objectId, version: after.version },
+    changes,
+    unchangedCount,
+    routeChanges: diffRecords(before.routes, after.routes),
+    metadataChanges: diffRecords(metadata(before), metadata(after)),
+    unreferencedBlobIds
+  };
+}
+
+/**
+ * Keys whose values differ; header names are compared case-insensitively,
+ * as HTTP does
+ */
+function diffRecords(before: Record<string, string>, after: Record<string, string>, ignoreCase = false): ValueChange[] {
+  const normalize = (record: Record<string, string>) =>
+    new Map(Object.entries(record).map(([key, value]) => [ignoreCase ? key.toLowerCase() : key, value]));
+  const old = normalize(before);
+  const current = normalize(after);
+
+  return [...new Set([...old.keys(), ...current.keys()])]
+    .sort()
+    .filter(key => old.get(key) !== current.get(key))
+    .map(key => ({ key, before: old.get(key), after: current.get(key) }));
+}
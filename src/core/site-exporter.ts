@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { DecodedSite, resourceContent } from '../utils/site-decoder.js';
+import { QUILT_PATCH_HEADER } from '../utils/quilt.js';
+
+// Read by the Walrus site-builder when the directory is deployed again
+export const WS_RESOURCES_FILE = 'ws-resources.json';
+
+export interface WsResources {
+  headers: Record<string, Record<string, string>>;
+  routes?: Record<string, string>;
+  metadata?: Record<string, string>;
+  site_name?: string;
+}
+
+export interface ExportedResource {
+  path: string;
+  blobId: string;
+  file: string; // relative to the export directory
+  size: number;
+}
+
+export interface SiteExportResult {
+  wsResourcesPath: string;
+  exported: ExportedResource[];
+  failed: { path: string; blobId: string; error: string }[];
+}
+
+/**
+ * Writes a site's resources to a directory laid out by resource path,
+ * with a ws-resources.json carrying the headers, routes and metadata
+ */
+export class SiteExporter {
+  private walrusClient: WalrusClient;
+
+  constructor(walrusClient: WalrusClient) {
+    this.walrusClient = walrusClient;
+  }
+
+  async export(
+    site: DecodedSite,
+    dir: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<SiteExportResult> {
+    fs.mkdirSync(dir, { recursive: true });
+
+    const exported: ExportedResource[] = [];
+    const failed: { path: string; blobId: string; error: string }[] = [];
+    // Several resources can be ranges of the same blob
+    const blobs = new Map<string, Buffer>();
+
+    for (const resource of site.resources) {
+      try {
+        const file = resourceFile(dir, resource.path);
+        if (file === WS_RESOURCES_FILE) {
+          throw new Error(`Resource ${resource.path} collides with the generated ${WS_RESOURCES_FILE}`);
+        }
+        if (!blobs.has(resource.blobId)) {
+          blobs.set(resource.blobId, await this.walrusClient.readBlob(resource.blobId));
+        }
+        const content = resourceContent(blobs.get(resource.blobId)!, resource);
+
+        const target = path.join(dir, file);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, content);
+        exported.push({ path: resource.path, blobId: resource.blobId, file, size: content.length });
+      } catch (error) {
+        failed.push({ path: resource.path, blobId: resource.blobId, error: error instanceof Error ? error.message : String(error) });
+      }
+      onProgress?.(exported.length + failed.length, site.resources.length);
+    }
+
+    const wsResourcesPath = path.join(dir, WS_RESOURCES_FILE);
+    fs.writeFileSync(wsResourcesPath, JSON.stringify(toWsResources(site), null, 2));
+
+    return { wsResourcesPath, exported, failed };
+  }
+}
+
+export function toWsResources(site: DecodedSite): WsResources {
+  // The quilt patch ID is assigned on upload, not configured
+  const configuredHeaders = (headers: Record<string, string>) =>
+    Object.fromEntries(Object.entries(headers).filter(([key]) => key.toLowerCase() !== QUILT_PATCH_HEADER));
+
+  const wsResources: WsResources = {
+    headers: Object.fromEntries(
+      site.resources
+        .map(resource => [resource.path, configuredHeaders(resource.headers)] as const)
+        .filter(([, headers]) => Object.keys(headers).length > 0)
+    )
+  };
+
+  if (Object.keys(site.routes).length > 0) {
+    wsResources.routes = site.routes;
+  }
+
+  const metadata = Object.entries({
+    link: site.link,
+    image_url: site.imageUrl,
+    description: site.description,
+    project_url: site.projectUrl,
+    creator: site.creator
+  }).filter((entry): entry is [string, string] => entry[1] !== undefined);
+  if (metadata.length > 0) {
+    wsResources.metadata = Object.fromEntries(metadata);
+  }
+
+  if (site.name) {
+    wsResources.site_name = site.name;
+  }
+
+  return wsResources;
+}
+
+/**
+ * File for a resource path, relative to the export directory. Paths come
+ * from chain data, so any that would land outside it are rejected.
+ */
+function resourceFile(dir: string, resourcePath: string): string {
+  const root = path.resolve(dir);
+  const file = path.resolve(root, resourcePath.replace(/^\/+/, ''));
+  if (!file.startsWith(root + path.sep)) {
+    throw new Error(`Refusing to write resource path ${resourcePath}`);
+  }
+  return path.relative(root, file);
+}
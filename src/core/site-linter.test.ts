@@ -0,0 +1,97 @@
+import { BlobInfo } from '../types/index.js';
+import { DecodedResource, DecodedSite } from '../utils/site-decoder.js';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { SiteLinter, resolvePath } from './site-linter.js';
+
+const AVAILABLE = 'A'.repeat(43);
+const GONE = 'B'.repeat(43);
+
+const PAGE = `<html>
+<link href="/style.css" rel="stylesheet">
+<a href="about">About</a>
+<a href="/posts/42">Post</a>
+<img src="/missing.png">
+<a href="mailto:me@example.com">Mail</a>
+<!-- <a href="/commented-out.html"> -->
+<img src="https://aggregator.example/v1/blobs/${AVAILABLE}">
+<img src="https://aggregator.example/v1/${GONE}">
+<a href="https://example.com/elsewhere">Elsewhere</a>
+</html>`;
+
+const STYLE = `body { background: url('img/bg.png'); }`;
+
+function resource(path: string, blobId: string, contentType?: string): DecodedResource {
+  return { path, blobId, headers: contentType ? { 'Content-Type': contentType } : {} };
+}
+
+const SITE: DecodedSite = {
+  objectId: '0xsite',
+  resources: [
+    resource('/index.html', '0xpage'),
+    resource('/style.css', '0xstyle', 'text/css'),
+    resource('/about/index.html', '0xabout', 'text/plain'),
+    resource('/post.html', '0xpost', 'application/octet-stream'),
+    resource('/img/bg.png', '0xold')
+  ],
+  routes: { '/posts/*': '/post.html' }
+};
+
+function linter(contents: Record<string, string>): SiteLinter {
+  const client = {
+    readBlob: async (blobId: string) => {
+      if (!(blobId in contents)) throw new Error(`no blob ${blobId}`);
+      return Buffer.from(contents[blobId]);
+    },
+    blobExists: async (blobId: string) => blobId === AVAILABLE
+  };
+  return new SiteLinter(client as unknown as WalrusClient);
+}
+
+function blob(blobId: string, endEpoch: number): BlobInfo {
+  return { blobId, endEpoch, isExpired: false };
+}
+
+describe('SiteLinter', () => {
+  it('reports missing paths, expired resources and unavailable blobs', async () => {
+    const result = await linter({ '0xpage': PAGE, '0xstyle': STYLE })
+      .lint(SITE, [blob('0xold', 10), blob('0xpage', 30)], 20);
+
+    expect(result).toMatchObject({ objectId: '0xsite', checkedResources: 2, checkedLinks: 8 });
+    expect(result.issues.map(issue => [issue.resourcePath, issue.link, issue.line, issue.kind])).toEqual([
+      ['/index.html', '/missing.png', 5, 'missing'],
+      ['/index.html', `https://aggregator.example/v1/${GONE}`, 9, 'unavailable'],
+      ['/style.css', 'img/bg.png', 1, 'expired']
+    ]);
+  });
+
+  it('does not call a blob expired while another Blob object keeps it alive', async () => {
+    const result = await linter({ '0xpage': PAGE, '0xstyle': STYLE })
+      .lint(SITE, [blob('0xold', 10), blob('0xold', 40)], 20);
+
+    expect(result.issues.map(issue => issue.kind)).not.toContain('expired');
+  });
+
+  it('flags documents it cannot read', async () => {
+    const result = await linter({ '0xpage': PAGE }).lint(SITE, []);
+
+    expect(result.issues.find(issue => issue.kind === 'unreadable')).toMatchObject({ resourcePath: '/style.css', link: '/style.css' });
+  });
+});
+
+describe('resolvePath', () => {
+  const byPath = new Map(SITE.resources.map(item => [item.path, item]));
+  const routes = { '/posts/*': '/post.html', '/posts/latest': '/index.html', '/docs': '/about/index.html' };
+
+  it('serves a path, then its index.html', () => {
+    expect(resolvePath('/style.css', byPath, routes)?.blobId).toBe('0xstyle');
+    expect(resolvePath('/about', byPath, routes)?.blobId).toBe('0xabout');
+    expect(resolvePath('/about/', byPath, routes)?.blobId).toBe('0xabout');
+  });
+
+  it('falls back to the longest matching route', () => {
+    expect(resolvePath('/posts/latest', byPath, routes)?.blobId).toBe('0xpage');
+    expect(resolvePath('/posts/7', byPath, routes)?.blobId).toBe('0xpost');
+    expect(resolvePath('/docs', byPath, routes)?.blobId).toBe('0xabout');
+    expect(resolvePath('/docs/intro', byPath, routes)).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import { BlobInfo } from '../types/index.js';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { DecodedResource, DecodedSite, resourceContent } from '../utils/site-decoder.js';
+import { isExpiredAt } from '../utils/system-state.js';
+import { extractLinks, guessContentType } from './site-detector.js';
+
+export type LinkIssueKind = 'missing' | 'expired' | 'unavailable' | 'unreadable';
+
+export interface LinkIssue {
+  resourcePath: string; // the HTML or CSS resource containing the link
+  link: string;
+  line?: number;
+  kind: LinkIssueKind;
+  detail: string;
+}
+
+export interface SiteLintResult {
+  objectId: string;
+  checkedResources: number;
+  checkedLinks: number;
+  issues: LinkIssue[];
+}
+
+// Links that never point at a site resource or a blob
+const IGNORED_SCHEMES = /^(#|mailto:|tel:|javascript:|data:|blob:|about:)/i;
+
+// Aggregator reads: /v1/<blob ID> or /v1/blobs/<blob ID>, with a base64url blob ID
+const AGGREGATOR_PATH = /\/v1\/(?:blobs\/)?([A-Za-z0-9_-]{43})(?:[/?#]|$)/;
+
+// Base for resolving links; only the path of the result is used
+const SITE_ORIGIN = 'https://site.invalid';
+
+/**
+ * Resolves every link in a site's HTML and CSS resources against its
+ * resource paths and routes, the way a Walrus portal serves them
+ */
+export class SiteLinter {
+  private walrusClient: WalrusClient;
+
+  constructor(walrusClient: WalrusClient) {
+    this.walrusClient = walrusClient;
+  }
+
+  /**
+   * blobs are the Blob objects the site's resources are stored in, used to
+   * flag links to expired resources
+   */
+  async lint(
+    site: DecodedSite,
+    blobs: BlobInfo[],
+    currentEpoch?: number,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<SiteLintResult> {
+    const byPath = new Map(site.resources.map(resource => [resource.path, resource]));
+    // A blob is expired when it has Blob objects and all of them are expired
+    const expired = (blob: BlobInfo) =>
+      currentEpoch !== undefined && blob.endEpoch !== undefined && isExpiredAt(blob.endEpoch, currentEpoch);
+    const liveBlobs = new Set(blobs.filter(blob => !expired(blob)).map(blob => blob.blobId));
+    const expiredBlobs = new Set(blobs.filter(blob => expired(blob) && !liveBlobs.has(blob.blobId)).map(blob => blob.blobId));
+
+    const documents = site.resources.filter(resource => documentKind(resource) !== undefined);
+    const availability = new Map<string, Promise<boolean>>();
+    const issues: LinkIssue[] = [];
+    let checkedLinks = 0;
+
+    for (const [index, resource] of documents.entries()) {
+      let text: string;
+      try {
+        text = resourceContent(await this.walrusClient.readBlob(resource.blobId), resource).toString('utf8');
+      } catch (error) {
+        issues.push({ resourcePath: resource.path, link: resource.path, kind: 'unreadable', detail: `Could not read the resource: ${error}` });
+        onProgress?.(index + 1, documents.length);
+        continue;
+      }
+
+      for (const { url, line } of extractLinks(text, documentKind(resource)!)) {
+        if (IGNORED_SCHEMES.test(url)) continue;
+        checkedLinks++;
+
+        const issue = { resourcePath: resource.path, link: url, line };
+        if (/^([a-z][a-z0-9+.-]*:)?\/\//i.test(url)) {
+          // External links only matter when they read a blob from an aggregator
+          const blobId = url.match(AGGREGATOR_PATH)?.[1];
+          if (!blobId) continue;
+          if (!availability.has(blobId)) {
+            availability.set(blobId, this.walrusClient.blobExists(blobId));
+          }
+          if (!await availability.get(blobId)) {
+            issues.push({ ...issue, kind: 'unavailable', detail: `Blob ${blobId} is not available from the aggregator` });
+          }
+          continue;
+        }
+
+        let target: string;
+        try {
+          target = decodeURIComponent(new URL(url, SITE_ORIGIN + resource.path).pathname);
+        } catch {
+          issues.push({ ...issue, kind: 'missing', detail: 'Not a valid URL' });
+          continue;
+        }
+
+        const served = resolvePath(target, byPath, site.routes);
+        if (!served) {
+          issues.push({ ...issue, kind: 'missing', detail: `No resource or route serves ${target}` });
+        } else if (expiredBlobs.has(served.blobId)) {
+          issues.push({ ...issue, kind: 'expired', detail: `${served.path} is stored in expired blob ${served.blobId}` });
+        }
+      }
+      onProgress?.(index + 1, documents.length);
+    }
+
+    return { objectId: site.objectId, checkedResources: documents.length, checkedLinks, issues };
+  }
+}
+
+function documentKind(resource: DecodedResource): 'html' | 'css' | undefined {
+  const contentType = Object.entries(resource.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1]
+    || guessContentType(resource.path);
+  if (contentType.startsWith('text/html')) return 'html';
+  if (contentType.startsWith('text/css')) return 'css';
+  return undefined;
+}
+
+/**
+ * The resource a portal serves for a path: the path itself, its
+ * index.html, or the target of the longest matching route
+ */
+export function resolvePath(
+  target: string,
+  byPath: Map<string, DecodedResource>,
+  routes: Record<string, string>
+): DecodedResource | undefined {
+  const direct = byPath.get(target) ||
+    byPath.get(target.endsWith('/') ? `${target}index.html` : `${target}/index.html`);
+  if (direct) {
+    return direct;
+  }
+
+  // Routes are path patterns with an optional trailing * wildcard
+  const route = Object.keys(routes)
+    .filter(pattern => pattern.endsWith('*') ? target.startsWith(pattern.slice(0, -1)) : target === pattern)
+    .sort((a, b) => b.length - a.length)[0];
+  return route !== undefined ? byPath.get(routes[route]) : undefined;
+}
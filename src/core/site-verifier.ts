@@ -0,0 +1,141 @@
+import { createHash } from 'crypto';
+import { BlobInfo } from '../types/index.js';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { DecodedResource, DecodedSite, resourceContent } from '../utils/site-decoder.js';
+import { blobIdFromBytes } from '../utils/blob-id.js';
+import { isExpiredAt } from '../utils/system-state.js';
+
+export type CheckStatus = 'pass' | 'fail' | 'skip';
+
+export interface ResourceCheck {
+  status: CheckStatus;
+  detail?: string;
+}
+
+export interface ResourceVerification {
+  path: string;
+  blobId: string;
+  passed: boolean;
+  checks: {
+    served: ResourceCheck; // the aggregator returns the blob
+    hash: ResourceCheck; // the content matches the resource's blob hash
+    certified: ResourceCheck;
+    unexpired: ResourceCheck;
+  };
+}
+
+export interface SiteVerification {
+  objectId: string;
+  currentEpoch?: number;
+  resources: ResourceVerification[];
+  failedCount: number;
+}
+
+/**
+ * Checks every resource of a site against its on-chain record: the
+ * aggregator serves the blob, the served bytes hash to the recorded blob
+ * hash, and the Blob object is certified and not expired.
+ */
+export class SiteVerifier {
+  private walrusClient: WalrusClient;
+
+  constructor(walrusClient: WalrusClient) {
+    this.walrusClient = walrusClient;
+  }
+
+  /**
+   * blobs are the Blob objects the site's resources may be stored in,
+   * usually those of the site owner
+   */
+  async verify(
+    site: DecodedSite,
+    blobs: BlobInfo[],
+    currentEpoch?: number,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<SiteVerification> {
+    // The same blob can be stored by several Blob objects; judge by the best one
+    const blobsById = new Map<string, BlobInfo>();
+    for (const blob of blobs) {
+      const current = blobsById.get(blob.blobId);
+      if (!current || rankBlob(blob) > rankBlob(current)) {
+        blobsById.set(blob.blobId, blob);
+      }
+    }
+    const contents = new Map<string, Promise<Buffer>>();
+    const resources: ResourceVerification[] = [];
+
+    for (const resource of site.resources) {
+      if (!contents.has(resource.blobId)) {
+        contents.set(resource.blobId, this.walrusClient.readBlob(resource.blobId));
+      }
+
+      let served: ResourceCheck;
+      let hash: ResourceCheck;
+      try {
+        const content = resourceContent(await contents.get(resource.blobId)!, resource);
+        served = { status: 'pass', detail: `${content.length} bytes` };
+        hash = checkHash(resource, content);
+      } catch (error) {
+        served = { status: 'fail', detail: error instanceof Error ? error.message : String(error) };
+        hash = { status: 'skip', detail: 'content not available' };
+      }
+
+      const { certified, unexpired } = checkBlob(blobsById.get(resource.blobId), currentEpoch);
+      const checks = { served, hash, certified, unexpired };
+      resources.push({
+        path: resource.path,
+        blobId: resource.blobId,
+        passed: Object.values(checks).every(check => check.status !== 'fail'),
+        checks
+      });
+      onProgress?.(resources.length, site.resources.length);
+    }
+
+    return {
+      objectId: site.objectId,
+      currentEpoch,
+      resources,
+      failedCount: resources.filter(resource => !resource.passed).length
+    };
+  }
+}
+
+/**
+ * The site-builder records SHA-256 of the resource content as a
+ * little-endian u256
+ */
+function checkHash(resource: DecodedResource, content: Buffer): ResourceCheck {
+  if (!resource.blobHash) {
+    return { status: 'skip', detail: 'no blob hash recorded' };
+  }
+  const actual = blobIdFromBytes(createHash('sha256').update(content).digest());
+  return actual === resource.blobHash
+    ? { status: 'pass' }
+    : { status: 'fail', detail: `content hashes to ${actual}` };
+}
+
+function rankBlob(blob: BlobInfo): number {
+  return (blob.certifiedEpoch !== undefined ? 1e9 : 0) + (blob.endEpoch ?? 0);
+}
+
+function checkBlob(blob: BlobInfo | undefined, currentEpoch?: number): { certified: ResourceCheck; unexpired: ResourceCheck } {
+  if (!blob) {
+    const missing: ResourceCheck = { status: 'fail', detail: 'no Blob object found for this blob ID' };
+    return { certified: missing, unexpired: missing };
+  }
+
+  const certified: ResourceCheck = blob.certifiedEpoch !== undefined
+    ? { status: 'pass', detail: `certified in epoch ${blob.certifiedEpoch}` }
+    : { status: 'fail', detail: 'registered but never certified' };
+
+  let unexpired: ResourceCheck;
+  if (blob.endEpoch === undefined || currentEpoch === undefined) {
+    unexpired = { status: 'skip', detail: 'end epoch or current epoch unknown' };
+  } else if (isExpiredAt(blob.endEpoch, currentEpoch)) {
+    unexpired = { status: 'fail', detail: `expired at epoch ${blob.endEpoch}` };
+  } else {
+    unexpired = { status: 'pass', detail: `stored until epoch ${blob.endEpoch}` };
+  }
+
+  return { certified, unexpired };
+}
@@ -0,0 +1,97 @@
+import { SuiClient, SuiObjectResponse } from '@mysten/sui.js/client';
+import { TransactionBlock } from '@mysten/sui.js/transactions';
+import { Signer } from '../utils/signer.js';
+import { resolveWalrusPackageId } from '../utils/deletion-transaction.js';
+import {
+  StorageResource,
+  buildFuseTransaction,
+  buildSplitTransaction,
+  parseStorageResource,
+  planFuse
+} from '../utils/storage-resources.js';
+
+export interface StorageChange {
+  transactionHash: string;
+  createdObjectIds: string[];
+}
+
+/**
+ * Fuses and splits the signer's Walrus Storage resources
+ */
+export class StorageManager {
+  private suiClient: SuiClient;
+  private systemObjectId: string;
+  private signer: Signer;
+  private packageId?: string;
+
+  constructor(suiRpcUrl: string, systemObjectId: string, signer: Signer) {
+    this.suiClient = new SuiClient({ url: suiRpcUrl });
+    this.systemObjectId = systemObjectId;
+    this.signer = signer;
+  }
+
+  async getResources(objectIds: string[]): Promise<StorageResource[]> {
+    // multiGetObjects accepts at most 50 IDs per request
+    const responses: SuiObjectResponse[] = [];
+    for (let i = 0; i < objectIds.length; i += 50) {
+      responses.push(...await this.suiClient.multiGetObjects({ ids: objectIds.slice(i, i + 50), options: { showContent: true } }));
+    }
+    return objectIds.map((objectId, index) => {
+      const resource = parseStorageResource(responses[index]);
+      if (!resource) {
+        throw new Error(`${objectId} is not a Storage resource`);
+      }
+      return resource;
+    });
+  }
+
+  async fuse(objectIds: string[]): Promise<StorageChange> {
+    const resources = await this.getResources(objectIds);
+    const { error } = planFuse(resources);
+    if (error) {
+      throw new Error(`Cannot fuse: ${error}`);
+    }
+
+    // Fusing in start-epoch order keeps every step contiguous
+    const ordered = [...resources].sort((a, b) => a.startEpoch - b.startEpoch).map(resource => resource.objectId);
+    return this.execute(buildFuseTransaction(await this.getPackageId(), ordered, this.signer.getAddress()));
+  }
+
+  async split(objectId: string, split: { epoch: number } | { size: number }): Promise<StorageChange> {
+    const [resource] = await this.getResources([objectId]);
+    if ('epoch' in split && (split.epoch <= resource.startEpoch || split.epoch >= resource.endEpoch)) {
+      throw new Error(`Split epoch must be between ${resource.startEpoch} and ${resource.endEpoch}, exclusive`);
+    }
+    if ('size' in split && (split.size <= 0 || split.size >= resource.storageSize)) {
+      throw new Error(`Split size must be between 0 and ${resource.storageSize} bytes, exclusive`);
+    }
+
+    return this.execute(buildSplitTransaction(await this.getPackageId(), objectId, split, this.signer.getAddress()));
+  }
+
+  private async getPackageId(): Promise<string> {
+    this.packageId ??= await resolveWalrusPackageId(this.suiClient, this.systemObjectId);
+    return this.packageId;
+  }
+
+  private async execute(tx: TransactionBlock): Promise<StorageChange> {
+    try {
+      const txBytes = await tx.build({ client: this.suiClient });
+      const response = await this.suiClient.executeTransactionBlock({
+        transactionBlock: txBytes,
+        signature: await this.signer.signTransaction(txBytes),
+        options: { showEffects: true },
+        requestType: 'WaitForLocalExecution'
+      });
+      if (response.effects?.status.status !== 'success') {
+        throw new Error(response.effects?.status.error || 'Transaction failed');
+      }
+      return {
+        transactionHash: response.digest,
+        createdObjectIds: (response.effects.created || []).map(ref => ref.reference.objectId)
+      };
+    } catch (error) {
+      throw new Error(`Failed to update Storage resources: ${error}`);
+    }
+  }
+}
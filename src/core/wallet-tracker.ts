@@ -1,25 +1,56 @@
 import { SuiClient } from '@mysten/sui.js/client';
-import { BlobInfo, WalletBlobSummary, BlobCategory } from '../types/index.js';
-import { WalrusClient } from '../utils/walrus-client.js';
+import { BlobInfo, WalletBlobSummary, BlobCategory, QuiltPatchInfo } from '../types/index.js';
+import { WalrusClient, WalletScanProgress } from '../utils/walrus-client.js';
+import { iterateOwnedObjects } from '../utils/owned-objects.js';
+import { SNIFF_PREFIX_LENGTH, isGenericContentType, sniffContent } from '../utils/content-sniffer.js';
+import { mayBeQuilt } from '../utils/quilt.js';
+import { BlobReader } from './blob-reader.js';
+import { StorageResource, parseStorageResource, resolveWalrusTypePackage, storageResourceType } from '../utils/storage-resources.js';
 
 export class WalletTracker {
   private suiClient: SuiClient;
   private walrusClient: WalrusClient;
+  private blobReader: BlobReader;
+  private nShards?: number;
 
   constructor(suiRpcUrl: string, aggregatorUrl?: string) {
     this.suiClient = new SuiClient({ url: suiRpcUrl });
     this.walrusClient = new WalrusClient(aggregatorUrl, suiRpcUrl);
+    this.blobReader = new BlobReader(aggregatorUrl);
   }
 
-  async getWalletBlobSummary(walletAddress: string): Promise<WalletBlobSummary> {
-    const blobs = await this.walrusClient.listBlobsForWallet(walletAddress);
-    return this.getWalletBlobSummaryFromBlobs(walletAddress, blobs);
+  /**
+   * The quilt layout depends on the committee's shard count
+   */
+  setShardCount(nShards: number): void {
+    this.nShards = nShards;
+    this.blobReader.setShardCount(nShards);
+  }
+
+  async getWalletBlobSummary(
+    walletAddress: string,
+    onProgress?: (progress: WalletScanProgress) => void
+  ): Promise<WalletBlobSummary> {
+    // Stream the wallet page by page so large wallets never sit in memory at once
+    const summary = this.createEmptySummary(walletAddress);
+    for await (const blob of this.walrusClient.iterateWalletBlobs(walletAddress, onProgress)) {
+      this.addBlobToSummary(summary, blob);
+    }
+    return summary;
   }
   
   async getWalletBlobSummaryFromBlobs(walletAddress: string, blobs: BlobInfo[]): Promise<WalletBlobSummary> {
-    const summary: WalletBlobSummary = {
+    const summary = this.createEmptySummary(walletAddress);
+    for (const blob of blobs) {
+      this.addBlobToSummary(summary, blob);
+    }
+    return summary;
+  }
+
+  private createEmptySummary(walletAddress: string): WalletBlobSummary {
+    return {
       address: walletAddress,
-      totalBlobs: blobs.length,
+      totalBlobs: 0,
       totalSize: 0,
       totalCost: 0,
       categories: {
@@ -39,34 +70,33 @@ export class WalletTracker {
       websites: 0,
       expiredBlobs: 0
     };
+  }
 
-    for (const blob of blobs) {
-      const size = blob.size || 0;
-      summary.totalSize += size;
-      
-      if (blob.storageRebate) {
-        summary.totalCost += blob.storageRebate;
-      }
+  private addBlobToSummary(summary: WalletBlobSummary, blob: BlobInfo): void {
+    const size = blob.size || 0;
+    summary.totalBlobs++;
+    summary.totalSize += size;
+    
+    if (blob.storageRebate) {
+      summary.totalCost += blob.storageRebate;
+    }
 
-      if (blob.isExpired) {
-        summary.expiredBlobs++;
-      }
+    if (blob.isExpired) {
+      summary.expiredBlobs++;
+    }
 
-      if (blob.isDeletable) {
-        summary.deletableBlobs++;
-        summary.deletableSize += size;
-        summary.potentialSavings += blob.storageRebate || 0;
-      }
+    if (blob.isDeletable) {
+      summary.deletableBlobs++;
+      summary.deletableSize += size;
+      summary.potentialSavings += blob.storageRebate || 0;
+    }
 
-      const category = this.categorizeBlob(blob);
-      summary.categories[category]++;
+    const category = this.categorizeBlob(blob);
+    summary.categories[category]++;
 
-      if (category === BlobCategory.WEBSITE) {
-        summary.websites++;
-      }
+    if (category === BlobCategory.WEBSITE) {
+      summary.websites++;
     }
-
-    return summary;
   }
 
   async validateWalletAddress(address: string): Promise<boolean> {
@@ -119,35 +149,87 @@ export class WalletTracker {
     }
   }
 
-  async getStorageObjects(walletAddress: string): Promise<any[]> {
+  async getStorageObjects(walletAddress: string, systemObjectId: string): Promise<StorageResource[]> {
+    const storageObjects: StorageResource[] = [];
+    for await (const resource of this.iterateStorageObjects(walletAddress, systemObjectId)) {
+      storageObjects.push(resource);
+    }
+    return storageObjects;
+  }
+
+  /**
+   * Storage resources the wallet holds outside any Blob, such as those
+   * returned by deleting a blob
+   */
+  async *iterateStorageObjects(walletAddress: string, systemObjectId: string): AsyncGenerator<StorageResource> {
     try {
-      const ownedObjects = await this.suiClient.getOwnedObjects({
+      const typePackage = await resolveWalrusTypePackage(this.suiClient, systemObjectId);
+      const ownedObjects = iterateOwnedObjects(this.suiClient, {
         owner: walletAddress,
-        filter: {
-          MatchAny: [
-            { StructType: 'walrus::storage::BlobObject' },
-            { StructType: 'walrus_site::site::Site' }
-          ]
-        },
+        filter: { StructType: storageResourceType(typePackage) },
         options: {
           showContent: true,
           showType: true
         }
       });
 
-      return ownedObjects.data.filter(obj => obj.data !== null);
+      for await (const obj of ownedObjects) {
+        const resource = parseStorageResource(obj);
+        if (resource) {
+          yield resource;
+        }
+      }
     } catch (error) {
-      console.error('Error getting storage objects:', error);
-      return [];
+      throw new Error(`Failed to list Storage resources for ${walletAddress}: ${error}`);
+    }
+  }
+
+  /**
+   * Sets sniffedContentType on blobs the aggregator serves with a missing
+   * or generic content type, from their leading bytes, and quiltPatches on
+   * those that turn out to be quilts. Expired blobs and blobs that cannot
+   * be read are left alone. Returns the blobs that were updated.
+   */
+  async sniffContentTypes(
+    blobs: BlobInfo[],
+    onProgress?: (done: number, total: number) => void
+  ): Promise<BlobInfo[]> {
+    const candidates = blobs.filter(blob => !blob.isExpired && !blob.sniffedContentType && !blob.quiltPatches && isGenericContentType(blob.contentType));
+    const sniffed: BlobInfo[] = [];
+
+    for (const [index, blob] of candidates.entries()) {
+      try {
+        const prefix = await this.walrusClient.readBlobPrefix(blob.blobId, SNIFF_PREFIX_LENGTH);
+        blob.sniffedContentType = sniffContent(prefix).contentType;
+        // The quilt index is spread over columns, so it needs the whole blob
+        if (blob.size !== undefined && mayBeQuilt(prefix, blob.size, this.nShards)) {
+          const quilt = await this.blobReader.readQuilt(blob.blobId);
+          if (quilt) {
+            blob.quiltPatches = this.blobReader.describeQuiltPatches(quilt.content, quilt.quilt);
+          }
+        }
+        sniffed.push(blob);
+      } catch {
+        // Unreadable blobs keep their declared type
+      }
+      onProgress?.(index + 1, candidates.length);
     }
+    return sniffed;
   }
 
-  private categorizeBlob(blob: BlobInfo): BlobCategory {
-    if (!blob.contentType) {
+  categorizeBlob(blob: BlobInfo): BlobCategory {
+    if (blob.quiltPatches?.length) {
+      return this.categorizeQuilt(blob.quiltPatches);
+    }
+
+    // The aggregator serves most blobs as application/octet-stream
+    const declared = isGenericContentType(blob.contentType) ? undefined : blob.contentType;
+    const detected = declared || blob.sniffedContentType || blob.contentType;
+    if (!detected) {
       return BlobCategory.UNKNOWN;
     }
 
-    const contentType = blob.contentType.toLowerCase();
+    const contentType = detected.toLowerCase();
 
     if (contentType.includes('text/html') || 
         contentType.includes('application/zip')) {
@@ -170,14 +252,22 @@ export class WalletTracker {
         contentType.includes('document') ||
         contentType.includes('text/') ||
         contentType.includes('application/msword') ||
-        contentType.includes('application/vnd.openxmlformats')) {
+        contentType.includes('application/vnd.openxmlformats') ||
+        contentType.includes('rtf') ||
+        contentType.includes('postscript') ||
+        contentType.includes('epub')) {
       return BlobCategory.DOCUMENT;
     }
 
     if (contentType.includes('zip') || 
         contentType.includes('tar') ||
         contentType.includes('rar') ||
-        contentType.includes('7z')) {
+        contentType.includes('7z') ||
+        contentType.includes('gzip') ||
+        contentType.includes('bzip') ||
+        contentType.includes('x-xz') ||
+        contentType.includes('zstd') ||
+        contentType.includes('lz4')) {
       return BlobCategory.ARCHIVE;
     }
 
@@ -185,15 +275,34 @@ export class WalletTracker {
         contentType.includes('typescript') ||
         contentType.includes('python') ||
         contentType.includes('json') ||
-        contentType.includes('xml')) {
+        contentType.includes('xml') ||
+        contentType.includes('wasm')) {
       return BlobCategory.CODE;
     }
 
     if (contentType.includes('application/') || 
-        contentType.includes('binary')) {
+        contentType.includes('binary') ||
+        contentType.startsWith('font/')) {
       return BlobCategory.DATA;
     }
 
     return BlobCategory.UNKNOWN;
   }
+
+  /**
+   * A quilt holding an index.html is a website; otherwise it takes the
+   * category most of its bytes fall in
+   */
+  private categorizeQuilt(patches: QuiltPatchInfo[]): BlobCategory {
+    if (patches.some(patch => patch.identifier === 'index.html' || patch.identifier.endsWith('/index.html'))) {
+      return BlobCategory.WEBSITE;
+    }
+
+    const sizes = new Map<BlobCategory, number>();
+    for (const patch of patches) {
+      const category = this.categorizeBlob({ blobId: patch.identifier, contentType: patch.contentType, isExpired: false });
+      sizes.set(category, (sizes.get(category) || 0) + patch.size);
+    }
+    return [...sizes.entries()].sort((a, b) => b[1] - a[1])[0][0];
+  }
 }
\ No newline at end of file
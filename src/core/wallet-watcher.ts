@@ -0,0 +1,235 @@
+import * as fs from 'fs';
+import { SuiClient } from '@mysten/sui.js/client';
+import { WalrusConfig } from '../types/index.js';
+import { WalrusClient } from '../utils/walrus-client.js';
+import { WalrusSystemQuery } from '../utils/walrus-system-query.js';
+import { SystemStateReader, isExpiredAt } from '../utils/system-state.js';
+
+export const DEFAULT_WATCH_INTERVAL_SECONDS = 60;
+
+export type WatchEventType =
+  | 'watch.started'
+  | 'blob.created'
+  | 'blob.deleted'
+  | 'blob.extended'
+  | 'blob.expired'
+  | 'site.created'
+  | 'site.deleted'
+  | 'site.resource.added'
+  | 'site.resource.removed'
+  | 'site.resource.changed';
+
+export interface WatchEvent {
+  type: WatchEventType;
+  address: string;
+  timestamp: string;
+  epoch?: number;
+  blobId?: string;
+  suiObjectId?: string;
+  siteObjectId?: string;
+  path?: string;
+  previousBlobId?: string;
+  endEpoch?: number;
+  previousEndEpoch?: number;
+  size?: number;
+  blobs?: number; // watch.started only
+  sites?: number; // watch.started only
+}
+
+interface BlobState {
+  blobId: string;
+  endEpoch?: number;
+  size?: number;
+}
+
+/**
+ * What one poll saw. Plain objects so it can be written to a state file and
+ * picked up again after a restart.
+ */
+export interface WatchSnapshot {
+  epoch?: number;
+  blobs: Record<string, BlobState>; // Sui object ID -> state
+  sites: Record<string, Record<string, string>>; // site object ID -> path -> blob ID
+}
+
+/**
+ * Polls a wallet's Blob and Site objects and turns the differences between
+ * consecutive polls into events. The first poll only records a baseline,
+ * unless a snapshot from an earlier run was loaded.
+ */
+export class WalletWatcher {
+  private address: string;
+  private rpcUrl: string;
+  private config: WalrusConfig;
+  private suiClient: SuiClient;
+  private walrusClient: WalrusClient;
+  private systemQuery: WalrusSystemQuery;
+  private snapshot?: WatchSnapshot;
+
+  constructor(address: string, rpcUrl: string, config: WalrusConfig, aggregatorUrl?: string) {
+    this.address = address;
+    this.rpcUrl = rpcUrl;
+    this.config = config;
+    this.suiClient = new SuiClient({ url: rpcUrl });
+    this.walrusClient = new WalrusClient(aggregatorUrl, rpcUrl);
+    this.walrusClient.setSystemObject(config.systemObject);
+    this.systemQuery = new WalrusSystemQuery(rpcUrl, config.network as 'mainnet' | 'testnet');
+  }
+
+  loadState(filePath: string): boolean {
+    if (!fs.existsSync(filePath)) {
+      return false;
+    }
+    try {
+      const snapshot = JSON.parse(fs.readFileSync(filePath, 'utf8')) as WatchSnapshot;
+      // Earlier state files keyed blobs by blob ID
+      snapshot.blobs = Object.fromEntries(Object.entries(snapshot.blobs).map(([key, blob]) => {
+        if (blob.blobId) return [key, blob];
+        const { suiObjectId, ...state } = blob as Omit<BlobState, 'blobId'> & { suiObjectId?: string };
+        return [suiObjectId ?? key, { ...state, blobId: key }];
+      }));
+      this.snapshot = snapshot;
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to load watch state ${filePath}: ${error}`);
+    }
+  }
+
+  saveState(filePath: string): void {
+    if (this.snapshot) {
+      fs.writeFileSync(filePath, JSON.stringify(this.snapshot));
+    }
+  }
+
+  async poll(): Promise<WatchEvent[]> {
+    const previous = this.snapshot;
+    const next = await this.takeSnapshot(previous);
+    this.snapshot = next;
+
+    if (!previous) {
+      return [this.event('watch.started', next.epoch, {
+        blobs: Object.keys(next.blobs).length,
+        sites: Object.keys(next.sites).length
+      })];
+    }
+    return this.diff(previous, next);
+  }
+
+  /**
+   * Blobs are keyed by object, as one blob ID can be held by several Blob
+   * objects. The site listing returns nothing when it fails, so a site that
+   * disappears is only dropped once the wallet no longer owns it.
+   */
+  private async takeSnapshot(previous?: WatchSnapshot): Promise<WatchSnapshot> {
+    // The reader caches its state, so use a fresh one to notice epoch changes
+    const epoch = await new SystemStateReader(this.rpcUrl, this.config).getState()
+      .then(state => state.epoch)
+      .catch(() => previous?.epoch);
+
+    const blobs: Record<string, BlobState> = {};
+    for (const blob of await this.walrusClient.listBlobsForWallet(this.address)) {
+      blobs[blob.suiObjectId ?? blob.blobId] = {
+        blobId: blob.blobId,
+        endEpoch: blob.endEpoch !== undefined ? Number(blob.endEpoch) : undefined,
+        size: blob.size
+      };
+    }
+
+    const sites: Record<string, Record<string, string>> = {};
+    for (const site of await this.systemQuery.queryWalrusSites(this.address)) {
+      if (!site.suiObjectId) continue;
+      const before = previous?.sites[site.suiObjectId];
+      let resources: Record<string, string> | undefined;
+      try {
+        resources = Object.fromEntries(
+          (await this.systemQuery.getSiteResources(site.suiObjectId)).map(resource => [resource.path, resource.blobId])
+        );
+      } catch (error) {
+        // A failed read is not an empty site: keep the last known resources
+        // rather than report them removed, and leave a new site to the next poll
+        console.error(`Keeping the last known resources of site ${site.suiObjectId}: ${error}`);
+        resources = before;
+      }
+      if (resources) {
+        sites[site.suiObjectId] = resources;
+      }
+    }
+
+    for (const siteObjectId of Object.keys(previous?.sites || {})) {
+      if (!sites[siteObjectId] && await this.stillOwned(siteObjectId)) {
+        sites[siteObjectId] = previous!.sites[siteObjectId];
+      }
+    }
+
+    return { epoch, blobs, sites };
+  }
+
+  private async stillOwned(objectId: string): Promise<boolean> {
+    const object = await this.suiClient.getObject({ id: objectId, options: { showOwner: true } });
+    const owner = object.data?.owner;
+    return !!owner && typeof owner === 'object' && 'AddressOwner' in owner && owner.AddressOwner === this.address;
+  }
+
+  private diff(previous: WatchSnapshot, next: WatchSnapshot): WatchEvent[] {
+    const events: WatchEvent[] = [];
+    const epoch = next.epoch;
+
+    for (const [suiObjectId, blob] of Object.entries(next.blobs)) {
+      const before = previous.blobs[suiObjectId];
+      const details = { blobId: blob.blobId, suiObjectId, endEpoch: blob.endEpoch, size: blob.size };
+
+      if (!before) {
+        events.push(this.event('blob.created', epoch, details));
+        continue;
+      }
+      if (blob.endEpoch !== undefined && before.endEpoch !== undefined && blob.endEpoch > before.endEpoch) {
+        events.push(this.event('blob.extended', epoch, { ...details, previousEndEpoch: before.endEpoch }));
+      }
+      // An expiry crossing is the epoch moving past the end epoch; without
+      // both epochs there is nothing to compare
+      if (previous.epoch !== undefined && epoch !== undefined &&
+          isExpiredAt(blob.endEpoch, epoch) && !isExpiredAt(before.endEpoch, previous.epoch)) {
+        events.push(this.event('blob.expired', epoch, details));
+      }
+    }
+
+    for (const [suiObjectId, blob] of Object.entries(previous.blobs)) {
+      if (!next.blobs[suiObjectId]) {
+        events.push(this.event('blob.deleted', epoch, { blobId: blob.blobId, suiObjectId, endEpoch: blob.endEpoch }));
+      }
+    }
+
+    for (const [siteObjectId, resources] of Object.entries(next.sites)) {
+      const before = previous.sites[siteObjectId];
+      if (!before) {
+        events.push(this.event('site.created', epoch, { siteObjectId }));
+        continue;
+      }
+
+      for (const [path, blobId] of Object.entries(resources)) {
+        if (!(path in before)) {
+          events.push(this.event('site.resource.added', epoch, { siteObjectId, path, blobId }));
+        } else if (before[path] !== blobId) {
+          events.push(this.event('site.resource.changed', epoch, { siteObjectId, path, blobId, previousBlobId: before[path] }));
+        }
+      }
+      for (const [path, blobId] of Object.entries(before)) {
+        if (!(path in resources)) {
+          events.push(this.event('site.resource.removed', epoch, { siteObjectId, path, blobId }));
+        }
+      }
+    }
+
+    for (const siteObjectId of Object.keys(previous.sites)) {
+      if (!next.sites[siteObjectId]) {
+        events.push(this.event('site.deleted', epoch, { siteObjectId }));
+      }
+    }
+
+    return events;
+  }
+
+  private event(type: WatchEventType, epoch: number | undefined, details: Partial<WatchEvent>): WatchEvent {
+    return { type, address: this.address, timestamp: new Date().toISOString(), epoch, ...details };
+  }
+}
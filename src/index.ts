@@ -1,6 +1,37 @@
 export { BlobReader } from './core/blob-reader.js';
-export { detectWalrusSite } from './core/site-detector.js';
+export { detectWalrusSite, extractLinks } from './core/site-detector.js';
 export { WalrusClient } from './utils/walrus-client.js';
+export { SiteDecoder } from './utils/site-decoder.js';
+export type { DecodedSite, DecodedResource, ResourceRange, SiteRevision } from './utils/site-decoder.js';
+export { sniffContent, isGenericContentType } from './utils/content-sniffer.js';
+export type { SniffResult, SniffConfidence } from './utils/content-sniffer.js';
+export { decodeQuilt, readQuiltPatch, readQuiltPatchById } from './utils/quilt.js';
+export type { Quilt, QuiltPatch } from './utils/quilt.js';
+export { blobIdFromU256, blobIdFromBytes, toBase64UrlBlobId, fromBase64UrlBlobId, toHexBlobId } from './utils/blob-id.js';
+export { SystemStateReader, formatLifetime } from './utils/system-state.js';
+export { KeystoreSigner, CliSigner, createSigner } from './utils/signer.js';
+export type { Signer, SignerBackend } from './utils/signer.js';
 export { WalletTracker } from './core/wallet-tracker.js';
+export { SuiNSResolver, normalizeName } from './utils/suins.js';
+export { ImportanceScorer } from './core/importance-scorer.js';
+export { CandidateFilter } from './core/candidate-filter.js';
+export { PolicyEngine, loadPolicy, validatePolicy } from './core/cleanup-policy.js';
+export { BlobBackup, loadManifest } from './core/blob-backup.js';
+export { SiteExporter, toWsResources } from './core/site-exporter.js';
+export { SiteVerifier } from './core/site-verifier.js';
+export type { SiteVerification, ResourceVerification } from './core/site-verifier.js';
+export { diffSites } from './core/site-diff.js';
+export { SiteLinter } from './core/site-linter.js';
+export type { SiteLintResult, LinkIssue } from './core/site-linter.js';
+export type { SiteDiff, ResourceChange } from './core/site-diff.js';
+export { BlobExtender, planExtensions, loadPlan } from './core/blob-extender.js';
+export { buildExpiryReport } from './core/expiry-report.js';
+export { buildDomainFootprint } from './core/domain-footprint.js';
+export type { DomainFootprint, FootprintBlob } from './core/domain-footprint.js';
+export { WalletWatcher } from './core/wallet-watcher.js';
+export { StorageManager } from './core/storage-manager.js';
+export type { WatchEvent, WatchEventType } from './core/wallet-watcher.js';
+export { BlobInventory } from './core/blob-inventory.js';
+export { InventoryRefresher } from './core/inventory-refresher.js';
 export * from './types/index.js';
 export * from './config/walrus.js';
\ No newline at end of file
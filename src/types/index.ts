@@ -10,14 +10,17 @@ export interface WalrusConfig {
 export interface BlobInfo {
   blobId: string;
   size?: number;
-  contentType?: string;
+  contentType?: string; // as the aggregator serves it
+  sniffedContentType?: string; // from the blob's leading bytes
   isExpired: boolean;
   endEpoch?: number;
   isDeletable?: boolean;
   suiObjectId?: string;
   owner?: string;
   createdEpoch?: number;
+  certifiedEpoch?: number; // unset until the blob is certified
   storageRebate?: number;
+  quiltPatches?: QuiltPatchInfo[]; // set once the blob is known to be a quilt
 }
 
 export interface WalrusSite {
@@ -39,12 +42,21 @@ export interface SiteResource {
   size?: number;
 }
 
+export interface QuiltPatchInfo {
+  identifier: string;
+  size: number;
+  contentType: string;
+  tags: Record<string, string>;
+}
+
 export interface SuiNSRecord {
-  name: string;
-  domain: string;
-  objectId: string;
-  targetSiteId?: string;
-  owner: string;
+  name: string; // label without the .sui suffix
+  domain: string; // full name, e.g. example.sui
+  objectId: string; // SuinsRegistration NFT
+  targetAddress?: string;
+  targetSiteId?: string; // walrus_site_id in the record's data
+  expiresAt?: number; // ms since the Unix epoch
+  owner?: string; // holder of the NFT, when it is owned directly
 }
 
 export interface BlobAnalysis {
@@ -59,6 +71,9 @@ export interface BlobAnalysis {
     directories: string[];
   };
   metadata?: Record<string, any>;
+  quilt?: {
+    patches: QuiltPatchInfo[];
+  };
 }
 
 
@@ -0,0 +1,41 @@
+import { blobIdFromBytes, blobIdFromU256, fromBase64UrlBlobId, toBase64UrlBlobId, toHexBlobId } from './blob-id.js';
+
+// Byte 0 is the least significant byte of the u256
+const BYTES = Buffer.alloc(32);
+BYTES[0] = 0x01;
+BYTES[31] = 0xab;
+const HEX = '0xab' + '00'.repeat(30) + '01';
+const BASE64URL = BYTES.toString('base64url');
+
+describe('blob IDs', () => {
+  it('formats u256 values as padded hex', () => {
+    expect(blobIdFromU256('1')).toBe('0x' + '0'.repeat(63) + '1');
+    expect(blobIdFromU256(255n)).toBe('0x' + '0'.repeat(62) + 'ff');
+    expect(blobIdFromU256('0xabc')).toBe('0xabc');
+  });
+
+  it('reads bytes little-endian', () => {
+    expect(blobIdFromBytes(BYTES)).toBe(HEX);
+  });
+
+  it('converts between hex and base64url', () => {
+    expect(BASE64URL).toHaveLength(43);
+    expect(toBase64UrlBlobId(HEX)).toBe(BASE64URL);
+    expect(fromBase64UrlBlobId(BASE64URL)).toBe(HEX);
+  });
+
+  it('passes base64url IDs through toBase64UrlBlobId', () => {
+    expect(toBase64UrlBlobId(BASE64URL)).toBe(BASE64URL);
+  });
+
+  it('normalises either form to hex', () => {
+    expect(toHexBlobId(BASE64URL)).toBe(HEX);
+    expect(toHexBlobId('0x1')).toBe('0x' + '0'.repeat(63) + '1');
+    expect(toHexBlobId(HEX.toUpperCase().replace('0X', '0x'))).toBe(HEX);
+    expect(toHexBlobId('not-a-blob-id')).toBe('not-a-blob-id');
+  });
+
+  it('rejects base64url IDs of the wrong length', () => {
+    expect(() => fromBase64UrlBlobId('AAAA')).toThrow('Invalid blob ID AAAA');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Walrus blob IDs are 32 bytes. Move stores them as a u256 (the bytes read
+ * little-endian), the RPC prints that as a decimal string, walscan shows
+ * the number as 0x-prefixed hex and the aggregator expects the bytes as
+ * unpadded base64url.
+ */
+
+const BLOB_ID_BYTES = 32;
+
+/**
+ * The u256 as walscan's 0x-prefixed hex form. Values that are already
+ * strings other than decimals are returned unchanged.
+ */
+export function blobIdFromU256(value: string | number | bigint): string {
+  if (typeof value === 'bigint' || typeof value === 'number' || /^\d+$/.test(value)) {
+    return '0x' + BigInt(value).toString(16).padStart(BLOB_ID_BYTES * 2, '0');
+  }
+  return value;
+}
+
+/**
+ * Blob ID in the form the aggregator and the walrus CLI accept. The hex
+ * form is converted; anything else is assumed to be base64url already.
+ */
+export function toBase64UrlBlobId(blobId: string): string {
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(blobId)) {
+    return blobId;
+  }
+
+  let value = BigInt(blobId);
+  const bytes = Buffer.alloc(BLOB_ID_BYTES);
+  for (let i = 0; i < BLOB_ID_BYTES; i++) {
+    bytes[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return bytes.toString('base64url');
+}
+
+/**
+ * 0x-prefixed hex form of a blob ID in either form, so IDs returned by the
+ * publisher or the walrus CLI can be compared with IDs read from Sui.
+ * Strings that are neither are returned unchanged.
+ */
+export function toHexBlobId(blobId: string): string {
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(blobId)) {
+    return blobIdFromU256(BigInt(blobId));
+  }
+  return /^[A-Za-z0-9_-]{43}$/.test(blobId) ? fromBase64UrlBlobId(blobId) : blobId;
+}
+
+/**
+ * 0x-prefixed hex form of a base64url blob ID, for matching against IDs
+ * read from Sui
+ */
+export function fromBase64UrlBlobId(blobId: string): string {
+  const bytes = Buffer.from(blobId, 'base64url');
+  if (bytes.length !== BLOB_ID_BYTES) {
+    throw new Error(`Invalid blob ID ${blobId}`);
+  }
+  return blobIdFromBytes(bytes);
+}
+
+/**
+ * Hex form of 32 bytes read as a little-endian u256, the way Move stores
+ * blob IDs and site resource hashes
+ */
+export function blobIdFromBytes(bytes: Uint8Array): string {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  return blobIdFromU256(value);
+}
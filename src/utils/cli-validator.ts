@@ -1,5 +1,7 @@
 import { spawn } from 'child_process';
 import chalk from 'chalk';
+import { SuiClient } from '@mysten/sui.js/client';
+import { Signer, SignerBackend, createSigner } from './signer.js';
 
 export interface CLIValidationResult {
   walrusAvailable: boolean;
@@ -7,24 +9,33 @@ export interface CLIValidationResult {
   walletConfigured: boolean;
   activeAddress?: string;
   suiBalance?: number;
+  signer?: Signer;
   errors: string[];
+  warnings: string[];
+}
+
+export interface ValidationOptions {
+  signer?: SignerBackend;
+  address?: string;
+  rpcUrl?: string; // used for the balance when the sui CLI is missing
 }
 
 export class CLIValidator {
-  async validateEnvironment(): Promise<CLIValidationResult> {
+  async validateEnvironment(options: ValidationOptions = {}): Promise<CLIValidationResult> {
     const result: CLIValidationResult = {
       walrusAvailable: false,
       suiAvailable: false,
       walletConfigured: false,
-      errors: []
+      errors: [],
+      warnings: []
     };
 
-    // Check Walrus CLI
+    // Check Walrus CLI, only needed for the per-blob fallback path
     try {
       await this.runCommand('walrus', ['--version']);
       result.walrusAvailable = true;
     } catch (error) {
-      result.errors.push('Walrus CLI not found. Install from: https://docs.wal.app/usage/setup.html');
+      result.warnings.push('Walrus CLI not found; per-blob fallback deletion is unavailable. Install from: https://docs.wal.app/usage/setup.html');
     }
 
     // Check Sui CLI
@@ -32,34 +43,44 @@ export class CLIValidator {
       await this.runCommand('sui', ['--version']);
       result.suiAvailable = true;
     } catch (error) {
-      result.errors.push('Sui CLI not found. Install from: https://docs.sui.io/references/cli');
+      result.warnings.push('Sui CLI not found. Install from: https://docs.sui.io/references/cli');
     }
 
-    // Check wallet configuration if Sui is available
-    if (result.suiAvailable) {
-      try {
-        const addressOutput = await this.runCommand('sui', ['client', 'active-address']);
-        result.activeAddress = addressOutput.trim();
-        result.walletConfigured = true;
-
-        // Get SUI balance
-        try {
-          const balanceOutput = await this.runCommand('sui', ['client', 'balance']);
-          const balanceMatch = balanceOutput.match(/(\d+\.?\d*)\s+SUI/);
-          if (balanceMatch) {
-            result.suiBalance = parseFloat(balanceMatch[1]);
-          }
-        } catch (error) {
-          result.errors.push('Could not fetch SUI balance');
-        }
-      } catch (error) {
-        result.errors.push('No active wallet configured. Run: sui client new-address ed25519');
-      }
+    // A keystore signer works without any binaries; the CLI signer needs sui
+    try {
+      result.signer = await createSigner(options.signer, options.address);
+      result.activeAddress = result.signer.getAddress();
+      result.walletConfigured = true;
+    } catch (error) {
+      result.errors.push(`No signer available. Run: sui client new-address ed25519 (${error})`);
+      return result;
+    }
+
+    try {
+      result.suiBalance = result.suiAvailable
+        ? await this.getCliBalance()
+        : await this.getRpcBalance(result.activeAddress, options.rpcUrl);
+    } catch (error) {
+      result.errors.push('Could not fetch SUI balance');
     }
 
     return result;
   }
 
+  private async getCliBalance(): Promise<number | undefined> {
+    const balanceOutput = await this.runCommand('sui', ['client', 'balance']);
+    const balanceMatch = balanceOutput.match(/(\d+\.?\d*)\s+SUI/);
+    return balanceMatch ? parseFloat(balanceMatch[1]) : undefined;
+  }
+
+  private async getRpcBalance(address: string, rpcUrl?: string): Promise<number | undefined> {
+    if (!rpcUrl) {
+      return undefined;
+    }
+    const balance = await new SuiClient({ url: rpcUrl }).getBalance({ owner: address });
+    return Number(balance.totalBalance) / 1e9;
+  }
+
   async checkMinimumSuiBalance(requiredSui: number = 0.1): Promise<boolean> {
     try {
       const balanceOutput = await this.runCommand('sui', ['client', 'balance']);
@@ -84,6 +105,12 @@ export class CLIValidator {
     }
   }
 
+  displayValidationWarnings(result: CLIValidationResult): void {
+    result.warnings.forEach(warning => {
+      console.log(chalk.yellow(`⚠ ${warning}`));
+    });
+  }
+
   private runCommand(command: string, args: string[]): Promise<string> {
     return new Promise((resolve, reject) => {
       const process = spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
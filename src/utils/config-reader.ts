@@ -12,6 +12,9 @@ export interface SuiClientConfig {
     ws?: string;
   }>;
   activeAddress?: string;
+  keystore?: {
+    File?: string;
+  };
   addresses?: Array<{
     alias: string;
     publicKey: string;
@@ -0,0 +1,83 @@
+import { isGenericContentType, looksLikeText, sniffContent } from './content-sniffer.js';
+
+function zipEntry(name: string, data: string): Buffer {
+  const header = Buffer.alloc(30);
+  header.write('PK\x03\x04', 0, 'latin1');
+  header.writeUInt32LE(data.length, 18); // stored, so compressed size is the size
+  header.writeUInt32LE(data.length, 22);
+  header.writeUInt16LE(name.length, 26);
+  return Buffer.concat([header, Buffer.from(name, 'latin1'), Buffer.from(data, 'latin1')]);
+}
+
+describe('sniffContent', () => {
+  it('detects images from their magic numbers', () => {
+    expect(sniffContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0]))).toEqual({ contentType: 'image/png', confidence: 'high' });
+    expect(sniffContent(Buffer.from([0xff, 0xd8, 0xff, 0xe0])).contentType).toBe('image/jpeg');
+    expect(sniffContent(Buffer.from('GIF89a...')).contentType).toBe('image/gif');
+  });
+
+  it('reads the brand of ISO media files and the form of RIFF files', () => {
+    expect(sniffContent(Buffer.from('\0\0\0\x18ftypisom\0\0\0\0', 'latin1')).contentType).toBe('video/mp4');
+    expect(sniffContent(Buffer.from('\0\0\0\x18ftypheic\0\0\0\0', 'latin1')).contentType).toBe('image/heic');
+    expect(sniffContent(Buffer.from('\0\0\0\x18ftypzzzz\0\0\0\0', 'latin1'))).toEqual({ contentType: 'video/mp4', confidence: 'medium' });
+    expect(sniffContent(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1')).contentType).toBe('image/webp');
+    expect(sniffContent(Buffer.from('RIFF\0\0\0\0WAVEfmt ', 'latin1')).contentType).toBe('audio/wav');
+  });
+
+  it('finds magics at an offset', () => {
+    const tar = Buffer.alloc(512);
+    tar.write('ustar', 257, 'latin1');
+    expect(sniffContent(tar).contentType).toBe('application/x-tar');
+  });
+
+  it('detects MPEG audio from its frame sync', () => {
+    expect(sniffContent(Buffer.from([0xff, 0xfb, 0x90, 0x00])).contentType).toBe('audio/mpeg');
+    expect(sniffContent(Buffer.from([0xff, 0xf1, 0x50, 0x80])).contentType).toBe('audio/aac');
+  });
+
+  it('takes the format of a ZIP archive from its mimetype entry', () => {
+    const epub = Buffer.concat([zipEntry('mimetype', 'application/epub+zip'), zipEntry('META-INF/container.xml', '<container/>')]);
+    expect(sniffContent(epub)).toEqual({ contentType: 'application/epub+zip', confidence: 'high' });
+  });
+
+  it('tells Office documents from plain ZIP archives', () => {
+    const docx = Buffer.concat([zipEntry('[Content_Types].xml', '<Types/>'), zipEntry('word/document.xml', '<w:document/>')]);
+    expect(sniffContent(docx).contentType).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+    expect(sniffContent(zipEntry('notes.txt', 'hello'))).toEqual({ contentType: 'application/zip', confidence: 'high' });
+  });
+
+  it('recognizes markup in text', () => {
+    expect(sniffContent(Buffer.from('﻿  <!DOCTYPE html><html></html>')).contentType).toBe('text/html');
+    expect(sniffContent(Buffer.from('<?xml version="1.0"?><svg xmlns="http://www.w3.org/2000/svg"/>')).contentType).toBe('image/svg+xml');
+    expect(sniffContent(Buffer.from('<?xml version="1.0"?><feed/>')).contentType).toBe('application/xml');
+    expect(sniffContent(Buffer.from('<div><body>hi</body></div>'))).toEqual({ contentType: 'text/html', confidence: 'medium' });
+  });
+
+  it('confirms JSON by parsing it', () => {
+    expect(sniffContent(Buffer.from('{"a": [1, 2]}'))).toEqual({ contentType: 'application/json', confidence: 'high' });
+    expect(sniffContent(Buffer.from('{"a": [1, 2'))).toEqual({ contentType: 'application/json', confidence: 'low' });
+  });
+
+  it('falls back to plain text or octet-stream', () => {
+    expect(sniffContent(Buffer.from('just some notes\n'))).toEqual({ contentType: 'text/plain', confidence: 'low' });
+    expect(sniffContent(Buffer.from([0x01, 0x02, 0x03, 0x04, 0x05]))).toEqual({ contentType: 'application/octet-stream', confidence: 'low' });
+    expect(sniffContent(Buffer.alloc(0)).contentType).toBe('application/octet-stream');
+  });
+});
+
+describe('isGenericContentType', () => {
+  it('treats missing and octet-stream types as generic', () => {
+    expect(isGenericContentType(undefined)).toBe(true);
+    expect(isGenericContentType('application/octet-stream')).toBe(true);
+    expect(isGenericContentType('Binary/Octet-Stream; charset=binary')).toBe(true);
+    expect(isGenericContentType('image/png')).toBe(false);
+  });
+});
+
+describe('looksLikeText', () => {
+  it('allows tabs and line breaks but not other control bytes', () => {
+    expect(looksLikeText(Buffer.from('a\tb\r\nc'))).toBe(true);
+    expect(looksLikeText(Buffer.from([0, 1, 2, 65]))).toBe(false);
+    expect(looksLikeText(Buffer.alloc(0))).toBe(false);
+  });
+});
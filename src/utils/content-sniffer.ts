@@ -0,0 +1,263 @@
+/**
+ * Content type detection from a blob's leading bytes ("magic numbers"),
+ * for blobs the aggregator serves as application/octet-stream
+ */
+
+export type SniffConfidence = 'high' | 'medium' | 'low';
+
+export interface SniffResult {
+  contentType: string;
+  confidence: SniffConfidence;
+}
+
+// Enough for every signature below; tar keeps its magic at offset 257
+export const SNIFF_PREFIX_LENGTH = 4096;
+
+const GENERIC_CONTENT_TYPES = new Set([
+  'application/octet-stream',
+  'binary/octet-stream',
+  'application/unknown',
+  'application/x-unknown',
+  'application/binary'
+]);
+
+interface Signature {
+  contentType: string;
+  confidence: SniffConfidence;
+  magic: number[] | string;
+  offset?: number;
+}
+
+// Checked in order; longer, more specific magics come first
+const SIGNATURES: Signature[] = [
+  // Images
+  { contentType: 'image/png', confidence: 'high', magic: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { contentType: 'image/jpeg', confidence: 'high', magic: [0xff, 0xd8, 0xff] },
+  { contentType: 'image/gif', confidence: 'high', magic: 'GIF87a' },
+  { contentType: 'image/gif', confidence: 'high', magic: 'GIF89a' },
+  { contentType: 'image/tiff', confidence: 'high', magic: [0x49, 0x49, 0x2a, 0x00] },
+  { contentType: 'image/tiff', confidence: 'high', magic: [0x4d, 0x4d, 0x00, 0x2a] },
+  { contentType: 'image/vnd.adobe.photoshop', confidence: 'high', magic: '8BPS' },
+  { contentType: 'image/bmp', confidence: 'medium', magic: 'BM' },
+  { contentType: 'image/x-icon', confidence: 'medium', magic: [0x00, 0x00, 0x01, 0x00] },
+
+  // Video
+  { contentType: 'video/x-flv', confidence: 'high', magic: [0x46, 0x4c, 0x56, 0x01] },
+  { contentType: 'video/mpeg', confidence: 'high', magic: [0x00, 0x00, 0x01, 0xba] },
+  { contentType: 'video/mpeg', confidence: 'medium', magic: [0x00, 0x00, 0x01, 0xb3] },
+
+  // Audio
+  { contentType: 'audio/flac', confidence: 'high', magic: 'fLaC' },
+  { contentType: 'audio/ogg', confidence: 'high', magic: 'OggS' },
+  { contentType: 'audio/midi', confidence: 'high', magic: 'MThd' },
+  { contentType: 'audio/mpeg', confidence: 'high', magic: 'ID3' },
+
+  // Documents
+  { contentType: 'application/pdf', confidence: 'high', magic: '%PDF-' },
+  { contentType: 'application/rtf', confidence: 'high', magic: '{\\rtf' },
+  { contentType: 'application/postscript', confidence: 'high', magic: '%!PS' },
+  // OLE2 compound files are .doc, .xls and .ppt alike
+  { contentType: 'application/msword', confidence: 'medium', magic: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { contentType: 'application/vnd.sqlite3', confidence: 'high', magic: 'SQLite format 3\0' },
+
+  // Archives
+  { contentType: 'application/x-rar-compressed', confidence: 'high', magic: 'Rar!\x1a\x07' },
+  { contentType: 'application/x-7z-compressed', confidence: 'high', magic: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { contentType: 'application/x-tar', confidence: 'high', magic: 'ustar', offset: 257 },
+
+  // Compressed streams
+  { contentType: 'application/gzip', confidence: 'high', magic: [0x1f, 0x8b, 0x08] },
+  { contentType: 'application/x-xz', confidence: 'high', magic: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00] },
+  { contentType: 'application/zstd', confidence: 'high', magic: [0x28, 0xb5, 0x2f, 0xfd] },
+  { contentType: 'application/x-lz4', confidence: 'high', magic: [0x04, 0x22, 0x4d, 0x18] },
+  { contentType: 'application/x-bzip2', confidence: 'medium', magic: 'BZh' },
+
+  // Fonts
+  { contentType: 'font/woff2', confidence: 'high', magic: 'wOF2' },
+  { contentType: 'font/woff', confidence: 'high', magic: 'wOFF' },
+  { contentType: 'font/otf', confidence: 'high', magic: 'OTTO' },
+  { contentType: 'font/collection', confidence: 'high', magic: 'ttcf' },
+  { contentType: 'font/ttf', confidence: 'medium', magic: [0x00, 0x01, 0x00, 0x00, 0x00] },
+
+  // WebAssembly
+  { contentType: 'application/wasm', confidence: 'high', magic: [0x00, 0x61, 0x73, 0x6d] }
+];
+
+// Brands of ISO base media files (MP4, QuickTime, HEIF), read after "ftyp"
+const FTYP_BRANDS: Record<string, string> = {
+  'isom': 'video/mp4',
+  'iso2': 'video/mp4',
+  'mp41': 'video/mp4',
+  'mp42': 'video/mp4',
+  'avc1': 'video/mp4',
+  'dash': 'video/mp4',
+  'qt  ': 'video/quicktime',
+  'M4A ': 'audio/mp4',
+  'M4B ': 'audio/mp4',
+  'M4V ': 'video/x-m4v',
+  'avif': 'image/avif',
+  'avis': 'image/avif',
+  'heic': 'image/heic',
+  'heix': 'image/heic',
+  'mif1': 'image/heif',
+  'msf1': 'image/heif',
+  '3gp4': 'video/3gpp',
+  '3gp5': 'video/3gpp',
+  '3g2a': 'video/3gpp2'
+};
+
+// Forms of RIFF containers, read at offset 8
+const RIFF_FORMS: Record<string, string> = {
+  'WEBP': 'image/webp',
+  'WAVE': 'audio/wav',
+  'AVI ': 'video/x-msvideo'
+};
+
+/**
+ * The content type a blob's bytes look like. Only the first
+ * SNIFF_PREFIX_LENGTH bytes are needed, except to confirm JSON, which
+ * parses the whole content.
+ */
+export function sniffContent(content: Buffer): SniffResult {
+  const container = sniffContainer(content);
+  if (container) {
+    return container;
+  }
+
+  const signature = SIGNATURES.find(candidate => matches(content, candidate.magic, candidate.offset));
+  if (signature) {
+    return { contentType: signature.contentType, confidence: signature.confidence };
+  }
+
+  // MPEG audio frames and ADTS AAC start with a frame sync, not a magic
+  if (content.length >= 2 && content[0] === 0xff && (content[1] & 0xe0) === 0xe0) {
+    if ((content[1] & 0xf6) === 0xf0) {
+      return { contentType: 'audio/aac', confidence: 'medium' };
+    }
+    if ((content[1] & 0x06) !== 0) {
+      return { contentType: 'audio/mpeg', confidence: 'medium' };
+    }
+  }
+
+  return sniffText(content);
+}
+
+/**
+ * Whether a declared content type says nothing about the content, so
+ * sniffing it is worthwhile
+ */
+export function isGenericContentType(contentType?: string): boolean {
+  if (!contentType) {
+    return true;
+  }
+  return GENERIC_CONTENT_TYPES.has(contentType.split(';')[0].trim().toLowerCase());
+}
+
+/**
+ * Whether the start of the content reads as text: few control bytes
+ * besides tabs and line breaks
+ */
+export function looksLikeText(content: Buffer): boolean {
+  const sample = content.subarray(0, 1024);
+  if (sample.length === 0) {
+    return false;
+  }
+  const nonTextBytes = sample.filter(byte =>
+    byte < 32 && byte !== 9 && byte !== 10 && byte !== 13
+  ).length;
+
+  return nonTextBytes / sample.length < 0.3;
+}
+
+function sniffContainer(content: Buffer): SniffResult | null {
+  if (matches(content, 'ftyp', 4)) {
+    const brand = content.toString('latin1', 8, 12);
+    return { contentType: FTYP_BRANDS[brand] || 'video/mp4', confidence: FTYP_BRANDS[brand] ? 'high' : 'medium' };
+  }
+
+  if (matches(content, 'RIFF')) {
+    const form = RIFF_FORMS[content.toString('latin1', 8, 12)];
+    return form ? { contentType: form, confidence: 'high' } : null;
+  }
+
+  // Matroska and WebM share the EBML header; its DocType tells them apart
+  if (matches(content, [0x1a, 0x45, 0xdf, 0xa3])) {
+    const header = content.toString('latin1', 0, 64);
+    return { contentType: header.includes('webm') ? 'video/webm' : 'video/x-matroska', confidence: 'high' };
+  }
+
+  if (matches(content, [0x50, 0x4b, 0x03, 0x04]) || matches(content, [0x50, 0x4b, 0x05, 0x06])) {
+    return sniffZip(content);
+  }
+
+  return null;
+}
+
+/**
+ * Office, OpenDocument and EPUB files are ZIP archives told apart by
+ * their first entries
+ */
+function sniffZip(content: Buffer): SniffResult {
+  // A stored "mimetype" first entry names the format outright
+  if (content.length >= 30 && content.toString('latin1', 30, 38) === 'mimetype') {
+    const start = 30 + content.readUInt16LE(26) + content.readUInt16LE(28);
+    const mimeType = content.toString('latin1', start, start + Math.min(content.readUInt32LE(18), 128));
+    if (/^[\w.+-]+\/[\w.+-]+$/.test(mimeType)) {
+      return { contentType: mimeType, confidence: 'high' };
+    }
+  }
+
+  const entries = content.toString('latin1', 0, SNIFF_PREFIX_LENGTH);
+  if (entries.includes('[Content_Types].xml') || entries.includes('_rels/.rels')) {
+    if (entries.includes('word/')) {
+      return { contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', confidence: 'medium' };
+    }
+    if (entries.includes('xl/')) {
+      return { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', confidence: 'medium' };
+    }
+    if (entries.includes('ppt/')) {
+      return { contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', confidence: 'medium' };
+    }
+  }
+
+  return { contentType: 'application/zip', confidence: 'high' };
+}
+
+function sniffText(content: Buffer): SniffResult {
+  if (!looksLikeText(content)) {
+    return { contentType: 'application/octet-stream', confidence: 'low' };
+  }
+
+  const head = content.toString('utf8', 0, SNIFF_PREFIX_LENGTH).replace(/^\uFEFF/, '').trimStart();
+  const lowerHead = head.toLowerCase();
+
+  if (lowerHead.startsWith('<!doctype html') || lowerHead.startsWith('<html')) {
+    return { contentType: 'text/html', confidence: 'high' };
+  }
+  if (lowerHead.startsWith('<svg') || (lowerHead.startsWith('<?xml') && lowerHead.includes('<svg'))) {
+    return { contentType: 'image/svg+xml', confidence: 'high' };
+  }
+  if (lowerHead.startsWith('<?xml')) {
+    return { contentType: 'application/xml', confidence: 'high' };
+  }
+  if (/<(html|head|body)[\s>]/.test(lowerHead.slice(0, 1024))) {
+    return { contentType: 'text/html', confidence: 'medium' };
+  }
+
+  if (head.startsWith('{') || head.startsWith('[')) {
+    try {
+      JSON.parse(content.toString('utf8'));
+      return { contentType: 'application/json', confidence: 'high' };
+    } catch {
+      // A prefix or something JSON-like
+      return { contentType: 'application/json', confidence: 'low' };
+    }
+  }
+
+  return { contentType: 'text/plain', confidence: 'low' };
+}
+
+function matches(content: Buffer, magic: number[] | string, offset = 0): boolean {
+  const bytes = typeof magic === 'string' ? Buffer.from(magic, 'latin1') : Buffer.from(magic);
+  return content.length >= offset + bytes.length && content.subarray(offset, offset + bytes.length).equals(bytes);
+}
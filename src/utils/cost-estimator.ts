@@ -1,175 +1,254 @@
-import { spawn } from 'child_process';
+import { SuiClient, SuiObjectResponse } from '@mysten/sui.js/client';
 import { BlobInfo } from '../types/index.js';
+import { WalrusSystemState } from './system-state.js';
+import { encodedBlobSize, storageUnits, storageValue } from './storage-cost.js';
+import { buildDeletionTransaction, resolveWalrusPackageId } from './deletion-transaction.js';
 
 export interface CostEstimate {
   blobId: string;
-  storageRebate: number;
-  estimatedGasCost: number;
-  netRefund: number;
+  suiObjectId?: string;
+  storageDeposit: number; // SUI the Blob object holds in the Sui storage fund
+  storageRebate: number; // SUI refunded when the object is deleted
+  estimatedGasCost: number; // SUI
+  netRefund: number; // SUI: storageRebate - estimatedGasCost
+  encodedSize?: number;
+  storageUnits?: number;
+  remainingEpochs?: number;
+  reclaimedStorageValue?: number; // WAL value of the Storage resource returned by the deletion
   deletable: boolean;
   reason?: string;
 }
 
+export type GasEstimateSource = 'dry-run' | 'estimate';
+
+export interface BatchGasEstimate {
+  batchNumber: number;
+  blobCount: number;
+  computationCost: number; // SUI
+  storageCost: number; // SUI
+  storageRebate: number; // SUI
+  estimatedGas: number; // SUI: computationCost + storageCost
+  netRefund: number; // SUI: storageRebate - estimatedGas
+  source: GasEstimateSource;
+  dryRunError?: string;
+}
+
 export interface BatchCostEstimate {
   totalBlobs: number;
   totalStorageRebate: number;
   totalEstimatedGas: number;
   totalNetRefund: number;
-  batches: {
-    batchNumber: number;
-    blobCount: number;
-    estimatedGas: number;
-    netRefund: number;
-  }[];
+  totalReclaimedStorageValue: number; // WAL
+  source: GasEstimateSource | 'mixed';
+  batches: BatchGasEstimate[];
 }
 
+/**
+ * Sender and system object the deletion transactions would use, needed to
+ * dry-run them
+ */
+export interface DryRunOptions {
+  sender: string;
+  systemObjectId: string;
+}
+
+/**
+ * Estimates what deleting blobs returns. SUI and WAL are kept apart:
+ * deleting the Blob object refunds its Sui storage deposit (in SUI) minus
+ * gas, and hands back the Walrus Storage resource, whose value in WAL is
+ * the remaining epochs at the current storage price.
+ */
 export class CostEstimator {
   private static readonly GAS_PER_DELETION = 0.005; // Estimated SUI per deletion
-  private static readonly STORAGE_REBATE_RATE = 0.99; // 99% rebate rate
-
-  async estimateDeletionCosts(blobs: BlobInfo[]): Promise<CostEstimate[]> {
-    const estimates: CostEstimate[] = [];
-
-    for (const blob of blobs) {
-      const estimate = await this.estimateSingleBlobCost(blob);
-      estimates.push(estimate);
+  // Sui keeps 1% of an object's storage deposit as a non-refundable fee
+  private static readonly SUI_REBATE_RATE = 0.99;
+
+  private suiClient: SuiClient;
+  private systemState?: WalrusSystemState;
+  private dryRun?: DryRunOptions;
+  private packageId?: string;
+
+  constructor(suiRpcUrl: string, systemState?: WalrusSystemState, dryRun?: DryRunOptions) {
+    this.suiClient = new SuiClient({ url: suiRpcUrl });
+    this.systemState = systemState;
+    if (dryRun && dryRun.systemObjectId !== '0x') {
+      this.dryRun = dryRun;
     }
+  }
 
-    return estimates;
+  async estimateDeletionCosts(blobs: BlobInfo[]): Promise<CostEstimate[]> {
+    const objects = await this.fetchBlobObjects(blobs);
+    return blobs.map(blob => this.estimateSingleBlobCost(blob, blob.suiObjectId ? objects.get(blob.suiObjectId) : undefined));
   }
 
+  /**
+   * Cost of deleting the blobs in batches of batchSize. Each batch is built
+   * as the real deletion transaction and dry-run; the per-blob constant is
+   * only used for batches that cannot be dry-run.
+   */
   async estimateBatchCosts(
-    deletableBlobs: CostEstimate[], 
+    deletableBlobs: CostEstimate[],
     batchSize: number = 10
   ): Promise<BatchCostEstimate> {
-    const totalBlobs = deletableBlobs.length;
-    const totalStorageRebate = deletableBlobs.reduce((sum, blob) => sum + blob.storageRebate, 0);
-    const totalEstimatedGas = deletableBlobs.reduce((sum, blob) => sum + blob.estimatedGasCost, 0);
-    const totalNetRefund = totalStorageRebate - totalEstimatedGas;
-
-    const batches = [];
-    for (let i = 0; i < totalBlobs; i += batchSize) {
-      const batchBlobs = deletableBlobs.slice(i, i + batchSize);
-      const batchGas = batchBlobs.reduce((sum, blob) => sum + blob.estimatedGasCost, 0);
-      const batchRebate = batchBlobs.reduce((sum, blob) => sum + blob.storageRebate, 0);
-      
-      batches.push({
-        batchNumber: Math.floor(i / batchSize) + 1,
-        blobCount: batchBlobs.length,
-        estimatedGas: batchGas,
-        netRefund: batchRebate - batchGas
-      });
+    const batches: BatchGasEstimate[] = [];
+    for (let i = 0; i < deletableBlobs.length; i += batchSize) {
+      batches.push(await this.estimateBatch(Math.floor(i / batchSize) + 1, deletableBlobs.slice(i, i + batchSize)));
     }
 
+    const totalStorageRebate = batches.reduce((sum, batch) => sum + batch.storageRebate, 0);
+    const totalEstimatedGas = batches.reduce((sum, batch) => sum + batch.estimatedGas, 0);
+    const sources = new Set(batches.map(batch => batch.source));
+
     return {
-      totalBlobs,
+      totalBlobs: deletableBlobs.length,
       totalStorageRebate,
       totalEstimatedGas,
-      totalNetRefund,
+      totalNetRefund: totalStorageRebate - totalEstimatedGas,
+      totalReclaimedStorageValue: deletableBlobs.reduce((sum, blob) => sum + (blob.reclaimedStorageValue || 0), 0),
+      source: sources.size > 1 ? 'mixed' : sources.has('dry-run') ? 'dry-run' : 'estimate',
       batches
     };
   }
 
-  private async estimateSingleBlobCost(blob: BlobInfo): Promise<CostEstimate> {
+  private async estimateBatch(batchNumber: number, blobs: CostEstimate[]): Promise<BatchGasEstimate> {
+    let dryRunError: string | undefined;
+
+    if (this.dryRun && blobs.every(blob => blob.suiObjectId)) {
+      try {
+        const gasUsed = await this.dryRunDeletion(blobs, this.dryRun);
+        const computationCost = Number(gasUsed.computationCost) / 1e9;
+        const storageCost = Number(gasUsed.storageCost) / 1e9;
+        const storageRebate = Number(gasUsed.storageRebate) / 1e9;
+        return {
+          batchNumber,
+          blobCount: blobs.length,
+          computationCost,
+          storageCost,
+          storageRebate,
+          estimatedGas: computationCost + storageCost,
+          netRefund: storageRebate - computationCost - storageCost,
+          source: 'dry-run'
+        };
+      } catch (error) {
+        dryRunError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const estimatedGas = blobs.reduce((sum, blob) => sum + blob.estimatedGasCost, 0);
+    const storageRebate = blobs.reduce((sum, blob) => sum + blob.storageRebate, 0);
+    return {
+      batchNumber,
+      blobCount: blobs.length,
+      computationCost: estimatedGas,
+      storageCost: 0,
+      storageRebate,
+      estimatedGas,
+      netRefund: storageRebate - estimatedGas,
+      source: 'estimate',
+      dryRunError
+    };
+  }
+
+  /**
+   * Dry-run the deletion transaction the executor would submit for these
+   * blobs; its gas summary includes the rebates of the deleted objects
+   */
+  private async dryRunDeletion(blobs: CostEstimate[], dryRun: DryRunOptions) {
+    this.packageId ??= await resolveWalrusPackageId(this.suiClient, dryRun.systemObjectId);
+    const tx = buildDeletionTransaction({
+      packageId: this.packageId,
+      systemObjectId: dryRun.systemObjectId,
+      blobObjectIds: blobs.map(blob => blob.suiObjectId!),
+      sender: dryRun.sender
+    });
+
+    const result = await this.suiClient.dryRunTransactionBlock({
+      transactionBlock: await tx.build({ client: this.suiClient })
+    });
+    if (result.effects.status.status !== 'success') {
+      throw new Error(result.effects.status.error || 'Dry run failed');
+    }
+    return result.effects.gasUsed;
+  }
+
+  private async fetchBlobObjects(blobs: BlobInfo[]): Promise<Map<string, SuiObjectResponse>> {
+    const ids = blobs.map(blob => blob.suiObjectId).filter((id): id is string => !!id);
+    const objects = new Map<string, SuiObjectResponse>();
+
+    // multiGetObjects accepts at most 50 IDs per request
+    for (let i = 0; i < ids.length; i += 50) {
+      try {
+        const responses = await this.suiClient.multiGetObjects({
+          ids: ids.slice(i, i + 50),
+          options: { showContent: true, showStorageRebate: true }
+        });
+        responses.forEach(response => {
+          if (response.data) {
+            objects.set(response.data.objectId, response);
+          }
+        });
+      } catch (error) {
+        // Blobs in this chunk are reported as not fetchable below
+      }
+    }
+
+    return objects;
+  }
+
+  private estimateSingleBlobCost(blob: BlobInfo, object?: SuiObjectResponse): CostEstimate {
     const estimate: CostEstimate = {
       blobId: blob.blobId,
+      suiObjectId: blob.suiObjectId,
+      storageDeposit: 0,
       storageRebate: 0,
       estimatedGasCost: CostEstimator.GAS_PER_DELETION,
       netRefund: 0,
       deletable: false
     };
 
-    try {
-      // Check if blob is deletable by querying the Sui object
-      if (blob.suiObjectId) {
-        const objectInfo = await this.getSuiObjectInfo(blob.suiObjectId);
-        
-        // Check for deletable flag and storage rebate
-        if (objectInfo) {
-          estimate.deletable = this.checkDeletableFlag(objectInfo);
-          estimate.storageRebate = this.extractStorageRebate(objectInfo);
-          estimate.netRefund = estimate.storageRebate - estimate.estimatedGasCost;
-
-          if (!estimate.deletable) {
-            estimate.reason = 'Blob was not created with --deletable flag';
-          }
-        } else {
-          estimate.reason = 'Could not fetch blob object information';
-        }
-      } else {
-        estimate.reason = 'No Sui object ID available';
-      }
-    } catch (error) {
-      estimate.reason = `Error checking blob: ${error}`;
+    if (!blob.suiObjectId) {
+      estimate.reason = 'No Sui object ID available';
+      return estimate;
     }
 
-    return estimate;
-  }
+    if (!object?.data) {
+      estimate.reason = 'Could not fetch blob object information';
+      return estimate;
+    }
 
-  private async getSuiObjectInfo(objectId: string): Promise<any> {
-    try {
-      const output = await this.runSuiCommand(['client', 'object', objectId, '--json']);
-      return JSON.parse(output);
-    } catch (error) {
-      return null;
+    const fields = object.data.content?.dataType === 'moveObject' ? (object.data.content.fields as any) : undefined;
+    estimate.deletable = fields?.deletable === true || fields?.is_deletable === true;
+    if (!estimate.deletable) {
+      estimate.reason = 'Blob was not created with --deletable flag';
     }
-  }
 
-  private checkDeletableFlag(objectInfo: any): boolean {
-    // Check if the object has a deletable field set to true
-    try {
-      const fields = objectInfo?.data?.content?.fields;
-      return fields?.deletable === true || fields?.is_deletable === true;
-    } catch (error) {
-      return false;
+    // Sui storage deposit of the object, in MIST
+    estimate.storageDeposit = Number(object.data.storageRebate || 0) / 1e9;
+    estimate.storageRebate = estimate.storageDeposit * CostEstimator.SUI_REBATE_RATE;
+    estimate.netRefund = estimate.storageRebate - estimate.estimatedGasCost;
+
+    // The Storage resource records the encoded size it reserves; fall back
+    // to computing it from the unencoded size
+    const storage = fields?.storage?.fields;
+    const encodedSize = storage?.storage_size !== undefined
+      ? Number(storage.storage_size)
+      : blob.size !== undefined && this.systemState
+        ? encodedBlobSize(blob.size, this.systemState.committee.nShards)
+        : undefined;
+
+    if (encodedSize !== undefined) {
+      estimate.encodedSize = encodedSize;
+      estimate.storageUnits = storageUnits(encodedSize);
     }
-  }
 
-  private extractStorageRebate(objectInfo: any): number {
-    try {
-      // Look for storage rebate in the object
-      const fields = objectInfo?.data?.content?.fields;
-      const storageRebate = fields?.storage_rebate || fields?.storageRebate || 0;
-      
-      // Convert from MIST to SUI (1 SUI = 1e9 MIST)
-      if (typeof storageRebate === 'string') {
-        return parseInt(storageRebate) / 1e9;
-      } else if (typeof storageRebate === 'number') {
-        return storageRebate / 1e9;
+    const endEpoch = storage?.end_epoch !== undefined ? Number(storage.end_epoch) : blob.endEpoch;
+    if (this.systemState && endEpoch !== undefined) {
+      estimate.remainingEpochs = Math.max(0, endEpoch - this.systemState.epoch);
+      if (encodedSize !== undefined) {
+        estimate.reclaimedStorageValue = storageValue(encodedSize, estimate.remainingEpochs, this.systemState);
       }
-      
-      return 0;
-    } catch (error) {
-      return 0;
     }
-  }
 
-  private runSuiCommand(args: string[]): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const process = spawn('sui', args, { stdio: ['pipe', 'pipe', 'pipe'] });
-      
-      let stdout = '';
-      let stderr = '';
-
-      process.stdout.on('data', (data) => {
-        stdout += data.toString();
-      });
-
-      process.stderr.on('data', (data) => {
-        stderr += data.toString();
-      });
-
-      process.on('close', (code) => {
-        if (code === 0) {
-          resolve(stdout);
-        } else {
-          reject(new Error(stderr || `Sui command failed with code ${code}`));
-        }
-      });
-
-      process.on('error', (error) => {
-        reject(error);
-      });
-    });
+    return estimate;
   }
-}
\ No newline at end of file
+}
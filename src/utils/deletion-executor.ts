@@ -1,9 +1,14 @@
 import { spawn } from 'child_process';
 import chalk from 'chalk';
+import { SuiClient, SuiTransactionBlockResponse } from '@mysten/sui.js/client';
 import { CostEstimate } from './cost-estimator.js';
+import { Signer } from './signer.js';
+import { DeletionJournal } from './deletion-journal.js';
+import { MAX_BLOBS_PER_TRANSACTION, MAX_TX_SIZE_BYTES, buildDeletionTransaction, resolveWalrusPackageId } from './deletion-transaction.js';
 
 export interface DeletionResult {
   blobId: string;
+  suiObjectId?: string;
   success: boolean;
   transactionHash?: string;
   actualGasCost?: number;
@@ -18,22 +23,273 @@ export interface BatchResult {
   totalRefundReceived: number;
   netRefund: number;
   batchTransactionHash?: string;
+  freedStorageIds?: string[]; // Storage resources the deletions returned to the sender
 }
 
+export interface DeletionExecutorOptions {
+  suiRpcUrl: string;
+  systemObjectId: string;
+  signer?: Signer;
+}
+
+// Batch size for the per-blob walrus CLI fallback
+const CLI_BATCH_SIZE = 10;
+
+/**
+ * Deletes blobs in batches. With a Sui RPC, system object and signer each
+ * batch is one programmable transaction; otherwise every blob is deleted
+ * with its own `walrus delete` call.
+ */
 export class DeletionExecutor {
+  private suiClient?: SuiClient;
+  private systemObjectId?: string;
+  private signer?: Signer;
+  private packageId?: string;
+  private journal?: DeletionJournal;
+  private batchListener?: (result: BatchResult) => Promise<void>;
+
+  constructor(options?: DeletionExecutorOptions) {
+    if (options && options.signer && options.systemObjectId !== '0x') {
+      this.suiClient = new SuiClient({ url: options.suiRpcUrl });
+      this.systemObjectId = options.systemObjectId;
+      this.signer = options.signer;
+    }
+  }
+
+  /**
+   * Record every submission and outcome in a write-ahead journal
+   */
+  useJournal(journal: DeletionJournal): void {
+    this.journal = journal;
+  }
+
+  /**
+   * Called after every batch is journaled, e.g. to drop the deleted blobs
+   * from the local inventory
+   */
+  onBatch(listener: (result: BatchResult) => Promise<void>): void {
+    this.batchListener = listener;
+  }
+
+  /**
+   * Number of blobs deleted per batch
+   */
+  get maxBatchSize(): number {
+    return this.suiClient ? MAX_BLOBS_PER_TRANSACTION : CLI_BATCH_SIZE;
+  }
+
+  async deleteInBatches(
+    blobs: CostEstimate[],
+    batchSize: number = this.maxBatchSize,
+    showProgress: boolean = true
+  ): Promise<BatchResult[]> {
+    const batchResults: BatchResult[] = [];
+
+    for (let i = 0; i < blobs.length; i += batchSize) {
+      const batchNumber = Math.floor(i / batchSize) + 1;
+      batchResults.push(await this.deleteBlobBatch(blobs.slice(i, i + batchSize), batchNumber, showProgress));
+    }
+
+    return batchResults;
+  }
+
   async deleteBlobBatch(
     blobs: CostEstimate[], 
     batchNumber: number,
     showProgress: boolean = true
   ): Promise<BatchResult> {
-    const results: DeletionResult[] = [];
-    let totalGasUsed = 0;
-    let totalRefundReceived = 0;
-
     if (showProgress) {
       console.log(chalk.blue(`\n🚀 Batch ${batchNumber}: Processing ${blobs.length} blobs...`));
     }
 
+    const result = this.suiClient && blobs.every(blob => blob.suiObjectId)
+      ? await this.deleteBatchInTransaction(blobs, batchNumber, showProgress)
+      : await this.deleteBatchViaCli(blobs, batchNumber, showProgress);
+
+    this.journalResults(result.results);
+    await this.batchListener?.(result);
+
+    if (showProgress) {
+      const successCount = result.results.filter(r => r.success).length;
+      const refundColor = result.netRefund > 0 ? chalk.green : chalk.red;
+      console.log(chalk.green(`✓ Batch ${batchNumber} complete: ${successCount}/${blobs.length} deleted`));
+      console.log(refundColor(`  Net refund: ${result.netRefund > 0 ? '+' : ''}${result.netRefund.toFixed(4)} SUI`));
+      if (result.batchTransactionHash) {
+        console.log(chalk.gray(`  Transaction: ${result.batchTransactionHash}`));
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete the whole batch in one programmable transaction. A batch that
+   * serializes over the size limit or fails its dry run is split in half,
+   * so one bad blob does not sink the rest.
+   */
+  private async deleteBatchInTransaction(
+    blobs: CostEstimate[],
+    batchNumber: number,
+    showProgress: boolean
+  ): Promise<BatchResult> {
+    if (showProgress) {
+      process.stdout.write(`Building transaction for ${blobs.length} blobs...\n`);
+    }
+
+    let txBytes: Uint8Array;
+    let digest: string;
+    try {
+      this.packageId ??= await resolveWalrusPackageId(this.suiClient!, this.systemObjectId!);
+      const tx = buildDeletionTransaction({
+        packageId: this.packageId,
+        systemObjectId: this.systemObjectId!,
+        blobObjectIds: blobs.map(blob => blob.suiObjectId!),
+        sender: this.signer!.getAddress()
+      });
+      // Building with a client dry-runs the transaction to set the gas budget
+      txBytes = await tx.build({ client: this.suiClient! });
+      if (txBytes.length > MAX_TX_SIZE_BYTES) {
+        throw new Error(`transaction is ${txBytes.length} bytes, over the ${MAX_TX_SIZE_BYTES} byte limit`);
+      }
+      digest = await tx.getDigest({ client: this.suiClient! });
+    } catch (error) {
+      if (blobs.length > 1) {
+        const middle = Math.ceil(blobs.length / 2);
+        const halves = [
+          await this.deleteBatchInTransaction(blobs.slice(0, middle), batchNumber, showProgress),
+          await this.deleteBatchInTransaction(blobs.slice(middle), batchNumber, showProgress)
+        ];
+        return this.mergeBatchResults(batchNumber, halves);
+      }
+      return this.failedBatch(batchNumber, blobs, error);
+    }
+
+    // Record the digest before executing so a crash can be reconciled
+    this.journal?.recordSubmitted(blobs.map(blob => blob.blobId), digest);
+
+    try {
+      const signature = await this.signer!.signTransaction(txBytes);
+      const response = await this.suiClient!.executeTransactionBlock({
+        transactionBlock: txBytes,
+        signature,
+        options: { showEffects: true },
+        requestType: 'WaitForLocalExecution'
+      });
+      return this.resultFromEffects(batchNumber, blobs, response);
+    } catch (error) {
+      return this.failedBatch(batchNumber, blobs, error);
+    }
+  }
+
+  /**
+   * Per-blob results from the transaction effects: a blob succeeded when its
+   * object appears in the deleted set. Gas and rebate are split evenly.
+   */
+  private resultFromEffects(
+    batchNumber: number,
+    blobs: CostEstimate[],
+    response: SuiTransactionBlockResponse
+  ): BatchResult {
+    const effects = response.effects;
+    const transactionHash = response.digest;
+
+    if (effects?.status.status !== 'success') {
+      return this.failedBatch(batchNumber, blobs, effects?.status.error || 'Transaction failed', transactionHash);
+    }
+
+    const deleted = new Set((effects.deleted || []).map(ref => ref.objectId));
+    const totalGasUsed = (Number(effects.gasUsed.computationCost) + Number(effects.gasUsed.storageCost)) / 1e9;
+    const totalRefundReceived = Number(effects.gasUsed.storageRebate) / 1e9;
+    const deletedCount = blobs.filter(blob => deleted.has(blob.suiObjectId!)).length || 1;
+
+    const results: DeletionResult[] = blobs.map(blob => deleted.has(blob.suiObjectId!)
+      ? {
+          blobId: blob.blobId,
+          suiObjectId: blob.suiObjectId,
+          success: true,
+          transactionHash,
+          actualGasCost: totalGasUsed / deletedCount,
+          actualStorageRefund: totalRefundReceived / deletedCount
+        }
+      : {
+          blobId: blob.blobId,
+          suiObjectId: blob.suiObjectId,
+          success: false,
+          transactionHash,
+          error: 'Blob object was not deleted by the transaction'
+        });
+
+    return {
+      batchNumber,
+      results,
+      totalGasUsed,
+      totalRefundReceived,
+      netRefund: totalRefundReceived - totalGasUsed,
+      batchTransactionHash: transactionHash,
+      // Each Blob wraps its Storage; deleting the Blob unwraps it
+      freedStorageIds: (effects.unwrapped || []).map(ref => ref.reference.objectId)
+    };
+  }
+
+  private journalResults(results: DeletionResult[]): void {
+    if (!this.journal) {
+      return;
+    }
+
+    const groups = new Map<string, DeletionResult[]>();
+    for (const result of results) {
+      const key = `${result.success}:${result.transactionHash || ''}:${result.error || ''}`;
+      groups.set(key, [...(groups.get(key) || []), result]);
+    }
+
+    for (const group of groups.values()) {
+      const { success, transactionHash, error } = group[0];
+      const blobIds = group.map(result => result.blobId);
+      if (success) {
+        this.journal.recordConfirmed(blobIds, transactionHash);
+      } else {
+        this.journal.recordFailed(blobIds, error || 'Unknown error', transactionHash);
+      }
+    }
+  }
+
+  private failedBatch(batchNumber: number, blobs: CostEstimate[], error: unknown, transactionHash?: string): BatchResult {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      batchNumber,
+      results: blobs.map(blob => ({ blobId: blob.blobId, suiObjectId: blob.suiObjectId, success: false, transactionHash, error: message })),
+      totalGasUsed: 0,
+      totalRefundReceived: 0,
+      netRefund: 0,
+      batchTransactionHash: transactionHash
+    };
+  }
+
+  private mergeBatchResults(batchNumber: number, parts: BatchResult[]): BatchResult {
+    const totalGasUsed = parts.reduce((sum, part) => sum + part.totalGasUsed, 0);
+    const totalRefundReceived = parts.reduce((sum, part) => sum + part.totalRefundReceived, 0);
+    const hashes = parts.map(part => part.batchTransactionHash).filter(Boolean);
+
+    return {
+      batchNumber,
+      results: parts.flatMap(part => part.results),
+      totalGasUsed,
+      totalRefundReceived,
+      netRefund: totalRefundReceived - totalGasUsed,
+      batchTransactionHash: hashes.length > 0 ? hashes.join(', ') : undefined,
+      freedStorageIds: parts.flatMap(part => part.freedStorageIds || [])
+    };
+  }
+
+  private async deleteBatchViaCli(
+    blobs: CostEstimate[],
+    batchNumber: number,
+    showProgress: boolean
+  ): Promise<BatchResult> {
+    const results: DeletionResult[] = [];
+    let totalGasUsed = 0;
+    let totalRefundReceived = 0;
+
     for (let i = 0; i < blobs.length; i++) {
       const blob = blobs[i];
       
@@ -44,7 +300,8 @@ export class DeletionExecutor {
       }
 
       try {
-        const result = await this.deleteSingleBlob(blob.blobId);
+        this.journal?.recordSubmitted([blob.blobId]);
+        const result = { ...await this.deleteSingleBlob(blob.blobId), suiObjectId: blob.suiObjectId };
         results.push(result);
 
         if (result.success) {
@@ -54,6 +311,7 @@ export class DeletionExecutor {
       } catch (error) {
         results.push({
           blobId: blob.blobId,
+          suiObjectId: blob.suiObjectId,
           success: false,
           error: error instanceof Error ? error.message : 'Unknown error'
         });
@@ -65,13 +323,6 @@ export class DeletionExecutor {
     }
 
     const netRefund = totalRefundReceived - totalGasUsed;
-    
-    if (showProgress) {
-      const successCount = results.filter(r => r.success).length;
-      const refundColor = netRefund > 0 ? chalk.green : chalk.red;
-      console.log(chalk.green(`✓ Batch ${batchNumber} complete: ${successCount}/${blobs.length} deleted`));
-      console.log(refundColor(`  Net refund: ${netRefund > 0 ? '+' : ''}${netRefund.toFixed(4)} SUI`));
-    }
 
     return {
       batchNumber,
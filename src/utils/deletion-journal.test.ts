@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SuiClient } from '@mysten/sui.js/client';
+import { CostEstimate } from './cost-estimator.js';
+import { DeletionJournal } from './deletion-journal.js';
+
+function estimate(blobId: string, suiObjectId?: string): CostEstimate {
+  return { blobId, suiObjectId, storageDeposit: 0, storageRebate: 0, estimatedGasCost: 0, netRefund: 0, deletable: true };
+}
+
+describe('DeletionJournal', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'));
+    file = path.join(dir, 'cleanup.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('replays state changes when reopened', () => {
+    const journal = DeletionJournal.create('0xabc', 'testnet', file);
+    journal.recordIntended([estimate('a'), estimate('b'), estimate('c')]);
+    journal.recordSubmitted(['a', 'b'], 'digest1');
+    journal.recordConfirmed(['a'], 'digest1');
+    journal.recordFailed(['b'], 'out of gas');
+
+    const reopened = DeletionJournal.open(file);
+    expect(reopened.header).toMatchObject({ address: '0xabc', network: 'testnet' });
+    expect(reopened.getBlobStates().map(blob => [blob.estimate.blobId, blob.state, blob.digest, blob.error])).toEqual([
+      ['a', 'confirmed', 'digest1', undefined],
+      ['b', 'failed', 'digest1', 'out of gas'],
+      ['c', 'intended', undefined, undefined]
+    ]);
+    expect(reopened.getPending().map(pending => pending.blobId)).toEqual(['b', 'c']);
+  });
+
+  it('drops a truncated final line and keeps appending after it', () => {
+    const journal = DeletionJournal.create('0xabc', 'testnet', file);
+    journal.recordIntended([estimate('a')]);
+    fs.appendFileSync(file, '{"type":"confirmed","blobI');
+
+    const reopened = DeletionJournal.open(file);
+    expect(reopened.getPending().map(pending => pending.blobId)).toEqual(['a']);
+
+    reopened.recordConfirmed(['a']);
+    expect(DeletionJournal.open(file).getPending()).toEqual([]);
+  });
+
+  it('rejects corrupt lines before the last and files without a header', () => {
+    fs.writeFileSync(file, '{"type":"header","address":"0xabc","network":"testnet","createdAt":""}\nnot json\n{}\n');
+    expect(() => DeletionJournal.open(file)).toThrow('Corrupt journal');
+
+    fs.writeFileSync(file, '{"type":"intended","at":"","estimates":[]}\n');
+    expect(() => DeletionJournal.open(file)).toThrow('is not a deletion journal');
+  });
+
+  it('reconciles submitted digests and vanished objects with the chain', async () => {
+    const journal = DeletionJournal.create('0xabc', 'testnet', file);
+    journal.recordIntended([estimate('a', '0x1'), estimate('b', '0x2'), estimate('c', '0x3'), estimate('d', '0x4')]);
+    journal.recordSubmitted(['a'], 'landed');
+    journal.recordSubmitted(['b'], 'aborted');
+
+    const suiClient = {
+      getTransactionBlock: async ({ digest }: { digest: string }) => ({
+        effects: { status: digest === 'landed' ? { status: 'success' } : { status: 'failure', error: 'MoveAbort' } }
+      }),
+      multiGetObjects: async ({ ids }: { ids: string[] }) =>
+        ids.map(id => (id === '0x3' ? { error: { code: 'deleted' } } : { data: { objectId: id } }))
+    } as unknown as SuiClient;
+
+    expect(await journal.reconcile(suiClient)).toEqual({ confirmed: 2, pending: 1, failed: 1 });
+    expect(journal.getBlobStates().find(blob => blob.estimate.blobId === 'b')?.error).toBe('MoveAbort');
+    expect(DeletionJournal.open(file).getPending().map(pending => pending.blobId)).toEqual(['b', 'd']);
+  });
+});
@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { SuiClient } from '@mysten/sui.js/client';
+import { CostEstimate } from './cost-estimator.js';
+
+export const DEFAULT_JOURNAL_DIR = path.join(os.homedir(), '.walscan', 'journals');
+
+export type JournalState = 'intended' | 'submitted' | 'confirmed' | 'failed';
+
+export interface JournalHeader {
+  address: string;
+  network: string;
+  createdAt: string;
+}
+
+/**
+ * One line of the journal. The first line is the header; every later line
+ * moves a set of blobs to a new state.
+ */
+export type JournalEntry =
+  | ({ type: 'header' } & JournalHeader)
+  | { type: 'intended'; at: string; estimates: CostEstimate[] }
+  | { type: 'submitted' | 'confirmed' | 'failed'; at: string; blobIds: string[]; digest?: string; error?: string };
+
+export interface JournalBlobState {
+  estimate: CostEstimate;
+  state: JournalState;
+  digest?: string;
+  error?: string;
+}
+
+export interface ReconcileSummary {
+  confirmed: number;
+  pending: number;
+  failed: number;
+}
+
+/**
+ * Append-only JSONL write-ahead log of a cleanup run. Each state change is
+ * written synchronously before the next step, so a crash leaves a record
+ * of what was intended, what was sent and what landed.
+ */
+export class DeletionJournal {
+  readonly filePath: string;
+  readonly header: JournalHeader;
+  private blobs = new Map<string, JournalBlobState>();
+
+  private constructor(filePath: string, header: JournalHeader) {
+    this.filePath = filePath;
+    this.header = header;
+  }
+
+  static create(address: string, network: string, filePath?: string): DeletionJournal {
+    const createdAt = new Date().toISOString();
+    const target = filePath || path.join(DEFAULT_JOURNAL_DIR, `cleanup-${createdAt.replace(/[:.]/g, '-')}.jsonl`);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+
+    const journal = new DeletionJournal(target, { address, network, createdAt });
+    fs.writeFileSync(target, JSON.stringify({ type: 'header', ...journal.header }) + '\n');
+    return journal;
+  }
+
+  static open(filePath: string): DeletionJournal {
+    let lines: string[];
+    try {
+      lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim());
+    } catch (error) {
+      throw new Error(`Failed to read journal ${filePath}: ${error}`);
+    }
+
+    const entries: JournalEntry[] = [];
+    lines.forEach((line, index) => {
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error) {
+        // A crash mid-write can only truncate the final line; drop it so
+        // later appends start on a fresh line
+        if (index < lines.length - 1) {
+          throw new Error(`Corrupt journal ${filePath} at line ${index + 1}`);
+        }
+        fs.writeFileSync(filePath, lines.slice(0, -1).join('\n') + '\n');
+      }
+    });
+
+    const header = entries[0];
+    if (!header || header.type !== 'header') {
+      throw new Error(`${filePath} is not a deletion journal`);
+    }
+
+    const journal = new DeletionJournal(filePath, { address: header.address, network: header.network, createdAt: header.createdAt });
+    entries.slice(1).forEach(entry => journal.apply(entry));
+    return journal;
+  }
+
+  recordIntended(estimates: CostEstimate[]): void {
+    this.append({ type: 'intended', at: new Date().toISOString(), estimates });
+  }
+
+  recordSubmitted(blobIds: string[], digest?: string): void {
+    this.append({ type: 'submitted', at: new Date().toISOString(), blobIds, digest });
+  }
+
+  recordConfirmed(blobIds: string[], digest?: string): void {
+    this.append({ type: 'confirmed', at: new Date().toISOString(), blobIds, digest });
+  }
+
+  recordFailed(blobIds: string[], error: string, digest?: string): void {
+    this.append({ type: 'failed', at: new Date().toISOString(), blobIds, digest, error });
+  }
+
+  getBlobStates(): JournalBlobState[] {
+    return Array.from(this.blobs.values());
+  }
+
+  /**
+   * Blobs that still need deleting: anything not confirmed
+   */
+  getPending(): CostEstimate[] {
+    return this.getBlobStates()
+      .filter(blob => blob.state !== 'confirmed')
+      .map(blob => blob.estimate);
+  }
+
+  /**
+   * Bring the journal in line with the chain. Submitted transactions are
+   * looked up by digest; any blob whose object no longer exists is confirmed.
+   */
+  async reconcile(suiClient: SuiClient): Promise<ReconcileSummary> {
+    const unconfirmed = this.getBlobStates().filter(blob => blob.state !== 'confirmed');
+
+    const digests = new Set(unconfirmed.filter(blob => blob.state === 'submitted' && blob.digest).map(blob => blob.digest!));
+    for (const digest of digests) {
+      try {
+        const response = await suiClient.getTransactionBlock({ digest, options: { showEffects: true } });
+        const blobIds = unconfirmed.filter(blob => blob.digest === digest).map(blob => blob.estimate.blobId);
+        if (response.effects?.status.status === 'success') {
+          this.recordConfirmed(blobIds, digest);
+        } else {
+          this.recordFailed(blobIds, response.effects?.status.error || 'Transaction failed', digest);
+        }
+      } catch (error) {
+        // Never reached the chain; the object check below decides
+      }
+    }
+
+    const remaining = this.getBlobStates().filter(blob => blob.state !== 'confirmed' && blob.estimate.suiObjectId);
+    const gone: string[] = [];
+    for (let i = 0; i < remaining.length; i += 50) {
+      const batch = remaining.slice(i, i + 50);
+      const objects = await suiClient.multiGetObjects({ ids: batch.map(blob => blob.estimate.suiObjectId!) });
+      objects.forEach((obj, index) => {
+        if (obj.error?.code === 'deleted' || obj.error?.code === 'notExists') {
+          gone.push(batch[index].estimate.blobId);
+        }
+      });
+    }
+    if (gone.length > 0) {
+      this.recordConfirmed(gone);
+    }
+
+    const states = this.getBlobStates();
+    return {
+      confirmed: states.filter(blob => blob.state === 'confirmed').length,
+      pending: states.filter(blob => blob.state === 'intended' || blob.state === 'submitted').length,
+      failed: states.filter(blob => blob.state === 'failed').length
+    };
+  }
+
+  private append(entry: JournalEntry): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(entry) + '\n');
+    this.apply(entry);
+  }
+
+  private apply(entry: JournalEntry): void {
+    if (entry.type === 'header') {
+      return;
+    }
+
+    if (entry.type === 'intended') {
+      entry.estimates.forEach(estimate => {
+        this.blobs.set(estimate.blobId, { estimate, state: 'intended' });
+      });
+      return;
+    }
+
+    for (const blobId of entry.blobIds) {
+      const blob = this.blobs.get(blobId);
+      if (blob) {
+        blob.state = entry.type;
+        blob.digest = entry.digest ?? blob.digest;
+        blob.error = entry.error;
+      }
+    }
+  }
+}
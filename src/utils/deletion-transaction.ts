@@ -0,0 +1,81 @@
+import { SuiClient } from '@mysten/sui.js/client';
+import { TransactionBlock } from '@mysten/sui.js/transactions';
+
+// Sui protocol limits for a single programmable transaction
+export const MAX_TX_SIZE_BYTES = 128 * 1024;
+export const MAX_PTB_COMMANDS = 1024;
+export const MAX_COMMAND_ARGUMENTS = 512;
+
+// Rough serialized cost of one deletion: an owned object input (id, version,
+// digest) plus a move call referencing it
+const BYTES_PER_DELETION = 140;
+const TX_OVERHEAD_BYTES = 2 * 1024;
+
+/**
+ * Largest number of blobs one deletion transaction can hold. Every deletion
+ * is one move call, and all returned Storage objects go into a single
+ * transfer command, which bounds the batch by the argument limit.
+ */
+export const MAX_BLOBS_PER_TRANSACTION = Math.min(
+  Math.floor((MAX_TX_SIZE_BYTES - TX_OVERHEAD_BYTES) / BYTES_PER_DELETION),
+  MAX_PTB_COMMANDS - 1,
+  MAX_COMMAND_ARGUMENTS - 1
+);
+
+export interface DeletionTransactionParams {
+  packageId: string;
+  systemObjectId: string;
+  blobObjectIds: string[];
+  sender: string;
+}
+
+/**
+ * Resolve the Walrus package to call from the shared System object. The
+ * object records the current package after upgrades; its type only names
+ * the original one.
+ */
+export async function resolveWalrusPackageId(suiClient: SuiClient, systemObjectId: string): Promise<string> {
+  try {
+    const response = await suiClient.getObject({
+      id: systemObjectId,
+      options: { showType: true, showContent: true }
+    });
+
+    const content = response.data?.content;
+    const fields = content?.dataType === 'moveObject' ? (content.fields as any) : undefined;
+    if (fields?.package_id) {
+      return fields.package_id;
+    }
+
+    const type = response.data?.type;
+    if (!type) {
+      throw new Error(`System object ${systemObjectId} not found`);
+    }
+    return type.split('::')[0];
+  } catch (error) {
+    throw new Error(`Failed to resolve Walrus package: ${error}`);
+  }
+}
+
+/**
+ * Build one transaction that deletes every given Blob object and returns
+ * the freed Storage resources to the sender.
+ */
+export function buildDeletionTransaction(params: DeletionTransactionParams): TransactionBlock {
+  if (params.blobObjectIds.length > MAX_BLOBS_PER_TRANSACTION) {
+    throw new Error(`Cannot delete more than ${MAX_BLOBS_PER_TRANSACTION} blobs in one transaction`);
+  }
+
+  const tx = new TransactionBlock();
+  tx.setSender(params.sender);
+
+  const storage = params.blobObjectIds.map(blobObjectId =>
+    tx.moveCall({
+      target: `${params.packageId}::system::delete_blob`,
+      arguments: [tx.object(params.systemObjectId), tx.object(blobObjectId)]
+    })
+  );
+
+  tx.transferObjects(storage, tx.pure.address(params.sender));
+  return tx;
+}
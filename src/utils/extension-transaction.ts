@@ -0,0 +1,85 @@
+import { SuiClient } from '@mysten/sui.js/client';
+import { TransactionBlock } from '@mysten/sui.js/transactions';
+import { MAX_BLOBS_PER_TRANSACTION, MAX_COMMAND_ARGUMENTS } from './deletion-transaction.js';
+
+// One move call per blob plus the coin merge, within the same limits as
+// a deletion transaction
+export const MAX_EXTENSIONS_PER_TRANSACTION = MAX_BLOBS_PER_TRANSACTION - 1;
+
+export interface WalCoins {
+  coinType: string;
+  coinIds: string[];
+  balance: bigint; // FROST
+}
+
+export interface ExtensionTransactionParams {
+  packageId: string;
+  systemObjectId: string;
+  blobObjectIds: string[];
+  epochs: number;
+  walCoinIds: string[];
+  sender: string;
+}
+
+/**
+ * Find the owner's WAL coins. The WAL package is not part of the network
+ * config, so the coin type is taken from the owner's balances.
+ */
+export async function findWalCoins(suiClient: SuiClient, owner: string): Promise<WalCoins> {
+  try {
+    const balances = await suiClient.getAllBalances({ owner });
+    const wal = balances.find(balance => balance.coinType.endsWith('::wal::WAL'));
+    if (!wal) {
+      return { coinType: '', coinIds: [], balance: 0n };
+    }
+
+    const coinIds: string[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+      const page = await suiClient.getCoins({ owner, coinType: wal.coinType, cursor });
+      coinIds.push(...page.data.map(coin => coin.coinObjectId));
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return { coinType: wal.coinType, coinIds, balance: BigInt(wal.totalBalance) };
+  } catch (error) {
+    throw new Error(`Failed to read WAL balance: ${error}`);
+  }
+}
+
+/**
+ * Build one transaction that extends every given Blob object by the same
+ * number of epochs, paying from the sender's WAL coins merged into one.
+ */
+export function buildExtensionTransaction(params: ExtensionTransactionParams): TransactionBlock {
+  if (params.blobObjectIds.length > MAX_EXTENSIONS_PER_TRANSACTION) {
+    throw new Error(`Cannot extend more than ${MAX_EXTENSIONS_PER_TRANSACTION} blobs in one transaction`);
+  }
+  if (params.walCoinIds.length === 0) {
+    throw new Error('No WAL coins to pay for the extension');
+  }
+
+  const tx = new TransactionBlock();
+  tx.setSender(params.sender);
+
+  // mergeCoins takes at most MAX_COMMAND_ARGUMENTS sources
+  const [primary, ...rest] = params.walCoinIds.slice(0, MAX_COMMAND_ARGUMENTS);
+  const payment = tx.object(primary);
+  if (rest.length > 0) {
+    tx.mergeCoins(payment, rest.map(coinId => tx.object(coinId)));
+  }
+
+  for (const blobObjectId of params.blobObjectIds) {
+    tx.moveCall({
+      target: `${params.packageId}::system::extend_blob`,
+      arguments: [
+        tx.object(params.systemObjectId),
+        tx.object(blobObjectId),
+        tx.pure.u32(params.epochs),
+        payment
+      ]
+    });
+  }
+
+  return tx;
+}
@@ -0,0 +1,37 @@
+import { SuiClient, GetOwnedObjectsParams, SuiObjectResponse } from '@mysten/sui.js/client';
+
+export interface OwnedObjectsProgress {
+  pagesFetched: number;
+  objectsFetched: number;
+  hasNextPage: boolean;
+}
+
+/**
+ * Walk every page of getOwnedObjects, following nextCursor until the RPC
+ * reports no more pages. Only one page is held in memory at a time.
+ */
+export async function* iterateOwnedObjects(
+  suiClient: SuiClient,
+  params: Omit<GetOwnedObjectsParams, 'cursor'>,
+  onPage?: (progress: OwnedObjectsProgress) => void
+): AsyncGenerator<SuiObjectResponse> {
+  let cursor: string | null | undefined = null;
+  let pagesFetched = 0;
+  let objectsFetched = 0;
+
+  do {
+    const page = await suiClient.getOwnedObjects({ ...params, cursor });
+    pagesFetched++;
+    objectsFetched += page.data.length;
+
+    if (onPage) {
+      onPage({ pagesFetched, objectsFetched, hasNextPage: page.hasNextPage });
+    }
+
+    for (const obj of page.data) {
+      yield obj;
+    }
+
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+}
@@ -0,0 +1,116 @@
+import { decodeQuilt, mayBeQuilt, readQuiltPatch, readQuiltPatchById } from './quilt.js';
+
+// 10 shards tolerate 3 faulty ones: 4 rows of 7 columns
+const N_SHARDS = 10;
+const ROWS = 4;
+const COLUMNS = 7;
+const SYMBOL_SIZE = 8;
+const COLUMN_SIZE = ROWS * SYMBOL_SIZE;
+
+function bcsString(value: string): Buffer {
+  const bytes = Buffer.from(value);
+  return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+}
+
+function u16(value: number): Buffer {
+  const bytes = Buffer.alloc(2);
+  bytes.writeUInt16LE(value);
+  return bytes;
+}
+
+function patch(identifier: string, data: Buffer): Buffer {
+  const name = Buffer.from(identifier);
+  const body = Buffer.concat([u16(name.length), name, data]);
+  const header = Buffer.alloc(6);
+  header[0] = 1;
+  header.writeUInt32LE(body.length, 1);
+  header[5] = 1; // has identifier
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Lay out column-major bytes the way a quilt stores them: row by row,
+ * each row holding one symbol of every column
+ */
+function toQuilt(columnBytes: Buffer): Buffer {
+  const padded = Buffer.alloc(COLUMNS * COLUMN_SIZE);
+  columnBytes.copy(padded);
+  const content = Buffer.alloc(padded.length);
+  for (let column = 0; column < COLUMNS; column++) {
+    for (let row = 0; row < ROWS; row++) {
+      const from = column * COLUMN_SIZE + row * SYMBOL_SIZE;
+      padded.copy(content, row * COLUMNS * SYMBOL_SIZE + column * SYMBOL_SIZE, from, from + SYMBOL_SIZE);
+    }
+  }
+  return content;
+}
+
+function columns(bytes: Buffer, count: number): Buffer {
+  const padded = Buffer.alloc(count * COLUMN_SIZE);
+  bytes.copy(padded);
+  return padded;
+}
+
+const PAGE = Buffer.from('<p>hi</p>');
+const IMAGE = Buffer.alloc(40, 7);
+
+// Index in columns 0-1, index.html in column 2, logo.png in columns 3-4
+function buildQuilt(): Buffer {
+  const entries = Buffer.concat([
+    Buffer.from([2]),
+    u16(3), bcsString('index.html'), Buffer.from([1]), bcsString('lang'), bcsString('en'),
+    u16(5), bcsString('logo.png'), Buffer.from([0])
+  ]);
+  const prefix = Buffer.alloc(5);
+  prefix[0] = 1;
+  prefix.writeUInt32LE(entries.length, 1);
+
+  return toQuilt(Buffer.concat([
+    columns(Buffer.concat([prefix, entries]), 2),
+    columns(patch('index.html', PAGE), 1),
+    columns(patch('logo.png', IMAGE), 2)
+  ]));
+}
+
+describe('quilt', () => {
+  const content = buildQuilt();
+
+  it('decodes the layout and patch index', () => {
+    const quilt = decodeQuilt(content, N_SHARDS);
+
+    expect(quilt).toMatchObject({ nShards: N_SHARDS, rows: ROWS, columns: COLUMNS, symbolSize: SYMBOL_SIZE });
+    expect(quilt?.patches).toEqual([
+      { identifier: 'index.html', tags: { lang: 'en' }, startColumn: 2, endColumn: 3, size: PAGE.length },
+      { identifier: 'logo.png', tags: {}, startColumn: 3, endColumn: 5, size: IMAGE.length }
+    ]);
+  });
+
+  it('reads patches by identifier', () => {
+    const quilt = decodeQuilt(content, N_SHARDS)!;
+
+    expect(readQuiltPatch(content, quilt, 'index.html').equals(PAGE)).toBe(true);
+    expect(readQuiltPatch(content, quilt, 'logo.png').equals(IMAGE)).toBe(true);
+    expect(() => readQuiltPatch(content, quilt, 'missing.css')).toThrow('Quilt has no patch "missing.css"');
+  });
+
+  it('reads patches by internal ID', () => {
+    expect(readQuiltPatchById(content, '0x0103000500', N_SHARDS).equals(IMAGE)).toBe(true);
+    expect(() => readQuiltPatchById(content, '0x0203000500', N_SHARDS)).toThrow('Invalid quilt patch ID');
+  });
+
+  it('rejects content that is not a quilt', () => {
+    expect(decodeQuilt(content.subarray(1), N_SHARDS)).toBeNull();
+    expect(decodeQuilt(Buffer.alloc(content.length), N_SHARDS)).toBeNull();
+    expect(decodeQuilt(Buffer.alloc(0), N_SHARDS)).toBeNull();
+  });
+
+  it('rejects a quilt for another shard count', () => {
+    expect(decodeQuilt(content, 1000)).toBeNull();
+  });
+
+  it('tells from a prefix whether a blob may be a quilt', () => {
+    expect(mayBeQuilt(content.subarray(0, 16), content.length, N_SHARDS)).toBe(true);
+    expect(mayBeQuilt(Buffer.from([0]), content.length, N_SHARDS)).toBe(false);
+    expect(mayBeQuilt(content.subarray(0, 16), content.length + 1, N_SHARDS)).toBe(false);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Reader for Walrus quilts (QuiltV1), blobs that pack many small files
+ * ("patches") into one.
+ *
+ * A quilt is laid out as the matrix RedStuff encodes: rows of
+ * columns * symbolSize bytes, where the shard count fixes the number of
+ * rows (n - 2f) and columns (n - f). Each patch occupies a run of whole
+ * columns. The first columns hold the index:
+ *
+ *   version (u8 = 1) | index size (u32 LE) | BCS Vec<{ end_index: u16, identifier: String, tags: Map<String, String> }>
+ *
+ * and every patch's columns start with a header:
+ *
+ *   version (u8) | length (u32 LE, bytes after the header) | mask (u8)
+ *   [identifier: u16 LE length + bytes, when mask & 1]
+ *   [tags: u16 LE length + BCS bytes, when mask & 2]
+ *   data
+ */
+
+const QUILT_VERSION = 1;
+const INDEX_PREFIX_SIZE = 5;
+const PATCH_HEADER_SIZE = 6;
+const HAS_IDENTIFIER = 1;
+const HAS_TAGS = 2;
+
+// Shard count of Walrus mainnet and testnet; the layout depends on it
+export const DEFAULT_QUILT_SHARDS = 1000;
+
+// Site resources stored in a quilt name their patch with this header
+export const QUILT_PATCH_HEADER = 'x-wal-quilt-patch-internal-id';
+
+export interface QuiltPatch {
+  identifier: string;
+  tags: Record<string, string>;
+  startColumn: number;
+  endColumn: number; // exclusive
+  size: number; // data bytes
+}
+
+export interface Quilt {
+  nShards: number;
+  rows: number;
+  columns: number;
+  symbolSize: number;
+  patches: QuiltPatch[];
+}
+
+/**
+ * The quilt's layout and patches, or null when the content is not a quilt
+ * for this shard count
+ */
+export function decodeQuilt(content: Buffer, nShards: number = DEFAULT_QUILT_SHARDS): Quilt | null {
+  const layout = quiltLayout(content.length, nShards);
+  if (!layout || content.length === 0) {
+    return null;
+  }
+
+  try {
+    const columnSize = layout.rows * layout.symbolSize;
+    const prefix = readColumns(content, layout, 0, Math.min(layout.columns, Math.ceil(INDEX_PREFIX_SIZE / columnSize)));
+    if (prefix[0] !== QUILT_VERSION) {
+      return null;
+    }
+
+    const indexSize = prefix.readUInt32LE(1);
+    const indexColumns = Math.ceil((INDEX_PREFIX_SIZE + indexSize) / columnSize);
+    if (indexColumns > layout.columns) {
+      return null;
+    }
+
+    const reader = new BcsReader(readColumns(content, layout, 0, indexColumns).subarray(INDEX_PREFIX_SIZE, INDEX_PREFIX_SIZE + indexSize));
+    const count = reader.uleb128();
+    const patches: QuiltPatch[] = [];
+    let startColumn = indexColumns;
+    for (let i = 0; i < count; i++) {
+      const endColumn = reader.u16();
+      const identifier = reader.string();
+      const tags = reader.stringMap();
+      if (endColumn <= startColumn || endColumn > layout.columns) {
+        return null;
+      }
+
+      const { data } = readPatch(content, layout, startColumn, endColumn);
+      patches.push({ identifier, tags, startColumn, endColumn, size: data.length });
+      startColumn = endColumn;
+    }
+
+    return { nShards, ...layout, patches };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a blob of this length whose content starts with this prefix can
+ * be a quilt, so reading all of it to decode the index is worthwhile
+ */
+export function mayBeQuilt(prefix: Buffer, length: number, nShards: number = DEFAULT_QUILT_SHARDS): boolean {
+  return length > 0 && prefix.length > 0 && prefix[0] === QUILT_VERSION && quiltLayout(length, nShards) !== null;
+}
+
+/**
+ * Data of the patch with this identifier
+ */
+export function readQuiltPatch(content: Buffer, quilt: Quilt, identifier: string): Buffer {
+  const patch = quilt.patches.find(candidate => candidate.identifier === identifier);
+  if (!patch) {
+    throw new Error(`Quilt has no patch "${identifier}"`);
+  }
+  return readPatch(content, quilt, patch.startColumn, patch.endColumn).data;
+}
+
+/**
+ * Data of the patch a quilt patch internal ID (version u8, start u16 LE,
+ * end u16 LE, hex encoded) points at
+ */
+export function readQuiltPatchById(content: Buffer, internalId: string, nShards: number = DEFAULT_QUILT_SHARDS): Buffer {
+  const bytes = Buffer.from(internalId.replace(/^0x/, ''), 'hex');
+  if (bytes.length !== 5 || bytes[0] !== QUILT_VERSION) {
+    throw new Error(`Invalid quilt patch ID ${internalId}`);
+  }
+
+  const layout = quiltLayout(content.length, nShards);
+  if (!layout) {
+    throw new Error(`Blob of ${content.length} bytes is not a quilt for ${nShards} shards`);
+  }
+  return readPatch(content, layout, bytes.readUInt16LE(1), bytes.readUInt16LE(3)).data;
+}
+
+interface QuiltLayout {
+  rows: number;
+  columns: number;
+  symbolSize: number;
+}
+
+function quiltLayout(length: number, nShards: number): QuiltLayout | null {
+  const maxFaulty = Math.floor((nShards - 1) / 3);
+  const rows = nShards - 2 * maxFaulty;
+  const columns = nShards - maxFaulty;
+  if (length % (rows * columns) !== 0) {
+    return null;
+  }
+  return { rows, columns, symbolSize: length / (rows * columns) };
+}
+
+/**
+ * Columns [start, end) one after another, each top to bottom
+ */
+function readColumns(content: Buffer, layout: QuiltLayout, start: number, end: number): Buffer {
+  const { rows, columns, symbolSize } = layout;
+  const rowSize = columns * symbolSize;
+  const chunks: Buffer[] = [];
+  for (let column = start; column < end; column++) {
+    for (let row = 0; row < rows; row++) {
+      const offset = row * rowSize + column * symbolSize;
+      chunks.push(content.subarray(offset, offset + symbolSize));
+    }
+  }
+  return Buffer.concat(chunks);
+}
+
+function readPatch(content: Buffer, layout: QuiltLayout, start: number, end: number): { data: Buffer } {
+  const bytes = readColumns(content, layout, start, end);
+  const length = bytes.readUInt32LE(1);
+  const mask = bytes[5];
+  if (PATCH_HEADER_SIZE + length > bytes.length) {
+    throw new Error('Patch header exceeds its columns');
+  }
+
+  let offset = PATCH_HEADER_SIZE;
+  if (mask & HAS_IDENTIFIER) {
+    offset += 2 + bytes.readUInt16LE(offset);
+  }
+  if (mask & HAS_TAGS) {
+    offset += 2 + bytes.readUInt16LE(offset);
+  }
+  return { data: bytes.subarray(offset, PATCH_HEADER_SIZE + length) };
+}
+
+class BcsReader {
+  private offset = 0;
+
+  constructor(private bytes: Buffer) {}
+
+  u16(): number {
+    const value = this.bytes.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  uleb128(): number {
+    let value = 0;
+    let shift = 0;
+    for (;;) {
+      const byte = this.bytes[this.offset++];
+      if (byte === undefined) {
+        throw new Error('Unexpected end of BCS data');
+      }
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) {
+        return value;
+      }
+      shift += 7;
+    }
+  }
+
+  string(): string {
+    const length = this.uleb128();
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Unexpected end of BCS data');
+    }
+    const value = this.bytes.toString('utf8', this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  stringMap(): Record<string, string> {
+    const entries: Record<string, string> = {};
+    const count = this.uleb128();
+    for (let i = 0; i < count; i++) {
+      const key = this.string();
+      entries[key] = this.string();
+    }
+    return entries;
+  }
+}
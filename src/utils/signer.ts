@@ -0,0 +1,221 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { Keypair, SIGNATURE_FLAG_TO_SCHEME, decodeSuiPrivateKey } from '@mysten/sui.js/cryptography';
+import { Ed25519Keypair } from '@mysten/sui.js/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui.js/keypairs/secp256k1';
+import { Secp256r1Keypair } from '@mysten/sui.js/keypairs/secp256r1';
+import { fromB64, toB64 } from '@mysten/sui.js/utils';
+import { ConfigReader } from './config-reader.js';
+
+export type SignerBackend = 'auto' | 'keystore' | 'cli';
+
+export const SIGNER_BACKENDS: SignerBackend[] = ['auto', 'keystore', 'cli'];
+
+export const DEFAULT_KEYSTORE_PATH = path.join(os.homedir(), '.sui', 'sui_config', 'sui.keystore');
+
+/**
+ * Signs transaction bytes on behalf of one Sui address
+ */
+export interface Signer {
+  readonly backend: 'keystore' | 'cli';
+  getAddress(): string;
+  /** Returns the serialized Sui signature for the transaction bytes */
+  signTransaction(txBytes: Uint8Array): Promise<string>;
+}
+
+export function parseSignerBackend(value: string): SignerBackend {
+  const backend = value.toLowerCase() as SignerBackend;
+  if (!SIGNER_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown signer "${value}". Expected one of: ${SIGNER_BACKENDS.join(', ')}`);
+  }
+  return backend;
+}
+
+/**
+ * Signs in-process with a key from the Sui CLI keystore
+ */
+export class KeystoreSigner implements Signer {
+  readonly backend = 'keystore' as const;
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+  }
+
+  getAddress(): string {
+    return this.keypair.toSuiAddress();
+  }
+
+  async signTransaction(txBytes: Uint8Array): Promise<string> {
+    const { signature } = await this.keypair.signTransactionBlock(txBytes);
+    return signature;
+  }
+
+  /**
+   * Load the key for an address or alias from the keystore. Without one,
+   * the active address from client.yaml is used, then the only key present.
+   */
+  static async load(addressOrAlias?: string, keystorePath?: string): Promise<KeystoreSigner> {
+    const suiConfig = await new ConfigReader().readSuiConfig();
+    const keypairs = KeystoreSigner.readKeystore(keystorePath || suiConfig?.keystore?.File || DEFAULT_KEYSTORE_PATH);
+
+    if (keypairs.length === 0) {
+      throw new Error('Keystore contains no keys');
+    }
+
+    const wanted = addressOrAlias || suiConfig?.activeAddress;
+    if (!wanted) {
+      if (keypairs.length > 1) {
+        throw new Error('Keystore holds several keys and no active address is configured');
+      }
+      return new KeystoreSigner(keypairs[0]);
+    }
+
+    // Aliases map to public keys through the addresses list in client.yaml
+    const alias = suiConfig?.addresses?.find(entry => entry.alias === wanted);
+    const keypair = keypairs.find(candidate =>
+      alias
+        ? [candidate.getPublicKey().toSuiPublicKey(), candidate.getPublicKey().toBase64()].includes(alias.publicKey)
+        : candidate.toSuiAddress() === normalizeAddress(wanted)
+    );
+
+    if (!keypair) {
+      throw new Error(`No key for ${wanted} in the keystore`);
+    }
+    return new KeystoreSigner(keypair);
+  }
+
+  /**
+   * Parse every key in a sui.keystore file. Entries are base64 of a scheme
+   * flag byte followed by the 32-byte secret key, or bech32 suiprivkey strings.
+   */
+  static readKeystore(keystorePath: string): Keypair[] {
+    let entries: string[];
+    try {
+      entries = JSON.parse(fs.readFileSync(keystorePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read keystore ${keystorePath}: ${error}`);
+    }
+
+    return entries.map(entry => {
+      if (entry.startsWith('suiprivkey')) {
+        const { schema, secretKey } = decodeSuiPrivateKey(entry);
+        return keypairFromSecret(schema, secretKey);
+      }
+
+      const bytes = fromB64(entry);
+      const scheme = SIGNATURE_FLAG_TO_SCHEME[bytes[0] as keyof typeof SIGNATURE_FLAG_TO_SCHEME];
+      return keypairFromSecret(scheme, bytes.slice(1));
+    });
+  }
+}
+
+/**
+ * Signs through `sui keytool sign`, for setups where the key is not in a
+ * readable keystore file
+ */
+export class CliSigner implements Signer {
+  readonly backend = 'cli' as const;
+  private address: string;
+
+  constructor(address: string) {
+    this.address = address;
+  }
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  async signTransaction(txBytes: Uint8Array): Promise<string> {
+    try {
+      const output = await runSuiCommand(['keytool', 'sign', '--address', this.address, '--data', toB64(txBytes), '--json']);
+      const signed = JSON.parse(output);
+      if (!signed.suiSignature) {
+        throw new Error('no signature in keytool output');
+      }
+      return signed.suiSignature;
+    } catch (error) {
+      throw new Error(`Failed to sign transaction: ${error}`);
+    }
+  }
+
+  static async load(address?: string): Promise<CliSigner> {
+    if (address) {
+      return new CliSigner(address);
+    }
+    const output = await runSuiCommand(['client', 'active-address']);
+    return new CliSigner(output.trim());
+  }
+}
+
+/**
+ * Create a signer for the requested backend. "auto" prefers the keystore
+ * and falls back to the sui CLI.
+ */
+export async function createSigner(backend: SignerBackend = 'auto', address?: string): Promise<Signer> {
+  if (backend === 'keystore') {
+    return KeystoreSigner.load(address);
+  }
+  if (backend === 'cli') {
+    return CliSigner.load(address);
+  }
+
+  try {
+    return await KeystoreSigner.load(address);
+  } catch (keystoreError) {
+    try {
+      return await CliSigner.load(address);
+    } catch (cliError) {
+      throw new Error(`No signer available (keystore: ${keystoreError}; sui CLI: ${cliError})`);
+    }
+  }
+}
+
+function keypairFromSecret(scheme: string, secretKey: Uint8Array): Keypair {
+  switch (scheme) {
+    case 'ED25519':
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case 'Secp256k1':
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case 'Secp256r1':
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new Error(`Unsupported key scheme ${scheme}`);
+  }
+}
+
+function normalizeAddress(address: string): string {
+  const hex = address.toLowerCase().replace(/^0x/, '');
+  return '0x' + hex.padStart(64, '0');
+}
+
+function runSuiCommand(args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const process = spawn('sui', args, { stdio: ['pipe', 'pipe', 'pipe'] });
+
+    let stdout = '';
+    let stderr = '';
+
+    process.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    process.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    process.on('close', (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(stderr || `Sui command failed with code ${code}`));
+      }
+    });
+
+    process.on('error', (error) => {
+      reject(error);
+    });
+  });
+}
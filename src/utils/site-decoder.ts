@@ -0,0 +1,285 @@
+import { SuiClient, SuiObjectData, SuiObjectResponse } from '@mysten/sui.js/client';
+import { blobIdFromU256 } from './blob-id.js';
+import { DEFAULT_QUILT_SHARDS, QUILT_PATCH_HEADER, readQuiltPatchById } from './quilt.js';
+
+export interface ResourceRange {
+  start?: number;
+  end?: number;
+}
+
+export interface DecodedResource {
+  path: string;
+  blobId: string;
+  blobHash?: string;
+  headers: Record<string, string>;
+  range?: ResourceRange;
+}
+
+export interface DecodedSite {
+  objectId: string;
+  version?: string;
+  owner?: string;
+  type?: string;
+  name?: string;
+  link?: string;
+  imageUrl?: string;
+  description?: string;
+  projectUrl?: string;
+  creator?: string;
+  resources: DecodedResource[];
+  routes: Record<string, string>; // route pattern -> resource path
+}
+
+/**
+ * A past state of a site: an object version, or a checkpoint
+ */
+export type SiteRevision = { version: string } | { checkpoint: string };
+
+/**
+ * Decodes a Walrus Site object. Metadata comes from the object's fields,
+ * falling back to its Display; resources and the routes table are dynamic
+ * fields of the site, read page by page.
+ */
+export class SiteDecoder {
+  private suiClient: SuiClient;
+
+  constructor(suiRpcUrl: string) {
+    this.suiClient = new SuiClient({ url: suiRpcUrl });
+  }
+
+  async decode(objectId: string): Promise<DecodedSite> {
+    let response: SuiObjectResponse;
+    try {
+      response = await this.suiClient.getObject({
+        id: objectId,
+        options: { showContent: true, showType: true, showOwner: true, showDisplay: true }
+      });
+    } catch (error) {
+      throw new Error(`Failed to fetch site ${objectId}: ${error}`);
+    }
+
+    if (!response.data) {
+      throw new Error(`Site ${objectId} not found`);
+    }
+
+    const fields = await this.readDynamicFields(objectId);
+    return decodeSite(objectId, response.data, fields);
+  }
+
+  /**
+   * The site as it was at an object version, or after the last change at
+   * or before a checkpoint. Past dynamic fields cannot be listed, so they
+   * are rebuilt from the object changes of every transaction that touched
+   * the site; site updates always change the site object itself.
+   */
+  async decodeAt(objectId: string, at: SiteRevision): Promise<DecodedSite> {
+    try {
+      let siteVersion: string | undefined;
+      const fieldVersions = new Map<string, string>(); // field object ID -> version
+
+      let cursor: string | null | undefined = null;
+      let passed = false; // reached a transaction after the revision
+      do {
+        const page = await this.suiClient.queryTransactionBlocks({
+          filter: { ChangedObject: objectId },
+          options: { showObjectChanges: true },
+          cursor,
+          order: 'ascending'
+        });
+
+        for (const tx of page.data) {
+          const siteChange = tx.objectChanges?.find(change => 'objectId' in change && change.objectId === objectId);
+          if (!siteChange || !('version' in siteChange)) continue;
+          if ('version' in at ? BigInt(siteChange.version) > BigInt(at.version) : BigInt(tx.checkpoint ?? 0) > BigInt(at.checkpoint)) {
+            passed = true;
+            break;
+          }
+
+          siteVersion = siteChange.version;
+          for (const change of tx.objectChanges || []) {
+            if (change.type === 'created' || change.type === 'mutated') {
+              const owner = change.owner;
+              if (owner && typeof owner === 'object' && 'ObjectOwner' in owner && owner.ObjectOwner === objectId) {
+                fieldVersions.set(change.objectId, change.version);
+              }
+            } else if (change.type === 'deleted' || change.type === 'wrapped') {
+              fieldVersions.delete(change.objectId);
+            }
+          }
+        }
+
+        cursor = page.hasNextPage ? page.nextCursor : null;
+      } while (cursor && !passed);
+
+      if (!siteVersion) {
+        throw new Error('the site did not exist yet');
+      }
+
+      const site = await this.getPastObject(objectId, siteVersion);
+      const fieldObjects: SuiObjectData[] = [];
+      for (const [fieldId, version] of fieldVersions) {
+        fieldObjects.push(await this.getPastObject(fieldId, version));
+      }
+
+      return decodeSite(objectId, site, decodeFields(fieldObjects));
+    } catch (error) {
+      throw new Error(`Failed to read site ${objectId} at ${describeRevision(at)}: ${error}`);
+    }
+  }
+
+  /**
+   * Only the resources, without the site object or its metadata
+   */
+  async getResources(objectId: string): Promise<DecodedResource[]> {
+    const { resources } = await this.readDynamicFields(objectId);
+    return resources;
+  }
+
+  private async getPastObject(objectId: string, version: string): Promise<SuiObjectData> {
+    const response = await this.suiClient.tryGetPastObject({
+      id: objectId,
+      version: Number(version),
+      options: { showContent: true, showType: true, showOwner: true }
+    });
+    if (response.status !== 'VersionFound') {
+      throw new Error(`${objectId} version ${version}: ${response.status}`);
+    }
+    return response.details;
+  }
+
+  private async readDynamicFields(objectId: string): Promise<SiteFields> {
+    const fieldObjects: SuiObjectData[] = [];
+
+    try {
+      let cursor: string | null | undefined = null;
+      do {
+        // Pages of at most 50 fields fit in one multiGetObjects request
+        const page = await this.suiClient.getDynamicFields({ parentId: objectId, cursor, limit: 50 });
+        const responses = page.data.length === 0 ? [] : await this.suiClient.multiGetObjects({
+          ids: page.data.map(field => field.objectId),
+          options: { showContent: true }
+        });
+        responses.forEach(response => response.data && fieldObjects.push(response.data));
+
+        cursor = page.hasNextPage ? page.nextCursor : null;
+      } while (cursor);
+    } catch (error) {
+      throw new Error(`Failed to read resources of site ${objectId}: ${error}`);
+    }
+
+    return decodeFields(fieldObjects);
+  }
+}
+
+export function describeRevision(at: SiteRevision): string {
+  return 'version' in at ? `version ${at.version}` : `checkpoint ${at.checkpoint}`;
+}
+
+interface SiteFields {
+  resources: DecodedResource[];
+  routes: Record<string, string>;
+}
+
+function decodeSite(objectId: string, data: SuiObjectData, { resources, routes }: SiteFields): DecodedSite {
+  if (data.content?.dataType !== 'moveObject') {
+    throw new Error(`${objectId} is not a Move object`);
+  }
+
+  const fields = (data.content.fields || {}) as Record<string, any>;
+  const display = (data.display?.data || {}) as Record<string, string>;
+  const owner = data.owner;
+  const metadata = (key: string): string | undefined =>
+    [fields[key], display[key]].find(candidate => typeof candidate === 'string' && candidate !== '');
+
+  return {
+    objectId,
+    version: data.version,
+    owner: owner && typeof owner === 'object' && 'AddressOwner' in owner ? owner.AddressOwner : undefined,
+    type: data.type || undefined,
+    name: metadata('name'),
+    link: metadata('link'),
+    imageUrl: metadata('image_url'),
+    description: metadata('description'),
+    projectUrl: metadata('project_url'),
+    creator: metadata('creator'),
+    resources: resources.sort((a, b) => a.path.localeCompare(b.path)),
+    routes
+  };
+}
+
+/**
+ * Sorts a site's dynamic field objects into resources and the routes table
+ */
+function decodeFields(fieldObjects: SuiObjectData[]): SiteFields {
+  const resources: DecodedResource[] = [];
+  let routes: Record<string, string> = {};
+
+  for (const fieldObject of fieldObjects) {
+    const content = fieldObject.content;
+    if (content?.dataType !== 'moveObject') continue;
+
+    const valueFields = (content.fields as any)?.value?.fields;
+    if (!valueFields) continue;
+
+    if (valueFields.route_list) {
+      routes = decodeVecMap(valueFields.route_list);
+    } else if (valueFields.blob_id !== undefined && valueFields.path !== undefined) {
+      resources.push(decodeResource(valueFields));
+    }
+  }
+
+  return { resources, routes };
+}
+
+/**
+ * The bytes of a blob a resource serves: its quilt patch when the blob is
+ * a quilt, then its range. Ranges follow HTTP Range semantics: both bounds
+ * are inclusive.
+ */
+export function resourceContent(blob: Buffer, resource: DecodedResource, nShards: number = DEFAULT_QUILT_SHARDS): Buffer {
+  const patchId = Object.entries(resource.headers).find(([key]) => key.toLowerCase() === QUILT_PATCH_HEADER)?.[1];
+  const content = patchId ? readQuiltPatchById(blob, patchId, nShards) : blob;
+  if (!resource.range) {
+    return content;
+  }
+  const start = resource.range.start ?? 0;
+  const end = resource.range.end !== undefined ? resource.range.end + 1 : content.length;
+  return content.subarray(start, end);
+}
+
+function decodeResource(fields: any): DecodedResource {
+  const resource: DecodedResource = {
+    path: fields.path,
+    blobId: blobIdFromU256(fields.blob_id),
+    blobHash: fields.blob_hash !== undefined ? blobIdFromU256(fields.blob_hash) : undefined,
+    headers: decodeVecMap(fields.headers)
+  };
+
+  // Option<Range> is null or the Range struct; its bounds are Option<u64>
+  const range = fields.range?.fields;
+  if (range) {
+    resource.range = {
+      start: range.start !== null && range.start !== undefined ? Number(range.start) : undefined,
+      end: range.end !== null && range.end !== undefined ? Number(range.end) : undefined
+    };
+  }
+
+  return resource;
+}
+
+/**
+ * VecMap<String, String> as the RPC renders it: { fields: { contents: [{ fields: { key, value } }] } }
+ */
+function decodeVecMap(vecMap: any): Record<string, string> {
+  const entries: Record<string, string> = {};
+  const contents = vecMap?.fields?.contents;
+  if (Array.isArray(contents)) {
+    for (const entry of contents) {
+      const key = entry?.fields?.key;
+      if (typeof key === 'string') {
+        entries[key] = entry.fields.value;
+      }
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,67 @@
+import { WalrusSystemState } from './system-state.js';
+
+// Walrus charges storage in units of 1 MiB of encoded data
+export const BYTES_PER_UNIT_SIZE = 1024 * 1024;
+export const FROST_PER_WAL = 1_000_000_000;
+
+const DIGEST_LENGTH = 32;
+const BLOB_ID_LENGTH = 32;
+
+export interface StorageCost {
+  encodedSize: number;
+  storageUnits: number;
+  storageCost: number; // WAL for the given number of epochs
+  writeCost: number; // WAL, paid once at registration
+}
+
+/**
+ * Size of a blob after RedStuff encoding across n shards: every shard
+ * holds a primary and a secondary sliver plus a copy of the metadata
+ * (two digests per sliver pair and the blob ID).
+ */
+export function encodedBlobSize(unencodedSize: number, nShards: number): number {
+  if (nShards <= 0) {
+    throw new Error('Number of shards must be positive');
+  }
+
+  const maxFaulty = Math.floor((nShards - 1) / 3);
+  const primarySymbols = nShards - 2 * maxFaulty;
+  const secondarySymbols = nShards - maxFaulty;
+
+  let symbolSize = Math.max(1, Math.ceil(unencodedSize / (primarySymbols * secondarySymbols)));
+  // Reed-Solomon over GF(2^16) works on two-byte symbols
+  if (symbolSize % 2 === 1) {
+    symbolSize++;
+  }
+
+  const sliverPairs = nShards * (primarySymbols + secondarySymbols) * symbolSize;
+  const metadata = nShards * DIGEST_LENGTH * 2 + BLOB_ID_LENGTH;
+  return sliverPairs + nShards * metadata;
+}
+
+export function storageUnits(encodedSize: number): number {
+  return Math.ceil(encodedSize / BYTES_PER_UNIT_SIZE);
+}
+
+/**
+ * WAL value of storing encodedSize bytes for a number of epochs at the
+ * current system prices
+ */
+export function storageValue(encodedSize: number, epochs: number, state: WalrusSystemState): number {
+  const frost = BigInt(storageUnits(encodedSize)) * state.storagePricePerUnitSize * BigInt(Math.max(0, epochs));
+  return Number(frost) / FROST_PER_WAL;
+}
+
+/**
+ * Cost of storing a new blob of unencodedSize bytes
+ */
+export function estimateStorageCost(unencodedSize: number, epochs: number, state: WalrusSystemState): StorageCost {
+  const encodedSize = encodedBlobSize(unencodedSize, state.committee.nShards);
+  const units = storageUnits(encodedSize);
+  return {
+    encodedSize,
+    storageUnits: units,
+    storageCost: storageValue(encodedSize, epochs, state),
+    writeCost: Number(BigInt(units) * state.writePricePerUnitSize) / FROST_PER_WAL
+  };
+}
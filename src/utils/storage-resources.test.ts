@@ -0,0 +1,75 @@
+import { SuiObjectResponse } from '@mysten/sui.js/client';
+import { StorageResource, parseStorageResource, planFuse, suggestFuses } from './storage-resources.js';
+
+function resource(objectId: string, startEpoch: number, endEpoch: number, storageSize: number): StorageResource {
+  return { objectId, startEpoch, endEpoch, storageSize };
+}
+
+describe('planFuse', () => {
+  it('adds up the sizes of resources over the same epochs', () => {
+    expect(planFuse([resource('a', 1, 5, 100), resource('b', 1, 5, 250)])).toEqual({
+      result: { startEpoch: 1, endEpoch: 5, storageSize: 350 }
+    });
+  });
+
+  it('joins resources of the same size whose epochs touch, in any order', () => {
+    expect(planFuse([resource('c', 9, 12, 100), resource('a', 1, 5, 100), resource('b', 5, 9, 100)])).toEqual({
+      result: { startEpoch: 1, endEpoch: 12, storageSize: 100 }
+    });
+  });
+
+  it('names the first resource that cannot be fused', () => {
+    expect(planFuse([resource('a', 1, 5, 100), resource('b', 6, 9, 100)]).error)
+      .toBe('b (epochs 6-9, 100 bytes) neither covers the same epochs nor continues epochs 1-5 with the same size');
+    expect(planFuse([resource('a', 1, 5, 100), resource('b', 5, 9, 200)]).error).toMatch(/^b /);
+  });
+
+  it('needs at least two resources', () => {
+    expect(planFuse([resource('a', 1, 5, 100)])).toEqual({ error: 'At least two Storage resources are needed to fuse' });
+  });
+});
+
+describe('suggestFuses', () => {
+  it('groups resources by epochs first, then chains the rest', () => {
+    const suggestions = suggestFuses([
+      resource('same1', 1, 5, 100),
+      resource('same2', 1, 5, 300),
+      resource('next', 5, 8, 100),
+      resource('chain1', 2, 4, 50),
+      resource('chain2', 4, 6, 50),
+      resource('alone', 3, 7, 10)
+    ]);
+
+    expect(suggestions).toEqual([
+      { objectIds: ['same1', 'same2'], result: { startEpoch: 1, endEpoch: 5, storageSize: 400 } },
+      { objectIds: ['chain1', 'chain2'], result: { startEpoch: 2, endEpoch: 6, storageSize: 50 } }
+    ]);
+  });
+
+  it('skips resources that have already ended', () => {
+    const resources = [resource('a', 1, 5, 100), resource('b', 1, 5, 100)];
+
+    expect(suggestFuses(resources, 5)).toEqual([]);
+    expect(suggestFuses(resources, 4)).toHaveLength(1);
+  });
+});
+
+describe('parseStorageResource', () => {
+  it('reads the epochs and size of a Storage object', () => {
+    const obj = {
+      data: {
+        objectId: '0x1',
+        content: { dataType: 'moveObject', fields: { start_epoch: 3, end_epoch: '10', storage_size: '2048' } }
+      }
+    } as unknown as SuiObjectResponse;
+
+    expect(parseStorageResource(obj)).toEqual(resource('0x1', 3, 10, 2048));
+  });
+
+  it('ignores objects without storage fields', () => {
+    const obj = { data: { objectId: '0x1', content: { dataType: 'moveObject', fields: { id: '0x1' } } } } as unknown as SuiObjectResponse;
+
+    expect(parseStorageResource(obj)).toBeNull();
+    expect(parseStorageResource({ error: { code: 'notExists' } } as unknown as SuiObjectResponse)).toBeNull();
+  });
+});
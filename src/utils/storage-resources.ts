@@ -0,0 +1,185 @@
+import { SuiClient, SuiObjectResponse } from '@mysten/sui.js/client';
+import { TransactionBlock } from '@mysten/sui.js/transactions';
+
+/**
+ * A Walrus Storage resource: capacity reserved for [startEpoch, endEpoch)
+ */
+export interface StorageResource {
+  objectId: string;
+  startEpoch: number;
+  endEpoch: number;
+  storageSize: number; // encoded bytes
+}
+
+export interface FuseSuggestion {
+  objectIds: string[];
+  result: Omit<StorageResource, 'objectId'>;
+}
+
+/**
+ * Package that defines the Walrus types. Unlike the package to call, this
+ * is the original package, which is what the System object's type names.
+ */
+export async function resolveWalrusTypePackage(suiClient: SuiClient, systemObjectId: string): Promise<string> {
+  try {
+    const response = await suiClient.getObject({ id: systemObjectId, options: { showType: true } });
+    if (!response.data?.type) {
+      throw new Error(`System object ${systemObjectId} not found`);
+    }
+    return response.data.type.split('::')[0];
+  } catch (error) {
+    throw new Error(`Failed to resolve Walrus type package: ${error}`);
+  }
+}
+
+export function storageResourceType(typePackage: string): string {
+  return `${typePackage}::storage_resource::Storage`;
+}
+
+export function blobObjectType(typePackage: string): string {
+  return `${typePackage}::blob::Blob`;
+}
+
+export function parseStorageResource(obj: SuiObjectResponse): StorageResource | null {
+  if (obj.data?.content?.dataType !== 'moveObject') {
+    return null;
+  }
+  const fields = obj.data.content.fields as any;
+  if (fields?.start_epoch === undefined || fields?.end_epoch === undefined || fields?.storage_size === undefined) {
+    return null;
+  }
+  return {
+    objectId: obj.data.objectId,
+    startEpoch: Number(fields.start_epoch),
+    endEpoch: Number(fields.end_epoch),
+    storageSize: Number(fields.storage_size)
+  };
+}
+
+/**
+ * Result of fusing resources in the order given, or an error naming the
+ * first one that cannot be fused. Resources with the same epochs add up
+ * their sizes; resources of the same size join when their epochs touch.
+ */
+export function planFuse(resources: StorageResource[]): { result?: Omit<StorageResource, 'objectId'>; error?: string } {
+  if (resources.length < 2) {
+    return { error: 'At least two Storage resources are needed to fuse' };
+  }
+
+  const [first, ...rest] = [...resources].sort((a, b) => a.startEpoch - b.startEpoch);
+  const acc = { startEpoch: first.startEpoch, endEpoch: first.endEpoch, storageSize: first.storageSize };
+
+  for (const next of rest) {
+    if (next.startEpoch === acc.startEpoch && next.endEpoch === acc.endEpoch) {
+      acc.storageSize += next.storageSize;
+    } else if (next.storageSize === acc.storageSize && next.startEpoch === acc.endEpoch) {
+      acc.endEpoch = next.endEpoch;
+    } else {
+      return { error: `${next.objectId} (epochs ${next.startEpoch}-${next.endEpoch}, ${next.storageSize} bytes) neither covers the same epochs nor continues epochs ${acc.startEpoch}-${acc.endEpoch} with the same size` };
+    }
+  }
+
+  return { result: acc };
+}
+
+/**
+ * Groups of live resources that could be fused: same epochs, or the same
+ * size with touching epochs
+ */
+export function suggestFuses(resources: StorageResource[], currentEpoch?: number): FuseSuggestion[] {
+  const live = resources.filter(resource => currentEpoch === undefined || resource.endEpoch > currentEpoch);
+  const suggestions: FuseSuggestion[] = [];
+  const used = new Set<string>();
+
+  const byRange = new Map<string, StorageResource[]>();
+  for (const resource of live) {
+    const key = `${resource.startEpoch}-${resource.endEpoch}`;
+    byRange.set(key, [...(byRange.get(key) || []), resource]);
+  }
+  for (const group of byRange.values()) {
+    if (group.length > 1) {
+      const { result } = planFuse(group);
+      if (result) {
+        suggestions.push({ objectIds: group.map(resource => resource.objectId), result });
+        group.forEach(resource => used.add(resource.objectId));
+      }
+    }
+  }
+
+  const rest = live.filter(resource => !used.has(resource.objectId)).sort((a, b) => a.startEpoch - b.startEpoch);
+  for (const resource of rest) {
+    if (used.has(resource.objectId)) continue;
+    const chain = [resource];
+    let tail = resource;
+    for (const next of rest) {
+      if (!used.has(next.objectId) && next.storageSize === tail.storageSize && next.startEpoch === tail.endEpoch) {
+        chain.push(next);
+        tail = next;
+      }
+    }
+    if (chain.length > 1) {
+      const { result } = planFuse(chain);
+      if (result) {
+        suggestions.push({ objectIds: chain.map(item => item.objectId), result });
+        chain.forEach(item => used.add(item.objectId));
+      }
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Fuse every resource into the one with the earliest start epoch
+ */
+export function buildFuseTransaction(packageId: string, objectIds: string[], sender: string): TransactionBlock {
+  const tx = new TransactionBlock();
+  tx.setSender(sender);
+
+  const [target, ...others] = objectIds;
+  for (const other of others) {
+    tx.moveCall({
+      target: `${packageId}::storage_resource::fuse`,
+      arguments: [tx.object(target), tx.object(other)]
+    });
+  }
+  return tx;
+}
+
+/**
+ * Split a resource in two, either at an epoch (the new resource covers
+ * [epoch, end)) or by size (the new resource holds size bytes). The new
+ * resource goes to the sender.
+ */
+export function buildSplitTransaction(
+  packageId: string,
+  objectId: string,
+  split: { epoch: number } | { size: number },
+  sender: string
+): TransactionBlock {
+  const tx = new TransactionBlock();
+  tx.setSender(sender);
+
+  const created = 'epoch' in split
+    ? tx.moveCall({
+        target: `${packageId}::storage_resource::split_by_epoch`,
+        arguments: [tx.object(objectId), tx.pure.u32(split.epoch)]
+      })
+    : tx.moveCall({
+        target: `${packageId}::storage_resource::split_by_size`,
+        arguments: [tx.object(objectId), tx.pure.u64(split.size)]
+      });
+
+  tx.transferObjects([created], tx.pure.address(sender));
+  return tx;
+}
+
+/**
+ * Live resources large enough for encodedSize, the ones ending soonest
+ * (and then the smallest) first
+ */
+export function findFittingResources(resources: StorageResource[], encodedSize: number, currentEpoch: number): StorageResource[] {
+  return resources
+    .filter(resource => resource.storageSize >= encodedSize && resource.endEpoch > currentEpoch && resource.startEpoch <= currentEpoch)
+    .sort((a, b) => a.endEpoch - b.endEpoch || a.storageSize - b.storageSize);
+}
@@ -0,0 +1,193 @@
+import { SuiClient } from '@mysten/sui.js/client';
+import { SUINS_PACKAGE, SUINS_REGISTRY } from '../config/walrus.js';
+import { SuiNSRecord, WalrusConfig } from '../types/index.js';
+
+// Portals serve <name>.wal.app (and the older <name>.walrus.site) from <name>.sui
+const PORTAL_HOSTS = /^([a-z0-9-]+)\.(wal\.app|walrus\.site)$/i;
+
+/**
+ * Looks up SuiNS names in the registry: forward (name -> record with its
+ * target address and walrus_site_id) and reverse (address -> default name)
+ */
+export class SuiNSResolver {
+  private suiClient: SuiClient;
+  private suinsPackageId: string;
+  private registryTableId: string;
+  private reverseRegistryTableId: string;
+
+  constructor(suiClient: SuiClient, config: WalrusConfig) {
+    const network = config.network as keyof typeof SUINS_REGISTRY;
+    this.suiClient = suiClient;
+    this.suinsPackageId = SUINS_PACKAGE[network] || '0x';
+    this.registryTableId = SUINS_REGISTRY[network]?.registryTableId || '0x';
+    this.reverseRegistryTableId = SUINS_REGISTRY[network]?.reverseRegistryTableId || '0x';
+  }
+
+  /**
+   * The registry record for a name such as example.sui or blog.example.sui.
+   * Returns null when the name is not registered.
+   */
+  async resolveName(name: string): Promise<SuiNSRecord | null> {
+    const domain = normalizeName(name);
+    this.ensureConfigured();
+
+    try {
+      // Domains keep their labels top-level first
+      const response = await this.suiClient.getDynamicFieldObject({
+        parentId: this.registryTableId,
+        name: {
+          type: `${this.suinsPackageId}::domain::Domain`,
+          value: { labels: domain.split('.').reverse() }
+        }
+      });
+      if (response.data?.content?.dataType !== 'moveObject') {
+        return null;
+      }
+
+      const record = (response.data.content.fields as any)?.value?.fields;
+      if (!record) {
+        return null;
+      }
+
+      const data = decodeVecMap(record.data);
+      const result: SuiNSRecord = {
+        name: domain.replace(/\.sui$/, ''),
+        domain,
+        objectId: record.nft_id,
+        targetAddress: record.target_address || undefined,
+        targetSiteId: data.walrus_site_id || undefined,
+        expiresAt: record.expiration_timestamp_ms !== undefined ? Number(record.expiration_timestamp_ms) : undefined
+      };
+
+      const nft = await this.suiClient.getObject({ id: record.nft_id, options: { showOwner: true } });
+      const owner = nft.data?.owner;
+      if (owner && typeof owner === 'object' && 'AddressOwner' in owner) {
+        result.owner = owner.AddressOwner;
+      }
+
+      return result;
+    } catch (error) {
+      throw new Error(`Failed to resolve ${domain}: ${error}`);
+    }
+  }
+
+  /**
+   * The default name an address has set, if any
+   */
+  async reverseLookup(address: string): Promise<string | null> {
+    this.ensureConfigured();
+
+    try {
+      const response = await this.suiClient.getDynamicFieldObject({
+        parentId: this.reverseRegistryTableId,
+        name: { type: 'address', value: address }
+      });
+      if (response.data?.content?.dataType !== 'moveObject') {
+        return null;
+      }
+
+      const labels = (response.data.content.fields as any)?.value?.fields?.labels;
+      return Array.isArray(labels) ? [...labels].reverse().join('.') : null;
+    } catch (error) {
+      throw new Error(`Failed to look up the default name of ${address}: ${error}`);
+    }
+  }
+
+  /**
+   * Unexpired names whose walrus_site_id is the site. The registry is not
+   * indexed by site, so candidates come from the site's link, the default
+   * name of its owner and the names its owner holds; each is confirmed by
+   * a forward lookup, so names owned by other wallets are found as long as
+   * one of those points at them.
+   */
+  async findDomainsForSite(siteObjectId: string, extraCandidates: string[] = []): Promise<SuiNSRecord[]> {
+    const site = await this.suiClient.getObject({
+      id: siteObjectId,
+      options: { showOwner: true, showContent: true, showDisplay: true }
+    });
+
+    const candidates = new Set<string>(extraCandidates.map(normalizeName));
+    const fields = site.data?.content?.dataType === 'moveObject' ? (site.data.content.fields as any) : undefined;
+    const link = fields?.link || site.data?.display?.data?.link;
+    const host = typeof link === 'string' ? hostOf(link) : undefined;
+    const portalName = host?.match(PORTAL_HOSTS)?.[1];
+    if (portalName) {
+      candidates.add(`${portalName.toLowerCase()}.sui`);
+    }
+
+    const owner = site.data?.owner;
+    if (owner && typeof owner === 'object' && 'AddressOwner' in owner) {
+      const defaultName = await this.reverseLookup(owner.AddressOwner);
+      if (defaultName) {
+        candidates.add(defaultName);
+      }
+      (await this.getOwnedNames(owner.AddressOwner)).forEach(name => candidates.add(name));
+    }
+
+    const records: SuiNSRecord[] = [];
+    for (const candidate of candidates) {
+      const record = await this.resolveName(candidate);
+      if (record?.targetSiteId === siteObjectId && (record.expiresAt === undefined || record.expiresAt > Date.now())) {
+        records.push(record);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Names of the SuinsRegistration NFTs an address holds
+   */
+  async getOwnedNames(address: string): Promise<string[]> {
+    const names: string[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+      const page = await this.suiClient.getOwnedObjects({
+        owner: address,
+        filter: { StructType: `${this.suinsPackageId}::suins_registration::SuinsRegistration` },
+        options: { showContent: true },
+        cursor
+      });
+      for (const obj of page.data) {
+        const domainName = obj.data?.content?.dataType === 'moveObject' ? (obj.data.content.fields as any)?.domain_name : undefined;
+        if (typeof domainName === 'string') {
+          names.push(domainName);
+        }
+      }
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+    return names;
+  }
+
+  private ensureConfigured(): void {
+    if (this.registryTableId === '0x' || this.suinsPackageId === '0x') {
+      throw new Error('No SuiNS registry configured for this network');
+    }
+  }
+}
+
+/**
+ * example, example.sui and @example all become example.sui;
+ * blog@example becomes blog.example.sui
+ */
+export function normalizeName(name: string): string {
+  const trimmed = name.trim().toLowerCase().split('@').filter(Boolean).join('.');
+  return trimmed.endsWith('.sui') ? trimmed : `${trimmed}.sui`;
+}
+
+function hostOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+function decodeVecMap(vecMap: any): Record<string, string> {
+  const entries: Record<string, string> = {};
+  for (const entry of vecMap?.fields?.contents || []) {
+    if (typeof entry?.fields?.key === 'string') {
+      entries[entry.fields.key] = entry.fields.value;
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,170 @@
+import { SuiClient } from '@mysten/sui.js/client';
+import { BlobInfo, WalrusConfig } from '../types/index.js';
+
+export interface WalrusCommitteeInfo {
+  epoch: number;
+  nShards: number;
+  members: number;
+  totalWeight?: number;
+}
+
+export interface WalrusSystemState {
+  epoch: number;
+  epochDurationMs?: number;
+  firstEpochStartMs?: number;
+  committee: WalrusCommitteeInfo;
+  storagePricePerUnitSize: bigint; // FROST per MiB per epoch
+  writePricePerUnitSize: bigint; // FROST per MiB, paid once
+  totalCapacitySize?: bigint;
+  usedCapacitySize?: bigint;
+  maxEpochsAhead?: number; // how far past the current epoch storage can be bought
+}
+
+/**
+ * Reads the current Walrus epoch, committee and prices from the shared
+ * System and Staking objects. Both keep their state in a versioned inner
+ * object stored as a dynamic field keyed by the object's version.
+ */
+export class SystemStateReader {
+  private suiClient: SuiClient;
+  private config: WalrusConfig;
+  private cached?: Promise<WalrusSystemState>;
+
+  constructor(suiRpcUrl: string, config: WalrusConfig) {
+    this.suiClient = new SuiClient({ url: suiRpcUrl });
+    this.config = config;
+  }
+
+  /**
+   * Fetch the state once per reader; later calls reuse it
+   */
+  async getState(): Promise<WalrusSystemState> {
+    if (!this.cached) {
+      this.cached = this.fetchState();
+      this.cached.catch(() => {
+        this.cached = undefined;
+      });
+    }
+    return this.cached;
+  }
+
+  private async fetchState(): Promise<WalrusSystemState> {
+    if (!this.config.systemObject || this.config.systemObject === '0x') {
+      throw new Error(`No Walrus system object configured for ${this.config.network}`);
+    }
+
+    try {
+      const system = await this.readInnerFields(this.config.systemObject);
+      const committee = system.committee?.fields || {};
+      const staking = this.config.stakingObject && this.config.stakingObject !== '0x'
+        ? await this.readInnerFields(this.config.stakingObject).catch(() => undefined)
+        : undefined;
+
+      const epoch = Number(committee.epoch ?? staking?.epoch);
+      if (!Number.isFinite(epoch)) {
+        throw new Error('system state has no epoch');
+      }
+
+      return {
+        epoch,
+        epochDurationMs: staking?.epoch_duration !== undefined ? Number(staking.epoch_duration) : undefined,
+        firstEpochStartMs: staking?.first_epoch_start !== undefined ? Number(staking.first_epoch_start) : undefined,
+        committee: {
+          epoch,
+          nShards: Number(committee.n_shards ?? staking?.n_shards ?? 0),
+          members: Array.isArray(committee.members) ? committee.members.length : 0,
+          totalWeight: committee.total_aggregated_weight !== undefined ? Number(committee.total_aggregated_weight) : undefined
+        },
+        storagePricePerUnitSize: BigInt(system.storage_price_per_unit_size ?? 0),
+        writePricePerUnitSize: BigInt(system.write_price_per_unit_size ?? 0),
+        totalCapacitySize: system.total_capacity_size !== undefined ? BigInt(system.total_capacity_size) : undefined,
+        usedCapacitySize: system.used_capacity_size !== undefined ? BigInt(system.used_capacity_size) : undefined,
+        // The future accounting ring buffer holds one slot per epoch that can be paid for
+        maxEpochsAhead: system.future_accounting?.fields?.length !== undefined ? Number(system.future_accounting.fields.length) : undefined
+      };
+    } catch (error) {
+      throw new Error(`Failed to read Walrus system state: ${error}`);
+    }
+  }
+
+  private async readInnerFields(objectId: string): Promise<any> {
+    const wrapper = await this.suiClient.getObject({ id: objectId, options: { showContent: true } });
+    const content = wrapper.data?.content;
+    if (content?.dataType !== 'moveObject') {
+      throw new Error(`Object ${objectId} not found`);
+    }
+
+    const version = (content.fields as any).version;
+    const inner = await this.suiClient.getDynamicFieldObject({
+      parentId: objectId,
+      name: { type: 'u64', value: String(version) }
+    });
+    const innerContent = inner.data?.content;
+    if (innerContent?.dataType !== 'moveObject') {
+      throw new Error(`Inner state of ${objectId} not found`);
+    }
+
+    return (innerContent.fields as any).value?.fields;
+  }
+}
+
+/**
+ * Storage is paid up to, but not including, the end epoch
+ */
+export function isExpiredAt(endEpoch: number | undefined, currentEpoch: number): boolean {
+  return endEpoch !== undefined && Number(endEpoch) <= currentEpoch;
+}
+
+/**
+ * Recompute isExpired for blobs whose flag was set without a known epoch
+ * or read from an older inventory snapshot
+ */
+export function applyExpiry<T extends BlobInfo>(blobs: T[], currentEpoch: number): T[] {
+  for (const blob of blobs) {
+    if (blob.endEpoch !== undefined) {
+      blob.isExpired = isExpiredAt(blob.endEpoch, currentEpoch);
+    }
+  }
+  return blobs;
+}
+
+/**
+ * Approximate wall-clock start of an epoch. Epoch 1 started at
+ * first_epoch_start; without it, epochs are counted from now.
+ */
+export function estimateEpochStart(epoch: number, state: WalrusSystemState): Date | undefined {
+  if (!state.epochDurationMs) {
+    return undefined;
+  }
+  if (state.firstEpochStartMs) {
+    return new Date(state.firstEpochStartMs + (epoch - 1) * state.epochDurationMs);
+  }
+  return new Date(Date.now() + (epoch - state.epoch) * state.epochDurationMs);
+}
+
+export function formatDuration(ms: number): string {
+  const hours = Math.abs(ms) / 3_600_000;
+  if (hours < 48) {
+    return `${Math.round(hours)} hours`;
+  }
+  return `${Math.round(hours / 24)} days`;
+}
+
+/**
+ * Remaining lifetime, e.g. "12 epochs (~168 days, until 2025-09-01)"
+ * or "expired 3 epochs ago"
+ */
+export function formatLifetime(endEpoch: number, state: WalrusSystemState): string {
+  const remaining = Number(endEpoch) - state.epoch;
+  const end = estimateEpochStart(Number(endEpoch), state);
+  const clock = end ? formatDuration(end.getTime() - Date.now()) : undefined;
+
+  if (remaining <= 0) {
+    return remaining === 0
+      ? 'expired this epoch'
+      : `expired ${-remaining} epoch${remaining === -1 ? '' : 's'} ago${clock ? ` (~${clock})` : ''}`;
+  }
+
+  return `${remaining} epoch${remaining === 1 ? '' : 's'}` +
+    (clock && end ? ` (~${clock}, until ${end.toISOString().slice(0, 10)})` : '');
+}
@@ -1,25 +1,80 @@
 import { spawn } from 'child_process';
+import * as fs from 'fs';
 import axios from 'axios';
 import { BlobInfo } from '../types/index.js';
 import { DEFAULT_AGGREGATOR_URL } from '../config/walrus.js';
-import { SuiClient } from '@mysten/sui.js/client';
+import { SuiClient, SuiObjectResponse } from '@mysten/sui.js/client';
+import { iterateOwnedObjects } from './owned-objects.js';
+import { Signer } from './signer.js';
+import { toBase64UrlBlobId } from './blob-id.js';
+import { isExpiredAt } from './system-state.js';
+import { buildDeletionTransaction, resolveWalrusPackageId } from './deletion-transaction.js';
+import { blobObjectType, resolveWalrusTypePackage } from './storage-resources.js';
+
+export interface WalletScanProgress {
+  pagesFetched: number;
+  objectsScanned: number;
+  blobsFound: number;
+  done: boolean;
+}
+
+/**
+ * Whether a type is the Walrus Blob struct. Without the resolved type, as
+ * on networks with no system object configured, any package's blob::Blob
+ * struct matches.
+ */
+export function isWalrusBlobType(objectType: string, blobType?: string): boolean {
+  return blobType ? objectType === blobType : /^0x[0-9a-fA-F]+::blob::Blob$/.test(objectType);
+}
+
+/**
+ * Lets storeBlob and deleteBlob run without the walrus binary: deletions are
+ * signed by the signer, uploads go through the publisher and the new Blob
+ * object is sent to the signer's address.
+ */
+export interface WalrusClientSigning {
+  signer: Signer;
+  systemObjectId?: string;
+  publisherUrl?: string;
+}
 
 export class WalrusClient {
   private aggregatorUrl: string;
   private suiClient?: SuiClient;
+  private signing?: WalrusClientSigning;
+  private currentEpoch?: number;
+  private systemObjectId?: string;
+  private blobType?: Promise<string | undefined>;
 
-  constructor(aggregatorUrl: string = DEFAULT_AGGREGATOR_URL, suiRpcUrl?: string) {
+  constructor(aggregatorUrl: string = DEFAULT_AGGREGATOR_URL, suiRpcUrl?: string, signing?: WalrusClientSigning) {
     this.aggregatorUrl = aggregatorUrl;
     if (suiRpcUrl) {
       this.suiClient = new SuiClient({ url: suiRpcUrl });
     }
+    this.signing = signing;
+  }
+
+  /**
+   * Walrus epoch used to decide BlobInfo.isExpired. Until it is set, no
+   * blob is reported as expired.
+   */
+  setCurrentEpoch(epoch: number): void {
+    this.currentEpoch = epoch;
+  }
+
+  /**
+   * System object whose package defines the Blob type, so wallet listings
+   * only return objects of exactly that type
+   */
+  setSystemObject(systemObjectId: string): void {
+    this.systemObjectId = systemObjectId;
+    this.blobType = undefined;
   }
 
   async readBlob(blobId: string): Promise<Buffer> {
     try {
-      // Clean up blob ID - remove 0x prefix if present for the API
-      const cleanBlobId = blobId.startsWith('0x') ? blobId.slice(2) : blobId;
-      const response = await axios.get(`${this.aggregatorUrl}/v1/${cleanBlobId}`, {
+      // The aggregator takes the base64url form; hex IDs read from Sui are converted
+      const response = await axios.get(`${this.aggregatorUrl}/v1/${toBase64UrlBlobId(blobId)}`, {
         responseType: 'arraybuffer',
         timeout: 30000
       });
@@ -29,11 +84,34 @@ export class WalrusClient {
     }
   }
 
+  /**
+   * The first bytes of a blob. The read is cut off once they have arrived,
+   * in case the aggregator ignores the Range header.
+   */
+  async readBlobPrefix(blobId: string, length: number): Promise<Buffer> {
+    try {
+      const response = await axios.get(`${this.aggregatorUrl}/v1/${toBase64UrlBlobId(blobId)}`, {
+        responseType: 'stream',
+        headers: { Range: `bytes=0-${length - 1}` },
+        timeout: 30000
+      });
+
+      const chunks: Buffer[] = [];
+      let received = 0;
+      for await (const chunk of response.data) {
+        chunks.push(chunk);
+        received += chunk.length;
+        if (received >= length) break;
+      }
+      return Buffer.concat(chunks).subarray(0, length);
+    } catch (error) {
+      throw new Error(`Failed to read the start of blob ${blobId}: ${error}`);
+    }
+  }
+
   async getBlobInfo(blobId: string): Promise<BlobInfo | null> {
     try {
-      // Clean up blob ID - remove 0x prefix if present for the API
-      const cleanBlobId = blobId.startsWith('0x') ? blobId.slice(2) : blobId;
-      const response = await axios.head(`${this.aggregatorUrl}/v1/${cleanBlobId}`);
+      const response = await axios.head(`${this.aggregatorUrl}/v1/${toBase64UrlBlobId(blobId)}`);
       
       return {
         blobId,
@@ -77,7 +155,7 @@ export class WalrusClient {
           const blobs: BlobInfo[] = result.blobs?.map((blob: any) => ({
             blobId: blob.blob_id,
             size: blob.size,
-            isExpired: blob.end_epoch ? blob.end_epoch < Date.now() / 1000 : false,
+            isExpired: this.checkIfExpired(blob.end_epoch),
             endEpoch: blob.end_epoch,
             isDeletable: blob.deletable,
             suiObjectId: blob.sui_object_id
@@ -95,9 +173,39 @@ export class WalrusClient {
     });
   }
 
-  async storeBlob(filePath: string, epochs: number = 100): Promise<string> {
+  async storeBlob(filePath: string, epochs: number = 100, deletable: boolean = false): Promise<string> {
+    if (this.signing?.publisherUrl) {
+      return this.storeBlobViaPublisher(filePath, epochs, deletable, this.signing.publisherUrl, this.signing.signer);
+    }
+    return this.storeBlobViaCli(filePath, epochs, deletable);
+  }
+
+  private async storeBlobViaPublisher(
+    filePath: string,
+    epochs: number,
+    deletable: boolean,
+    publisherUrl: string,
+    signer: Signer
+  ): Promise<string> {
+    try {
+      const response = await axios.put(`${publisherUrl}/v1/blobs`, fs.readFileSync(filePath), {
+        params: { epochs, send_object_to: signer.getAddress(), ...(deletable ? { deletable: true } : { permanent: true }) },
+        maxBodyLength: Infinity
+      });
+      const blobId = response.data.newlyCreated?.blobObject?.blobId || response.data.alreadyCertified?.blobId;
+      if (!blobId) {
+        throw new Error('publisher response has no blob ID');
+      }
+      return blobId;
+    } catch (error) {
+      throw new Error(`Failed to store blob via publisher: ${error}`);
+    }
+  }
+
+  private async storeBlobViaCli(filePath: string, epochs: number, deletable: boolean): Promise<string> {
+    const args = ['store', filePath, '--epochs', epochs.toString(), '--json', ...(deletable ? ['--deletable'] : [])];
     return new Promise((resolve, reject) => {
-      const walrusProcess = spawn('walrus', ['store', filePath, '--epochs', epochs.toString(), '--json'], {
+      const walrusProcess = spawn('walrus', args, {
         stdio: ['pipe', 'pipe', 'pipe']
       });
 
@@ -119,8 +227,10 @@ export class WalrusClient {
         }
 
         try {
-          const result = JSON.parse(stdout);
-          resolve(result.blob_id || result.newlyCreated?.blobObject?.blobId);
+          // Newer CLIs wrap each stored file in a list of blobStoreResult entries
+          const parsed = JSON.parse(stdout);
+          const result = Array.isArray(parsed) ? parsed[0]?.blobStoreResult : parsed;
+          resolve(result.blob_id || result.newlyCreated?.blobObject?.blobId || result.alreadyCertified?.blobId);
         } catch (parseError) {
           reject(new Error(`Failed to parse store result: ${parseError}`));
         }
@@ -128,89 +238,194 @@ export class WalrusClient {
     });
   }
 
-  async listBlobsForWallet(walletAddress: string): Promise<BlobInfo[]> {
+  async listBlobsForWallet(
+    walletAddress: string,
+    onProgress?: (progress: WalletScanProgress) => void
+  ): Promise<BlobInfo[]> {
+    const blobInfos: BlobInfo[] = [];
+
+    for await (const blobInfo of this.iterateWalletBlobs(walletAddress, onProgress)) {
+      blobInfos.push(blobInfo);
+    }
+
+    return blobInfos;
+  }
+
+  async *iterateWalletBlobs(
+    walletAddress: string,
+    onProgress?: (progress: WalletScanProgress) => void
+  ): AsyncGenerator<BlobInfo> {
     if (!this.suiClient) {
       throw new Error('Sui client not initialized. Provide suiRpcUrl in constructor.');
     }
 
+    const progress: WalletScanProgress = {
+      pagesFetched: 0,
+      objectsScanned: 0,
+      blobsFound: 0,
+      done: false
+    };
+
     try {
-      // First, get all objects owned by the wallet without filtering
-      // We'll filter for Walrus objects manually
-      const ownedObjects = await this.suiClient.getOwnedObjects({
+      // Only Blob objects when their type is known; otherwise every owned
+      // object, checked one by one
+      const blobType = await this.resolveBlobType();
+      const ownedObjects = iterateOwnedObjects(this.suiClient, {
         owner: walletAddress,
+        ...(blobType ? { filter: { StructType: blobType } } : {}),
         options: {
           showContent: true,
           showType: true,
           showDisplay: true
         }
+      }, (page) => {
+        // The last page's objects are still to be checked here, so done is
+        // only reported once after the loop, with the final blob count
+        progress.pagesFetched = page.pagesFetched;
+        progress.objectsScanned = page.objectsFetched;
+        onProgress?.({ ...progress });
       });
 
-      const blobInfos: BlobInfo[] = [];
-
-      for (const obj of ownedObjects.data) {
-        if (obj.data?.content?.dataType === 'moveObject' && obj.data?.type) {
-          const objectType = obj.data.type;
-          
-          // Check if this is a Walrus blob object
-          // The type might be something like: 0x<package>::storage::Blob or similar
-          if (objectType.includes('walrus') || objectType.includes('Blob') || objectType.includes('storage')) {
-            // Found a potential Walrus object
-            
-            const fields = (obj.data.content as any).fields;
-            let blobId = fields?.blob_id || fields?.id || fields?.blobId;
-            
-            // Convert blob ID from decimal to hex if necessary
-            if (blobId && typeof blobId === 'string' && /^\d+$/.test(blobId)) {
-              // It's a decimal number, convert to hex
-              const bigIntValue = BigInt(blobId);
-              blobId = '0x' + bigIntValue.toString(16).padStart(64, '0');
-            } else if (blobId && typeof blobId === 'number') {
-              // Convert number to hex
-              blobId = '0x' + BigInt(blobId).toString(16).padStart(64, '0');
-            }
-            
-            if (blobId) {
-              const blobInfo: BlobInfo = {
-                blobId: blobId,
-                suiObjectId: obj.data.objectId,
-                owner: walletAddress,
-                isExpired: this.checkIfExpired(fields),
-                endEpoch: fields?.end_epoch || fields?.endEpoch,
-                isDeletable: fields?.deletable === true, // Only mark as deletable if explicitly true
-                size: this.parseSize(fields?.size),
-                createdEpoch: fields?.created_epoch || fields?.createdEpoch,
-                storageRebate: fields?.storage_rebate || fields?.storageRebate
-              };
-
-              // Try to get additional info from the aggregator
-              if (blobInfo.blobId) {
-                try {
-                  const contentInfo = await this.getBlobInfo(blobInfo.blobId);
-                  if (contentInfo) {
-                    blobInfo.contentType = contentInfo.contentType;
-                    blobInfo.size = blobInfo.size || contentInfo.size;
-                  }
-                } catch (error) {
-                  console.warn(`Could not get content info for blob ${blobInfo.blobId}`);
-                }
-              }
-
-              blobInfos.push(blobInfo);
-            }
-          }
+      for await (const obj of ownedObjects) {
+        const blobInfo = await this.toBlobInfo(obj, walletAddress);
+        if (blobInfo) {
+          progress.blobsFound++;
+          yield blobInfo;
         }
       }
       
       // If no Walrus objects found via Sui query, don't fallback to CLI
       // The CLI uses the configured wallet, not the requested address
 
-      return blobInfos;
+      onProgress?.({ ...progress, done: true });
     } catch (error) {
       throw new Error(`Failed to list blobs for wallet ${walletAddress}: ${error}`);
     }
   }
 
+  async getBlobsByObjectIds(objectIds: string[], walletAddress: string): Promise<BlobInfo[]> {
+    if (!this.suiClient) {
+      throw new Error('Sui client not initialized. Provide suiRpcUrl in constructor.');
+    }
+
+    const blobInfos: BlobInfo[] = [];
+
+    // multiGetObjects accepts at most 50 IDs per request
+    for (let i = 0; i < objectIds.length; i += 50) {
+      const objects = await this.suiClient.multiGetObjects({
+        ids: objectIds.slice(i, i + 50),
+        options: {
+          showContent: true,
+          showType: true
+        }
+      });
+
+      for (const obj of objects) {
+        const blobInfo = await this.toBlobInfo(obj, walletAddress);
+        if (blobInfo) {
+          blobInfos.push(blobInfo);
+        }
+      }
+    }
+
+    return blobInfos;
+  }
+
+  private async toBlobInfo(obj: SuiObjectResponse, walletAddress: string): Promise<BlobInfo | null> {
+    if (obj.data?.content?.dataType !== 'moveObject' || !obj.data?.type) {
+      return null;
+    }
+
+    if (!isWalrusBlobType(obj.data.type, await this.resolveBlobType())) {
+      return null;
+    }
+
+    const fields = (obj.data.content as any).fields;
+    const blobId = this.parseBlobId(fields);
+    
+    if (!blobId) {
+      return null;
+    }
+
+    // Blob objects keep their lifetime in the nested Storage resource
+    const storage = fields?.storage?.fields;
+    const endEpoch = this.parseEpoch(storage?.end_epoch ?? fields?.end_epoch ?? fields?.endEpoch);
+
+    const blobInfo: BlobInfo = {
+      blobId: blobId,
+      suiObjectId: obj.data.objectId,
+      owner: walletAddress,
+      isExpired: this.checkIfExpired(endEpoch),
+      endEpoch,
+      isDeletable: fields?.deletable === true, // Only mark as deletable if explicitly true
+      size: this.parseSize(fields?.size),
+      createdEpoch: this.parseEpoch(fields?.registered_epoch ?? fields?.created_epoch ?? fields?.createdEpoch),
+      certifiedEpoch: this.parseEpoch(fields?.certified_epoch),
+      storageRebate: fields?.storage_rebate || fields?.storageRebate
+    };
+
+    // Try to get additional info from the aggregator
+    try {
+      const contentInfo = await this.getBlobInfo(blobInfo.blobId);
+      if (contentInfo) {
+        blobInfo.contentType = contentInfo.contentType;
+        blobInfo.size = blobInfo.size || contentInfo.size;
+      }
+    } catch (error) {
+      console.warn(`Could not get content info for blob ${blobInfo.blobId}`);
+    }
+
+    return blobInfo;
+  }
+
   async deleteBlob(blobId: string): Promise<boolean> {
+    if (this.signing?.systemObjectId && this.suiClient) {
+      return this.deleteBlobInTransaction(blobId, this.signing.signer, this.signing.systemObjectId);
+    }
+    return this.deleteBlobViaCli(blobId);
+  }
+
+  private async deleteBlobInTransaction(blobId: string, signer: Signer, systemObjectId: string): Promise<boolean> {
+    const suiClient = this.suiClient!;
+    const owner = signer.getAddress();
+
+    const blobType = blobObjectType(await resolveWalrusTypePackage(suiClient, systemObjectId));
+    let blobObjectId: string | undefined;
+    for await (const obj of iterateOwnedObjects(suiClient, { owner, filter: { StructType: blobType }, options: { showContent: true, showType: true } })) {
+      const fields = obj.data?.content?.dataType === 'moveObject' ? (obj.data.content as any).fields : undefined;
+      if (obj.data?.type === blobType && this.parseBlobId(fields) === blobId) {
+        blobObjectId = obj.data.objectId;
+        break;
+      }
+    }
+
+    if (!blobObjectId) {
+      throw new Error(`Failed to delete blob ${blobId}: no Blob object owned by ${owner}`);
+    }
+
+    try {
+      const tx = buildDeletionTransaction({
+        packageId: await resolveWalrusPackageId(suiClient, systemObjectId),
+        systemObjectId,
+        blobObjectIds: [blobObjectId],
+        sender: owner
+      });
+      const txBytes = await tx.build({ client: suiClient });
+      const response = await suiClient.executeTransactionBlock({
+        transactionBlock: txBytes,
+        signature: await signer.signTransaction(txBytes),
+        options: { showEffects: true }
+      });
+      if (response.effects?.status.status !== 'success') {
+        throw new Error(response.effects?.status.error || 'transaction failed');
+      }
+      return true;
+    } catch (error) {
+      throw new Error(`Failed to delete blob ${blobId}: ${error}`);
+    }
+  }
+
+  private async deleteBlobViaCli(blobId: string): Promise<boolean> {
     return new Promise((resolve, reject) => {
       const walrusProcess = spawn('walrus', ['delete', '--blob-id', blobId, '--json'], {
         stdio: ['pipe', 'pipe', 'pipe']
@@ -274,11 +489,42 @@ export class WalrusClient {
     }
   }
 
-  private checkIfExpired(fields: any): boolean {
-    if (!fields?.end_epoch) return false;
-    
-    const currentEpoch = Math.floor(Date.now() / 1000 / 24 / 3600);
-    return fields.end_epoch < currentEpoch;
+  private parseBlobId(fields: any): string | undefined {
+    const blobId = fields?.blob_id || fields?.blobId;
+
+    // Convert blob ID from decimal to hex if necessary
+    if (blobId && typeof blobId === 'string' && /^\d+$/.test(blobId)) {
+      return '0x' + BigInt(blobId).toString(16).padStart(64, '0');
+    } else if (blobId && typeof blobId === 'number') {
+      return '0x' + BigInt(blobId).toString(16).padStart(64, '0');
+    }
+
+    return blobId || undefined;
+  }
+
+  private async resolveBlobType(): Promise<string | undefined> {
+    const systemObjectId = this.systemObjectId ?? this.signing?.systemObjectId;
+    if (!this.suiClient || !systemObjectId || systemObjectId === '0x') {
+      return undefined;
+    }
+    if (!this.blobType) {
+      this.blobType = resolveWalrusTypePackage(this.suiClient, systemObjectId).then(blobObjectType);
+      this.blobType.catch(() => {
+        this.blobType = undefined;
+      });
+    }
+    return this.blobType;
+  }
+
+  private checkIfExpired(endEpoch: number | undefined): boolean {
+    if (endEpoch === undefined || this.currentEpoch === undefined) return false;
+    return isExpiredAt(endEpoch, this.currentEpoch);
+  }
+
+  private parseEpoch(epoch: any): number | undefined {
+    if (epoch === undefined || epoch === null || epoch === '') return undefined;
+    const value = Number(epoch);
+    return Number.isFinite(value) ? value : undefined;
   }
 
   private parseSize(size: any): number | undefined {
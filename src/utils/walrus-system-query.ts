@@ -1,13 +1,41 @@
 import { SuiClient } from '@mysten/sui.js/client';
-import { BlobInfo } from '../types/index.js';
-import { WALRUS_CONFIGS } from '../config/walrus.js';
+import { BlobInfo, SiteResource } from '../types/index.js';
+import { WALRUS_CONFIGS, WALRUS_SITES_PACKAGE } from '../config/walrus.js';
+import { SiteDecoder } from './site-decoder.js';
+import { iterateOwnedObjects, OwnedObjectsProgress } from './owned-objects.js';
+
+export interface SiteSummary {
+  objectId: string;
+  name?: string;
+  version: string;
+}
+
+/**
+ * Whether a type is the Walrus Sites Site struct. On networks without a
+ * known Walrus Sites package, any package's site::Site struct matches.
+ */
+export function isWalrusSiteType(objectType: string, network: string): boolean {
+  const packageId = WALRUS_SITES_PACKAGE[network as keyof typeof WALRUS_SITES_PACKAGE];
+  if (packageId && packageId !== '0x') {
+    return objectType === walrusSiteType(packageId);
+  }
+  return /^0x[0-9a-fA-F]+::site::Site$/.test(objectType);
+}
+
+export function walrusSiteType(packageId: string): string {
+  return `${packageId}::site::Site`;
+}
 
 export class WalrusSystemQuery {
   private suiClient: SuiClient;
   private systemObjectId: string;
+  private suiRpcUrl: string;
+  private network: 'mainnet' | 'testnet';
 
   constructor(suiRpcUrl: string, network: 'mainnet' | 'testnet' = 'mainnet') {
     this.suiClient = new SuiClient({ url: suiRpcUrl });
+    this.suiRpcUrl = suiRpcUrl;
+    this.network = network;
     this.systemObjectId = WALRUS_CONFIGS[network].systemObject;
   }
 
@@ -44,73 +72,70 @@ export class WalrusSystemQuery {
   }
 
   async getSiteBlobIds(siteObjectId: string): Promise<string[]> {
+    const resources = await this.getSiteResources(siteObjectId);
+    return resources.map(resource => resource.blobId);
+  }
+
+  /**
+   * Throws when the site cannot be read: an empty list would make every
+   * blob the site serves look unreferenced
+   */
+  async getSiteResources(siteObjectId: string): Promise<SiteResource[]> {
     try {
-      const blobIds: string[] = [];
-      
-      // Get dynamic fields for the site
-      const dynamicFields = await this.suiClient.getDynamicFields({
-        parentId: siteObjectId
+      const resources = await new SiteDecoder(this.suiRpcUrl).getResources(siteObjectId);
+      return resources.map(resource => ({
+        path: resource.path,
+        blobId: resource.blobId,
+        contentType: Object.entries(resource.headers).find(([key]) => key.toLowerCase() === 'content-type')?.[1]
+      }));
+    } catch (error) {
+      throw new Error(`Failed to read the resources of site ${siteObjectId}: ${error}`);
+    }
+  }
+
+  async getSiteSummaries(siteObjectIds: string[]): Promise<SiteSummary[]> {
+    const summaries: SiteSummary[] = [];
+
+    for (let i = 0; i < siteObjectIds.length; i += 50) {
+      const objects = await this.suiClient.multiGetObjects({
+        ids: siteObjectIds.slice(i, i + 50),
+        options: { showContent: true }
       });
-      
-      // Fetch each dynamic field to get blob IDs
-      for (const field of dynamicFields.data) {
-        try {
-          const fieldObject = await this.suiClient.getDynamicFieldObject({
-            parentId: siteObjectId,
-            name: field.name
-          });
-          
-          if (fieldObject.data?.content?.dataType === 'moveObject') {
-            const fieldContent = (fieldObject.data.content as any).fields;
-            const resourceBlobId = fieldContent?.value?.fields?.blob_id;
-            
-            if (resourceBlobId) {
-              // Convert decimal to hex
-              let hexId: string;
-              if (typeof resourceBlobId === 'string' && /^\d+$/.test(resourceBlobId)) {
-                hexId = '0x' + BigInt(resourceBlobId).toString(16).padStart(64, '0');
-              } else if (typeof resourceBlobId === 'number') {
-                hexId = '0x' + BigInt(resourceBlobId).toString(16).padStart(64, '0');
-              } else {
-                hexId = resourceBlobId;
-              }
-              blobIds.push(hexId);
-            }
-          }
-        } catch (error) {
-          // Silently continue if we can't fetch a field
-        }
+
+      for (const obj of objects) {
+        if (!obj.data) continue;
+        const fields = obj.data.content?.dataType === 'moveObject' ? (obj.data.content as any).fields : undefined;
+        summaries.push({
+          objectId: obj.data.objectId,
+          name: fields?.name,
+          version: obj.data.version
+        });
       }
-      
-      return blobIds;
-    } catch (error) {
-      console.error(`Error getting site blob IDs for ${siteObjectId}:`, error);
-      return [];
     }
+
+    return summaries;
   }
 
-  async queryWalrusSites(walletAddress: string): Promise<BlobInfo[]> {
+  async queryWalrusSites(
+    walletAddress: string,
+    onProgress?: (progress: OwnedObjectsProgress) => void
+  ): Promise<BlobInfo[]> {
     try {
-      const ownedObjects = await this.suiClient.getOwnedObjects({
+      const ownedObjects = iterateOwnedObjects(this.suiClient, {
         owner: walletAddress,
         options: {
           showContent: true,
           showType: true
         }
-      });
+      }, onProgress);
 
       const blobInfos: BlobInfo[] = [];
 
-      for (const obj of ownedObjects.data) {
+      for await (const obj of ownedObjects) {
         if (obj.data?.type) {
           const objectType = obj.data.type;
           
-          // Look for Walrus Sites package objects
-          if (objectType.includes('0x6fb382ac9a32d0e351506e70b13d0a75abacb55c7c0d41b6b2b5b84f8e7c8b1c') ||
-              objectType.includes('walrus_site') ||
-              objectType.includes('Site')) {
-            
-            console.log(`Found Walrus Site object: ${objectType}`);
+          if (isWalrusSiteType(objectType, this.network)) {
             
             if (obj.data.content?.dataType === 'moveObject') {
               const fields = (obj.data.content as any).fields;
@@ -139,17 +164,20 @@ export class WalrusSystemQuery {
 
   async debugWalletObjects(walletAddress: string): Promise<void> {
     try {
-      const ownedObjects = await this.suiClient.getOwnedObjects({
+      const ownedObjects = [];
+      for await (const obj of iterateOwnedObjects(this.suiClient, {
         owner: walletAddress,
         options: {
           showContent: true,
           showType: true
         }
-      });
+      })) {
+        ownedObjects.push(obj);
+      }
 
-      console.log(`\nDebug: Wallet ${walletAddress} owns ${ownedObjects.data.length} objects:`);
+      console.log(`\nDebug: Wallet ${walletAddress} owns ${ownedObjects.length} objects:`);
       
-      ownedObjects.data.forEach((obj, index) => {
+      ownedObjects.forEach((obj, index) => {
         if (obj.data?.type) {
           console.log(`${index + 1}. Type: ${obj.data.type}`);
           console.log(`   Object ID: ${obj.data.objectId}`);